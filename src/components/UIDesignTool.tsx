@@ -1,5 +1,6 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import ExportUI from '../export/ExportUI';
+import { VideoExportSource } from '../export/ExportManager';
 import LayoutManager from './layout/LayoutManager';
 import LayoutModeSwitcher from './layout/LayoutModeSwitcher';
 import ShortCutPopUpModal from './design-tool/ShortCutPopUpModal';
@@ -12,19 +13,44 @@ import ProjectManager from './project/ProjectManager';
 import { TutorialProvider } from '../contexts/TutorialContext';
 import { DesignElement } from '../types/design';
 import { BackgroundConfig, createDefaultBackground } from '../types/background';
-import { ProjectCanvas } from '../types/projectFile';
-import { useCanvasHistory, CanvasState } from '../hooks/useCanvasHistory';
+import { LoadedProject, ProjectCanvas, ProjectProperties } from '../types/projectFile';
+import {
+  ProjectAnimations,
+  ProjectChangeLogEntry,
+  HistoryCheckpoint,
+  createHistoryCheckpoint,
+  isHistoryCheckpoint
+} from '../types/project';
+import { TimelineClips } from '../types/timeline';
+import {
+  ExportPreset,
+  VideoSettings,
+  VIDEO_RESOLUTIONS,
+  createDefaultExportPresets,
+  createDefaultVideoSettings
+} from '../types/export';
+import { createEmptyAnimations } from '../utils/keyframeUtils';
+import { applyAnimations, getAnimationsEndTime } from '../utils/animationEngine';
+import { applyClipVisibility, getClipsEndTime } from '../utils/clipUtils';
+import { CURRENT_SCHEMA_VERSION } from '../utils/projectMigrations';
+import { useCanvasHistory, CanvasState, DEFAULT_HISTORY_LIMIT } from '../hooks/useCanvasHistory';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useLayoutMode } from '../hooks/useLayoutMode';
 import { useGlobalKeyboardShortcuts } from '../hooks/useGlobalKeyboardShortcuts';
+import { usePlayback } from '../hooks/usePlayback';
 import { useGridSystem } from '../hooks/useGridSystem';
 import { usePreviewAutoBackup } from '../hooks/usePreviewAutoBackup';
 import { useAuth } from '../contexts/AuthContext';
-import { createGroup, ungroupElements, updateElementInGroup, getAllElementsFlat } from '../utils/groupUtils';
+import { createGroup, ungroupElements, updateElementInGroup, getAllElementsFlat, removeElements } from '../utils/groupUtils';
+import { applyBooleanOperation, BOOLEAN_OPERATION_LABELS, BooleanOperation } from '../utils/pathBoolean';
 import { CanvasViewport } from '../utils/canvasUtils';
 import { PresetService } from '../services/PresetService';
 import { supabase } from '../lib/supabase';
 
+// Shortest timeline, and the frame rate before a project is opened
+const DEFAULT_TIMELINE_DURATION = 10;
+const DEFAULT_CANVAS_FPS = 30;
+
 interface UIDesignToolProps {
   onBackToMain: () => void;
   editorMode?: boolean;
@@ -39,14 +65,19 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
     selectedElements: []
   };
 
+  const [historyLimit, setHistoryLimit] = useState(DEFAULT_HISTORY_LIMIT);
+
   const {
     currentState,
     pushToHistory,
     undo,
     redo,
     canUndo,
-    canRedo
-  } = useCanvasHistory(initialState);
+    canRedo,
+    undoLabel,
+    redoLabel,
+    timeline: historyTimeline
+  } = useCanvasHistory(initialState, { limit: historyLimit });
 
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
@@ -61,6 +92,14 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
   const [showEditorSettings, setShowEditorSettings] = useState(false);
   const [projectName, setProjectName] = useState('Untitled Project');
   const [background, setBackground] = useState<BackgroundConfig>(createDefaultBackground());
+  const [animations, setAnimations] = useState<ProjectAnimations>(createEmptyAnimations());
+  const [clips, setClips] = useState<TimelineClips>({});
+  const [exportPresets, setExportPresets] = useState<ExportPreset[]>(createDefaultExportPresets());
+  const [changeLog, setChangeLog] = useState<ProjectChangeLogEntry[]>([]);
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(createDefaultVideoSettings());
+  const [canvasFps, setCanvasFps] = useState(DEFAULT_CANVAS_FPS);
+  // Settings from the opened project file that the editor has no controls for, e.g. metadata
+  const [projectProperties, setProjectProperties] = useState<Partial<ProjectProperties>>({});
   const [projectLoaded, setProjectLoaded] = useState(false);
 
   // Load project data when projectId is provided
@@ -82,7 +121,23 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
                 const loadedCanvas = project.data.canvas;
 
                 if (loadedElements.length > 0) {
-                  pushToHistory({ elements: loadedElements, selectedElements: [] });
+                  pushToHistory({ elements: loadedElements, selectedElements: [] }, { label: 'Load Project' });
+                }
+
+                if (project.data.animations) {
+                  setAnimations(project.data.animations);
+                }
+
+                if (project.data.clips) {
+                  setClips(project.data.clips);
+                }
+
+                if (project.data.exportPresets) {
+                  setExportPresets(project.data.exportPresets);
+                }
+
+                if (project.data.changeLog) {
+                  setChangeLog(project.data.changeLog);
                 }
 
                 if (loadedCanvas) {
@@ -128,7 +183,23 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
               const loadedCanvas = data.data.canvas;
 
               if (loadedElements.length > 0) {
-                pushToHistory({ elements: loadedElements, selectedElements: [] });
+                pushToHistory({ elements: loadedElements, selectedElements: [] }, { label: 'Load Project' });
+              }
+
+              if (data.data.animations) {
+                setAnimations(data.data.animations);
+              }
+
+              if (data.data.clips) {
+                setClips(data.data.clips);
+              }
+
+              if (data.data.exportPresets) {
+                setExportPresets(data.data.exportPresets);
+              }
+
+              if (data.data.changeLog) {
+                setChangeLog(data.data.changeLog);
               }
 
               if (loadedCanvas) {
@@ -181,6 +252,35 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
   // Layout mode state
   const { currentMode, setMode, isTransitioning } = useLayoutMode();
 
+  // Timeline playback (Animate mode) runs until the last animation or clip ends, at the project frame rate,
+  // and never shorter than the default so there is room to add keyframes and extend clips
+  const timelineDuration = useMemo(
+    () => Math.max(getAnimationsEndTime(animations.byId), getClipsEndTime(clips), DEFAULT_TIMELINE_DURATION),
+    [animations.byId, clips]
+  );
+  const playback = usePlayback({ duration: timelineDuration, fps: canvasFps });
+  const { pause: pausePlayback } = playback;
+
+  React.useEffect(() => {
+    if (currentMode !== 'edit') {
+      pausePlayback();
+    }
+  }, [currentMode, pausePlayback]);
+
+  // Timeline exports render each frame from the model at the requested time
+  const videoExportSource = useMemo<VideoExportSource>(() => {
+    const { width, height } = VIDEO_RESOLUTIONS[videoSettings.resolution];
+    return {
+      duration: playback.duration,
+      fps: videoSettings.frameRate,
+      width,
+      height,
+      background,
+      getElementsAt: (time: number) =>
+        applyClipVisibility(applyAnimations(currentState.elements, animations.byId, time), clips, time, playback.duration)
+    };
+  }, [videoSettings, playback.duration, background, currentState.elements, animations.byId, clips]);
+
   // Grid system
   const canvasSize = { width: 3840, height: 2160 };
   const {
@@ -198,10 +298,10 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
     zoom
   };
 
-  const currentCanvas: ProjectCanvas = {
+  const currentCanvas = useMemo<ProjectCanvas>(() => ({
     width: canvasSize.width,
     height: canvasSize.height,
-    fps: 30,
+    fps: canvasFps,
     unit: 'px',
     background,
     grid: {
@@ -211,36 +311,86 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
     },
     zoom,
     pan
-  };
+  }), [canvasSize.width, canvasSize.height, canvasFps, background, showGrid, gridSettings, snapEnabled, zoom, pan]);
+
+  // Project properties as saved: loaded values overlaid with the editor's current settings
+  const saveProperties = useMemo<Partial<ProjectProperties>>(() => ({
+    ...projectProperties,
+    exportDefaults: {
+      format: 'png',
+      quality: 0.95,
+      ...projectProperties.exportDefaults,
+      presets: exportPresets,
+      video: videoSettings
+    },
+    editor: {
+      showRulers: false,
+      ...projectProperties.editor,
+      gridSnap: snapEnabled,
+      showGrid,
+      grid: gridSettings,
+      historyLimit
+    }
+  }), [projectProperties, exportPresets, videoSettings, snapEnabled, showGrid, gridSettings, historyLimit]);
 
-  const handleProjectLoaded = useCallback((newElements: DesignElement[], newCanvas: ProjectCanvas) => {
+  const handleProjectLoaded = useCallback((project: LoadedProject) => {
+    const { canvas: newCanvas, properties } = project;
     const newState: CanvasState = {
-      elements: newElements,
+      elements: project.elements,
       selectedElements: []
     };
-    pushToHistory(newState);
+    pushToHistory(newState, { label: 'Load Project' });
 
+    setProjectName(project.name);
     setZoom(newCanvas.zoom || 1);
     setPan(newCanvas.pan || { x: 0, y: 0 });
     setShowGrid(newCanvas.grid.enabled);
     setSnapEnabled(newCanvas.grid.snap);
+    setCanvasFps(newCanvas.fps || DEFAULT_CANVAS_FPS);
 
     if (newCanvas.background) {
       setBackground(newCanvas.background);
     }
-  }, [pushToHistory]);
 
-  const updateCanvas = useCallback((newElements: DesignElement[], newSelectedElements?: string[]) => {
+    setAnimations({ byId: project.animations, order: Object.keys(project.animations) });
+    setClips(project.clips);
+
+    if (properties.exportDefaults?.presets) {
+      setExportPresets(properties.exportDefaults.presets);
+    }
+    if (properties.exportDefaults?.video) {
+      setVideoSettings(properties.exportDefaults.video);
+    }
+    if (properties.editor?.grid) {
+      updateGridSettings(properties.editor.grid);
+    }
+    setHistoryLimit(properties.editor?.historyLimit ?? DEFAULT_HISTORY_LIMIT);
+
+    setProjectProperties(properties);
+    setChangeLog(project.changeLog);
+  }, [pushToHistory, updateGridSettings]);
+
+  const updateCanvas = useCallback((newElements: DesignElement[], newSelectedElements?: string[], label?: string, mergeKey?: string) => {
     const newState: CanvasState = {
       elements: newElements,
       selectedElements: newSelectedElements ?? currentState.selectedElements
     };
-    pushToHistory(newState);
+    pushToHistory(newState, { label, mergeKey });
   }, [pushToHistory, currentState.selectedElements]);
 
-  const updateElement = useCallback((id: string, updates: Partial<DesignElement>) => {
+  // Updates sharing a mergeKey, such as the moves of one drag, undo as a single step
+  const updateElement = useCallback((id: string, updates: Partial<DesignElement>, mergeKey?: string) => {
     const newElements = updateElementInGroup(currentState.elements, id, updates);
-    updateCanvas(newElements);
+    updateCanvas(newElements, undefined, undefined, mergeKey);
+  }, [currentState.elements, updateCanvas]);
+
+  // Several element updates applied together as one undo step
+  const updateElements = useCallback((updates: Record<string, Partial<DesignElement>>, label?: string) => {
+    const newElements = Object.entries(updates).reduce(
+      (elements, [id, elementUpdates]) => updateElementInGroup(elements, id, elementUpdates),
+      currentState.elements
+    );
+    updateCanvas(newElements, undefined, label);
   }, [currentState.elements, updateCanvas]);
 
   const addElement = useCallback((element: DesignElement) => {
@@ -255,7 +405,7 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
   }, [currentState.elements, updateCanvas]);
 
   const deleteElement = useCallback((id: string) => {
-    const newElements = currentState.elements.filter(el => el.id !== id);
+    const newElements = removeElements(currentState.elements, [id]);
     const newSelected = currentState.selectedElements.filter(selId => selId !== id);
     updateCanvas(newElements, newSelected);
   }, [currentState.elements, currentState.selectedElements, updateCanvas]);
@@ -293,28 +443,33 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
   const handleGroup = useCallback(() => {
     if (currentState.selectedElements.length >= 2) {
       const newElements = createGroup(currentState.elements, currentState.selectedElements);
-      const newGroup = newElements.find(el => el.type === 'group' && !currentState.elements.find(existing => existing.id === el.id));
-      updateCanvas(newElements, newGroup ? [newGroup.id] : []);
+      const existingIds = new Set(getAllElementsFlat(currentState.elements).map(el => el.id));
+      const newGroup = getAllElementsFlat(newElements).find(el => el.type === 'group' && !existingIds.has(el.id));
+      updateCanvas(newElements, newGroup ? [newGroup.id] : [], 'Group');
     }
   }, [currentState.elements, currentState.selectedElements, updateCanvas]);
 
   const handleUngroup = useCallback(() => {
     if (currentState.selectedElements.length === 1) {
-      const selectedElement = currentState.elements.find(el => el.id === currentState.selectedElements[0]);
+      const selectedElement = getAllElementsFlat(currentState.elements).find(el => el.id === currentState.selectedElements[0]);
       if (selectedElement?.type === 'group') {
         const newElements = ungroupElements(currentState.elements, selectedElement.id);
         const childIds = selectedElement.children?.map(child => child.id) || [];
-        updateCanvas(newElements, childIds);
+        updateCanvas(newElements, childIds, `Ungroup ${selectedElement.name}`);
       }
     }
   }, [currentState.elements, currentState.selectedElements, updateCanvas]);
 
+  const handleBooleanOperation = useCallback((operation: BooleanOperation) => {
+    const result = applyBooleanOperation(currentState.elements, currentState.selectedElements, operation);
+    if (result) {
+      updateCanvas(result.elements, result.resultId ? [result.resultId] : [], BOOLEAN_OPERATION_LABELS[operation]);
+    }
+  }, [currentState.elements, currentState.selectedElements, updateCanvas]);
+
   const handleDelete = useCallback(() => {
     if (currentState.selectedElements.length > 0) {
-      let newElements = [...currentState.elements];
-      currentState.selectedElements.forEach(id => {
-        newElements = newElements.filter(el => el.id !== id);
-      });
+      const newElements = removeElements(currentState.elements, currentState.selectedElements);
       updateCanvas(newElements, []);
     }
   }, [currentState.elements, currentState.selectedElements, updateCanvas]);
@@ -323,10 +478,10 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
     if (currentState.selectedElements.length === 0) return;
 
     let newElements = [...currentState.elements];
+    const allElements = getAllElementsFlat(currentState.elements);
     currentState.selectedElements.forEach(id => {
-      const elementIndex = newElements.findIndex(el => el.id === id);
-      if (elementIndex !== -1) {
-        const element = newElements[elementIndex];
+      const element = allElements.find(el => el.id === id);
+      if (element) {
         let updates: Partial<DesignElement> = {};
 
         switch (direction) {
@@ -392,10 +547,33 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
       elements,
       selectedElements
     };
-    pushToHistory(newState);
+    pushToHistory(newState, { label: 'Apply Project JSON' });
     setShowProjectJsonEditor(false);
   }, [pushToHistory]);
 
+  const checkpoints = useMemo(() => changeLog.filter(isHistoryCheckpoint), [changeLog]);
+
+  const handleCreateCheckpoint = useCallback((name: string) => {
+    const checkpoint = createHistoryCheckpoint(
+      name,
+      currentState.elements,
+      currentState.selectedElements,
+      historyTimeline.headId ?? undefined
+    );
+    setChangeLog(prev => [...prev, checkpoint]);
+  }, [currentState.elements, currentState.selectedElements, historyTimeline.headId]);
+
+  const handleRestoreCheckpoint = useCallback((checkpoint: HistoryCheckpoint) => {
+    pushToHistory(
+      { elements: checkpoint.diff.elements, selectedElements: checkpoint.diff.selectedElements },
+      { label: `Restore ${checkpoint.summary}` }
+    );
+  }, [pushToHistory]);
+
+  const handleDeleteCheckpoint = useCallback((id: string) => {
+    setChangeLog(prev => prev.filter(entry => entry.id !== id));
+  }, []);
+
   const handleShowShortcuts = useCallback(() => {
     setShowShortcutsModal(true);
   }, []);
@@ -452,7 +630,11 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
                   elements: currentState.elements,
                   selectedElements: currentState.selectedElements,
                   canvas: currentCanvas,
-                  background
+                  background,
+                  animations,
+                  clips,
+                  exportPresets,
+                  changeLog
                 },
                 updated_at: new Date().toISOString()
               };
@@ -471,7 +653,11 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
               elements: currentState.elements,
               selectedElements: currentState.selectedElements,
               canvas: currentCanvas,
-              background
+              background,
+              animations,
+              clips,
+              exportPresets,
+              changeLog
             },
             updated_at: new Date().toISOString()
           })
@@ -481,7 +667,7 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
       console.error('Error saving project:', error);
       throw error;
     }
-  }, [projectId, isGuest, user, projectName, currentState.elements, currentState.selectedElements, currentCanvas, background]);
+  }, [projectId, isGuest, user, projectName, currentState.elements, currentState.selectedElements, currentCanvas, background, animations, clips, exportPresets, changeLog]);
 
 
   // Enhanced keyboard shortcuts with shortcut modal
@@ -516,7 +702,8 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
     toggleGrid,
     onNudge: handleNudge,
     zoom,
-    setZoom
+    setZoom,
+    playback: currentMode === 'edit' ? playback : undefined
   });
   
   useKeyboardShortcuts({
@@ -540,6 +727,11 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
       <ProjectManager
         elements={currentState.elements}
         canvas={currentCanvas}
+        animations={animations.byId}
+        clips={clips}
+        properties={saveProperties}
+        changeLog={changeLog}
+        projectId={projectId}
         userId={user?.id || null}
         userName={user?.email || null}
         onProjectLoaded={handleProjectLoaded}
@@ -550,11 +742,13 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
           <div className="flex-1">
             <LayoutManager
               currentMode={currentMode}
+              onModeChange={setMode}
               isTransitioning={isTransitioning}
               elements={currentState.elements}
               selectedElements={currentState.selectedElements}
               setSelectedElements={setSelectedElements}
               updateElement={updateElement}
+              updateElements={updateElements}
               deleteElement={deleteElement}
               duplicateElement={duplicateElement}
               onAddElement={addElement}
@@ -568,10 +762,13 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
               setSnapEnabled={setSnapEnabled}
               canUndo={canUndo}
               canRedo={canRedo}
+              undoLabel={undoLabel}
+              redoLabel={redoLabel}
               onUndo={undo}
           onRedo={redo}
           onGroup={handleGroup}
           onUngroup={handleUngroup}
+          onBooleanOperation={handleBooleanOperation}
           onOpenExport={handleExport}
           onOpenJsonEditor={handleOpenJsonEditor}
           onOpenLineProperties={handleOpenLineProperties}
@@ -589,6 +786,16 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
           onExitToHome={onBackToMain}
           onSaveProjectFile={handleSaveClick}
           onLoadProjectFile={handleLoadClick}
+          historyTimeline={historyTimeline}
+          checkpoints={checkpoints}
+          onCreateCheckpoint={handleCreateCheckpoint}
+          onRestoreCheckpoint={handleRestoreCheckpoint}
+          onDeleteCheckpoint={handleDeleteCheckpoint}
+          animations={animations}
+          onAnimationsChange={setAnimations}
+          clips={clips}
+          onClipsChange={setClips}
+          playback={playback}
             />
           </div>
 
@@ -606,6 +813,10 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
         projectName={projectName}
         canvasWidth={3840}
         canvasHeight={2160}
+        background={background}
+        exportPresets={exportPresets}
+        onExportPresetsChange={setExportPresets}
+        video={videoExportSource}
       />
       
       <ShortCutPopUpModal
@@ -629,7 +840,7 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
         onApplyProject={handleApplyProject}
         serializeProject={(elements, selected) => JSON.stringify({
           proj_id: `proj-${Date.now()}`,
-          schemaVersion: 1,
+          schemaVersion: CURRENT_SCHEMA_VERSION,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
           canvas: { width: 3840, height: 2160 },
@@ -665,6 +876,10 @@ const UIDesignTool: React.FC<UIDesignToolProps> = ({ onBackToMain, editorMode =
         updateGridSettings={updateGridSettings}
         shapeSnapEnabled={snapEnabled}
         onToggleShapeSnap={() => setSnapEnabled(!snapEnabled)}
+        videoSettings={videoSettings}
+        onVideoSettingsChange={setVideoSettings}
+        historyLimit={historyLimit}
+        onHistoryLimitChange={setHistoryLimit}
           />
         </div>
         )}
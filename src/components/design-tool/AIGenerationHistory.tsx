@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, ChevronDown, ChevronRight, Download, Loader2, Play, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { GenerationPipeline, GenerationStageData } from '../../types/aiPipeline';
+import { GenerationStorageService } from '../../services/GenerationStorageService';
+
+interface AIGenerationHistoryProps {
+  onClose: () => void;
+  onReplace: (pipeline: GenerationPipeline) => void;
+  onRerun: (prompt: string) => void;
+}
+
+type GenerationStats = Awaited<ReturnType<typeof GenerationStorageService.getGenerationStats>>;
+
+const STAGES: Array<{ key: keyof GenerationStageData; label: string }> = [
+  { key: 'validation', label: 'Validation' },
+  { key: 'highLevel', label: 'High-level structure' },
+  { key: 'lowLevel', label: 'Low-level shapes' },
+  { key: 'placement', label: 'Placement' },
+  { key: 'edit', label: 'Edit' },
+];
+
+const STATUS_STYLES: Record<GenerationPipeline['status'], string> = {
+  complete: 'bg-green-500/20 text-green-300 border-green-500/30',
+  partial: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+  failed: 'bg-red-500/20 text-red-300 border-red-500/30',
+  'in-progress': 'bg-violet-500/20 text-violet-300 border-violet-500/30',
+};
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// The raw model reply is stored as text; show it parsed when it is JSON
+const formatStage = (data: unknown): string => {
+  if (data && typeof data === 'object' && 'rawResponse' in data) {
+    const { rawResponse, ...rest } = data as { rawResponse: string };
+    let raw: unknown = rawResponse;
+    try {
+      raw = JSON.parse(rawResponse);
+    } catch {
+      // Plain text reply, e.g. the validator's 0 or 1
+    }
+    return JSON.stringify({ ...rest, rawResponse: raw }, null, 2);
+  }
+  return JSON.stringify(data, null, 2);
+};
+
+const AIGenerationHistory: React.FC<AIGenerationHistoryProps> = ({ onClose, onReplace, onRerun }) => {
+  const [generations, setGenerations] = useState<GenerationPipeline[]>([]);
+  const [stats, setStats] = useState<GenerationStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [openStages, setOpenStages] = useState<Set<string>>(new Set());
+  const [promptDraft, setPromptDraft] = useState('');
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    const [all, summary] = await Promise.all([
+      GenerationStorageService.loadAllGenerations(),
+      GenerationStorageService.getGenerationStats(),
+    ]);
+    setGenerations(all);
+    setStats(summary);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const toggleExpanded = (pipeline: GenerationPipeline) => {
+    setExpandedId(expandedId === pipeline.id ? null : pipeline.id);
+    setPromptDraft(pipeline.userPrompt);
+    setOpenStages(new Set());
+  };
+
+  const toggleStage = (key: string) => {
+    setOpenStages(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleExport = async (pipeline: GenerationPipeline) => {
+    try {
+      const jsonData = await GenerationStorageService.exportGeneration(pipeline.id);
+      const blob = new Blob([jsonData], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${pipeline.id}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting generation:', err);
+      alert('Failed to export generation');
+    }
+  };
+
+  const handleDelete = async (pipeline: GenerationPipeline) => {
+    if (!confirm(`Delete the generation "${pipeline.userPrompt}"?`)) return;
+    await GenerationStorageService.deleteGeneration(pipeline.id);
+    if (expandedId === pipeline.id) setExpandedId(null);
+    await loadHistory();
+  };
+
+  const renderDetails = (pipeline: GenerationPipeline) => {
+    const stages = STAGES.filter(({ key }) => pipeline.stages[key]);
+    const placeableCount = GenerationStorageService.getLowLevelShapesByIndex(pipeline).size;
+
+    return (
+      <div className="mt-2 pt-2 border-t border-gray-700/50 space-y-2">
+        {[...stages, ...(pipeline.errorLog.length > 0 ? [{ key: 'errors', label: `Errors (${pipeline.errorLog.length})` }] : [])].map(({ key, label }) => (
+          <div key={key}>
+            <button
+              onClick={() => toggleStage(key)}
+              className="flex items-center space-x-1 text-[11px] text-gray-300 hover:text-white"
+            >
+              {openStages.has(key) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              <span>{label}</span>
+            </button>
+            {openStages.has(key) && (
+              <pre className="mt-1 p-2 max-h-48 overflow-auto bg-gray-950/60 border border-gray-700/50 rounded text-[10px] text-gray-300 custom-scrollbar whitespace-pre-wrap break-all">
+                {key === 'errors'
+                  ? JSON.stringify(pipeline.errorLog, null, 2)
+                  : formatStage(pipeline.stages[key as keyof GenerationStageData])}
+              </pre>
+            )}
+          </div>
+        ))}
+        {stages.length === 0 && pipeline.errorLog.length === 0 && (
+          <p className="text-[11px] text-gray-500">No stages were recorded.</p>
+        )}
+
+        <textarea
+          value={promptDraft}
+          onChange={(e) => setPromptDraft(e.target.value)}
+          rows={2}
+          className="w-full px-2 py-1 bg-gray-800 border border-gray-600/50 rounded text-xs text-white resize-none focus:outline-none focus:border-violet-400/50"
+          title="Edit the prompt before running it again"
+        />
+
+        <div className="flex items-center justify-end space-x-1">
+          <button
+            onClick={() => handleDelete(pipeline)}
+            className="p-1 text-gray-400 hover:text-red-400 rounded transition-colors"
+            title="Delete from history"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => handleExport(pipeline)}
+            className="p-1 text-gray-400 hover:text-white rounded transition-colors"
+            title="Export as JSON"
+          >
+            <Download className="w-3.5 h-3.5" />
+          </button>
+          {placeableCount > 0 && (
+            <button
+              onClick={() => onReplace(pipeline)}
+              className="flex items-center space-x-1 px-2 py-1 text-xs text-violet-200 bg-violet-700/30 hover:bg-violet-700/50 rounded transition-colors"
+              title="Add the stored result to the canvas again without calling the AI"
+            >
+              <Upload className="w-3 h-3" />
+              <span>Place {placeableCount}</span>
+            </button>
+          )}
+          <button
+            onClick={() => onRerun(promptDraft.trim())}
+            disabled={!promptDraft.trim()}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-white bg-gradient-to-r from-violet-600 to-pink-600 hover:from-violet-500 hover:to-pink-500 rounded transition-colors disabled:opacity-50"
+            title="Run the prompt again"
+          >
+            <Play className="w-3 h-3" />
+            <span>Run</span>
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 relative z-10">
+      <div className="flex-shrink-0 flex items-center justify-between px-3 py-2 border-b border-violet-500/20">
+        <button
+          onClick={onClose}
+          className="flex items-center space-x-1 text-xs text-gray-300 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-3.5 h-3.5" />
+          <span>Back to chat</span>
+        </button>
+        <div className="flex items-center space-x-2">
+          {stats && (
+            <span className="text-[10px] text-gray-400">
+              {stats.total} total · {stats.completed} complete · {stats.partial} partial · {stats.failed} failed
+            </span>
+          )}
+          <button
+            onClick={loadHistory}
+            className="p-1 text-gray-400 hover:text-white rounded transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+        {isLoading && (
+          <div className="flex items-center justify-center py-6 text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+          </div>
+        )}
+        {!isLoading && generations.length === 0 && (
+          <p className="py-6 text-center text-xs text-gray-500">No generations yet.</p>
+        )}
+        {!isLoading && generations.map(pipeline => (
+          <div
+            key={pipeline.id}
+            className="p-2 bg-gray-900/60 border border-gray-700/50 rounded-lg hover:border-violet-500/30 transition-colors"
+          >
+            <button onClick={() => toggleExpanded(pipeline)} className="w-full text-left">
+              <div className="flex items-start justify-between space-x-2">
+                <p className="text-xs text-white line-clamp-2 break-words">{pipeline.userPrompt}</p>
+                <span className={`flex-shrink-0 px-1.5 py-0.5 text-[10px] border rounded capitalize ${STATUS_STYLES[pipeline.status]}`}>
+                  {pipeline.status}
+                </span>
+              </div>
+              <div className="mt-1 flex items-center space-x-2 text-[10px] text-gray-400">
+                <span>{formatDate(pipeline.timestamp)}</span>
+                {pipeline.metadata && (
+                  <>
+                    <span>{pipeline.metadata.successfulElements}/{pipeline.metadata.totalElements} elements</span>
+                    <span>{(pipeline.metadata.processingTimeMs / 1000).toFixed(1)}s</span>
+                  </>
+                )}
+                {pipeline.stages.edit && <span className="text-violet-300">edit</span>}
+              </div>
+            </button>
+            {expandedId === pipeline.id && renderDetails(pipeline)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AIGenerationHistory;
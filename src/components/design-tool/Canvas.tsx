@@ -7,13 +7,13 @@ import SnapGuides from './SnapGuides';
 import { useSnapping } from '../../hooks/useSnapping';
 import AdvancedGrid from './AdvancedGrid';
 import { GridSettings, GridCalculations } from '../../hooks/useGridSystem';
-import { findParentGroup } from '../../utils/groupUtils';
+import { findParentGroup, getAncestors, resizeGroup, toLocalDelta, toLocalPoint } from '../../utils/groupUtils';
 
 interface CanvasProps {
   elements: DesignElement[];
   selectedElements: string[];
   setSelectedElements: (ids: string[]) => void;
-  updateElement: (id: string, updates: Partial<DesignElement>) => void;
+  updateElement: (id: string, updates: Partial<DesignElement>, mergeKey?: string) => void;
   zoom: number;
   pan: { x: number; y: number };
   setPan: (pan: { x: number; y: number }) => void;
@@ -63,6 +63,18 @@ const Canvas: React.FC<CanvasProps> = ({
     endY: number;
   } | null>(null);
   const [hoveredElement, setHoveredElement] = useState<string | null>(null);
+  // Group whose children are being edited in place
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
+
+  // Follow the selection into its group, including children picked in the layers panel
+  useEffect(() => {
+    const [first] = selectedElements;
+    setActiveGroupId(prev => {
+      if (!first) return null;
+      if (first === prev) return prev; // entered group with no child picked yet
+      return findParentGroup(elements, first)?.id ?? null;
+    });
+  }, [selectedElements, elements]);
 
   const canvasCenter = { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 };
 
@@ -242,155 +254,103 @@ const Canvas: React.FC<CanvasProps> = ({
     return gridLines;
   };
 
-  // Enhanced element update with grid snapping
-  const renderElements = (elementList: DesignElement[], parentOffset = { x: 0, y: 0 }) => {
-    return elementList.map((element) => {
-      if (element.type === 'group' && element.children) {
-        return (
-          <div key={element.id}>
-            {/* Group container */}
-            <EnhancedDesignElementComponent
-              element={element}
-              isSelected={selectedElements.includes(element.id)}
-              isHovered={hoveredElement === element.id}
-              onSelect={(ctrlKey) => {
-                if (ctrlKey) {
-                  if (selectedElements.includes(element.id)) {
-                    setSelectedElements(selectedElements.filter(id => id !== element.id));
-                  } else {
-                    setSelectedElements([...selectedElements, element.id]);
-                  }
-                } else {
-                  setSelectedElements([element.id]);
-                }
-              }}
-              onUpdate={(updates) => {
-                // Clamp group position to canvas
-                if (updates.x !== undefined || updates.y !== undefined) {
-                  // Apply grid snapping if enabled
-                  if (onGridSnap && gridSettings?.snapEnabled) {
-                    const snapped = onGridSnap(
-                      updates.x !== undefined ? updates.x : element.x,
-                      updates.y !== undefined ? updates.y : element.y
-                    );
-                    updates = { ...updates, x: snapped.x, y: snapped.y };
-                  }
-                  const newX = updates.x !== undefined ? updates.x : element.x;
-                  const newY = updates.y !== undefined ? updates.y : element.y;
-                  const clamped = clampToCanvas(newX, newY, element.width, element.height);
-                  updates = { ...updates, ...clamped };
-                }
-                updateElement(element.id, updates);
-              }}
-              onContextMenu={(e) => handleContextMenu(e, element.id)}
-              onHover={(isHovered) => setHoveredElement(isHovered ? element.id : null)}
-              parentOffset={parentOffset}
-              allElements={elements}
-              zoom={zoom}
-              snapEnabled={snapEnabled}
-              canvasSize={{ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }}
-            />
-            {/* Group children - with parent group selection */}
-            {element.children.map((child) => (
-              <EnhancedDesignElementComponent
-                key={child.id}
-                element={child}
-                isSelected={selectedElements.includes(element.id)}
-                isHovered={hoveredElement === element.id}
-                onSelect={(ctrlKey) => {
-                  if (ctrlKey) {
-                    if (selectedElements.includes(element.id)) {
-                      setSelectedElements(selectedElements.filter(id => id !== element.id));
-                    } else {
-                      setSelectedElements([...selectedElements, element.id]);
-                    }
-                  } else {
-                    setSelectedElements([element.id]);
-                  }
-                }}
-                onUpdate={(updates) => {
-                  if (updates.x !== undefined || updates.y !== undefined) {
-                    const deltaX = (updates.x !== undefined ? updates.x : child.x) - child.x;
-                    const deltaY = (updates.y !== undefined ? updates.y : child.y) - child.y;
-
-                    const groupUpdates = {
-                      x: element.x + deltaX,
-                      y: element.y + deltaY
-                    };
-
-                    if (onGridSnap && gridSettings?.snapEnabled) {
-                      const snapped = onGridSnap(groupUpdates.x, groupUpdates.y);
-                      groupUpdates.x = snapped.x;
-                      groupUpdates.y = snapped.y;
-                    }
-
-                    const clamped = clampToCanvas(groupUpdates.x, groupUpdates.y, element.width, element.height);
-                    updateElement(element.id, clamped);
-                  } else {
-                    updateElement(element.id, updates);
-                  }
-                }}
-                onContextMenu={(e) => handleContextMenu(e, element.id)}
-                onHover={(isHovered) => setHoveredElement(isHovered ? element.id : null)}
-                parentOffset={{
-                  x: parentOffset.x + element.x,
-                  y: parentOffset.y + element.y
-                }}
-                allElements={elements}
-                zoom={zoom}
-                snapEnabled={snapEnabled}
-                canvasSize={{ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }}
-              />
-            ))}
-          </div>
-        );
+  const selectElement = (element: DesignElement, ctrlKey: boolean) => {
+    if (ctrlKey) {
+      if (selectedElements.includes(element.id)) {
+        setSelectedElements(selectedElements.filter(id => id !== element.id));
       } else {
-        return (
-          <EnhancedDesignElementComponent
-            key={element.id}
-            element={element}
-            isSelected={selectedElements.includes(element.id)}
-            isHovered={hoveredElement === element.id}
-            onSelect={(ctrlKey) => {
-              if (ctrlKey) {
-                if (selectedElements.includes(element.id)) {
-                  setSelectedElements(selectedElements.filter(id => id !== element.id));
-                } else {
-                  setSelectedElements([...selectedElements, element.id]);
-                }
-              } else {
-                setSelectedElements([element.id]);
-              }
-            }}
-            onUpdate={(updates) => {
-              // Clamp element position to canvas
-              if (updates.x !== undefined || updates.y !== undefined) {
-                // Apply grid snapping if enabled
-                if (onGridSnap && gridSettings?.snapEnabled) {
-                  const snapped = onGridSnap(
-                    updates.x !== undefined ? updates.x : element.x,
-                    updates.y !== undefined ? updates.y : element.y
-                  );
-                  updates = { ...updates, x: snapped.x, y: snapped.y };
-                }
-                const newX = updates.x !== undefined ? updates.x : element.x;
-                const newY = updates.y !== undefined ? updates.y : element.y;
-                const clamped = clampToCanvas(newX, newY, element.width, element.height);
-                updates = { ...updates, ...clamped };
-              }
-              updateElement(element.id, updates);
-            }}
-            onContextMenu={(e) => handleContextMenu(e, element.id)}
-            onHover={(isHovered) => setHoveredElement(isHovered ? element.id : null)}
-            parentOffset={parentOffset}
-            allElements={elements}
-            zoom={zoom}
-            snapEnabled={snapEnabled}
-            canvasSize={{ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }}
-          />
-        );
+        setSelectedElements([...selectedElements, element.id]);
       }
-    });
+    } else {
+      setSelectedElements([element.id]);
+    }
+  };
+
+  // Double-clicking a group enters it and selects the child under the pointer
+  const handleEnterGroup = (e: React.MouseEvent, element: DesignElement, ancestors: DesignElement[]) => {
+    e.stopPropagation();
+    if (element.type !== 'group' || !element.children) return;
+
+    const point = [...ancestors, element].reduce(
+      (local, group) => toLocalPoint(group, local),
+      getCanvasCoordinates(e.clientX, e.clientY)
+    );
+    const hit = [...element.children].reverse().find(child =>
+      child.visible && !child.locked &&
+      point.x >= child.x && point.x <= child.x + child.width &&
+      point.y >= child.y && point.y <= child.y + child.height
+    );
+
+    setActiveGroupId(element.id);
+    setSelectedElements([hit ? hit.id : element.id]);
+  };
+
+  // Elements directly inside the entered group, or a group around it, take clicks;
+  // anything deeper is picked up by the group that contains it
+  const activeChain = activeGroupId
+    ? [...getAncestors(elements, activeGroupId).map(group => group.id), activeGroupId]
+    : [];
+
+  // Enhanced element update with grid snapping
+  const renderElements = (elementList: DesignElement[], ancestors: DesignElement[] = []): React.ReactNode[] => {
+    const parent = ancestors[ancestors.length - 1];
+    const isNested = ancestors.length > 0;
+
+    return elementList.map((element) => (
+      <EnhancedDesignElementComponent
+        key={element.id}
+        element={element}
+        isSelected={selectedElements.includes(element.id)}
+        isHovered={hoveredElement === element.id}
+        isEntered={element.id === activeGroupId}
+        interactive={!parent || activeChain.includes(parent.id)}
+        onSelect={(ctrlKey) => selectElement(element, ctrlKey)}
+        onDoubleClick={(e) => handleEnterGroup(e, element, ancestors)}
+        onUpdate={(updates, mergeKey) => {
+          // Children are positioned inside their group, so only top-level elements snap and stay on the canvas
+          if (!isNested && (updates.x !== undefined || updates.y !== undefined)) {
+            // Apply grid snapping if enabled
+            if (onGridSnap && gridSettings?.snapEnabled) {
+              const snapped = onGridSnap(
+                updates.x !== undefined ? updates.x : element.x,
+                updates.y !== undefined ? updates.y : element.y
+              );
+              updates = { ...updates, x: snapped.x, y: snapped.y };
+            }
+            const newX = updates.x !== undefined ? updates.x : element.x;
+            const newY = updates.y !== undefined ? updates.y : element.y;
+            const clamped = clampToCanvas(newX, newY, element.width, element.height);
+            updates = { ...updates, ...clamped };
+          }
+          // Resizing a group scales everything inside it
+          if (element.type === 'group' && (
+            (updates.width !== undefined && updates.width !== element.width) ||
+            (updates.height !== undefined && updates.height !== element.height)
+          )) {
+            updates = {
+              ...updates,
+              ...resizeGroup(element, {
+                x: updates.x ?? element.x,
+                y: updates.y ?? element.y,
+                width: updates.width ?? element.width,
+                height: updates.height ?? element.height
+              })
+            };
+          }
+          updateElement(element.id, updates, mergeKey);
+        }}
+        onContextMenu={(e) => handleContextMenu(e, element.id)}
+        onHover={(isHovered) => setHoveredElement(isHovered ? element.id : null)}
+        allElements={elements}
+        zoom={zoom}
+        snapEnabled={snapEnabled && !isNested}
+        constrainToCanvas={!isNested}
+        toLocalDelta={isNested ? (dx, dy) => toLocalDelta(ancestors, dx, dy) : undefined}
+        canvasSize={{ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }}
+      >
+        {element.type === 'group' && element.children && renderElements(element.children, [...ancestors, element])}
+      </EnhancedDesignElementComponent>
+    ));
   };
 
   return (
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { X, Settings, Grid, Keyboard, FileDown, Save, Zap, Monitor, Film, Globe, Magnet, Palette } from 'lucide-react';
 import { GridSettings } from '../../hooks/useGridSystem';
+import { VideoSettings, VideoResolution, VIDEO_RESOLUTIONS, VIDEO_FRAME_RATES } from '../../types/export';
 
 interface EditorSettingsModalProps {
   isOpen: boolean;
@@ -11,10 +12,16 @@ interface EditorSettingsModalProps {
   updateGridSettings: (updates: Partial<GridSettings>) => void;
   shapeSnapEnabled?: boolean;
   onToggleShapeSnap?: () => void;
+  videoSettings: VideoSettings;
+  onVideoSettingsChange: (settings: VideoSettings) => void;
+  historyLimit: number;
+  onHistoryLimitChange: (limit: number) => void;
 }
 
 type SettingsTab = 'project' | 'grid' | 'shortcuts' | 'export' | 'backup' | 'performance';
 
+const HISTORY_LIMITS = [50, 100, 200, 500];
+
 const EditorSettingsModal: React.FC<EditorSettingsModalProps> = ({
   isOpen,
   onClose,
@@ -23,11 +30,13 @@ const EditorSettingsModal: React.FC<EditorSettingsModalProps> = ({
   gridSettings,
   updateGridSettings,
   shapeSnapEnabled = true,
-  onToggleShapeSnap
+  onToggleShapeSnap,
+  videoSettings,
+  onVideoSettingsChange,
+  historyLimit,
+  onHistoryLimitChange
 }) => {
   const [activeTab, setActiveTab] = useState<SettingsTab>('project');
-  const [resolution, setResolution] = useState<'4k' | '2k' | '1080p' | '720p'>('4k');
-  const [frameRate, setFrameRate] = useState<120 | 60 | 30 | 24>(60);
   const [language, setLanguage] = useState<'English' | 'Italian' | 'Spanish' | 'French'>('English');
 
   const [exportFormat, setExportFormat] = useState<'MP4' | 'MOV' | 'WebM' | 'GIF'>('MP4');
@@ -55,13 +64,6 @@ const EditorSettingsModal: React.FC<EditorSettingsModalProps> = ({
     { id: 'performance' as SettingsTab, label: 'Performance', icon: Zap }
   ];
 
-  const resolutionMap = {
-    '4k': { width: 3840, height: 2160, label: '4K (3840 × 2160)' },
-    '2k': { width: 2560, height: 1440, label: '2K (2560 × 1440)' },
-    '1080p': { width: 1920, height: 1080, label: '1080p (1920 × 1080)' },
-    '720p': { width: 1280, height: 720, label: '720p (1280 × 720)' }
-  };
-
   const renderProjectSettings = () => (
     <div className="space-y-6">
       <div>
@@ -81,12 +83,12 @@ const EditorSettingsModal: React.FC<EditorSettingsModalProps> = ({
           Canvas Resolution
         </label>
         <div className="grid grid-cols-2 gap-3">
-          {Object.entries(resolutionMap).map(([key, value]) => (
+          {Object.entries(VIDEO_RESOLUTIONS).map(([key, value]) => (
             <button
               key={key}
-              onClick={() => setResolution(key as typeof resolution)}
+              onClick={() => onVideoSettingsChange({ ...videoSettings, resolution: key as VideoResolution })}
               className={`p-3 rounded-lg border transition-all duration-200 ${
-                resolution === key
+                videoSettings.resolution === key
                   ? 'bg-yellow-400/20 border-yellow-400/50 text-yellow-400'
                   : 'bg-gray-700/30 border-gray-600/30 text-gray-300 hover:bg-gray-600/40'
               }`}
@@ -104,12 +106,12 @@ const EditorSettingsModal: React.FC<EditorSettingsModalProps> = ({
           Frame Rate (FPS)
         </label>
         <div className="grid grid-cols-4 gap-3">
-          {[120, 60, 30, 24].map((fps) => (
+          {VIDEO_FRAME_RATES.map((fps) => (
             <button
               key={fps}
-              onClick={() => setFrameRate(fps as typeof frameRate)}
+              onClick={() => onVideoSettingsChange({ ...videoSettings, frameRate: fps })}
               className={`p-3 rounded-lg border transition-all duration-200 ${
-                frameRate === fps
+                videoSettings.frameRate === fps
                   ? 'bg-yellow-400/20 border-yellow-400/50 text-yellow-400'
                   : 'bg-gray-700/30 border-gray-600/30 text-gray-300 hover:bg-gray-600/40'
               }`}
@@ -590,6 +592,25 @@ const EditorSettingsModal: React.FC<EditorSettingsModalProps> = ({
         </div>
       </div>
 
+      <div>
+        <label className="text-sm font-medium text-gray-300 block mb-3">Undo History (steps)</label>
+        <div className="grid grid-cols-4 gap-3">
+          {HISTORY_LIMITS.map((limit) => (
+            <button
+              key={limit}
+              onClick={() => onHistoryLimitChange(limit)}
+              className={`p-3 rounded-lg border transition-all duration-200 ${
+                historyLimit === limit
+                  ? 'bg-yellow-400/20 border-yellow-400/50 text-yellow-400'
+                  : 'bg-gray-700/30 border-gray-600/30 text-gray-300 hover:bg-gray-600/40'
+              }`}
+            >
+              <div className="font-medium text-sm">{limit}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
       <div>
         <label className="text-sm font-medium text-gray-300 block mb-3">Cache Size (MB)</label>
         <div className="grid grid-cols-4 gap-3">
@@ -8,7 +8,7 @@ interface EnhancedDesignElementComponentProps {
   isSelected: boolean;
   isHovered: boolean;
   onSelect: (ctrlKey: boolean) => void;
-  onUpdate: (updates: Partial<DesignElement>) => void;
+  onUpdate: (updates: Partial<DesignElement>, mergeKey?: string) => void; // mergeKey groups one drag or resize into a single undo step
   onContextMenu: (e: React.MouseEvent) => void;
   onHover: (isHovered: boolean) => void;
   parentOffset?: { x: number; y: number };
@@ -18,6 +18,12 @@ interface EnhancedDesignElementComponentProps {
   canvasSize?: { width: number; height: number };
   onGridSnap?: (x: number, y: number) => { x: number; y: number };
   onGridSnapSize?: (width: number, height: number) => { width: number; height: number };
+  onDoubleClick?: (e: React.MouseEvent) => void;
+  interactive?: boolean; // false inside a group that is not being edited, so the group takes the clicks
+  isEntered?: boolean; // group whose children are being edited in place
+  constrainToCanvas?: boolean; // false for children, whose position is relative to their group
+  toLocalDelta?: (dx: number, dy: number) => { x: number; y: number }; // canvas movement in the parent's space
+  children?: React.ReactNode; // a group's rendered children, drawn inside its transform
 }
 
 interface ResizeHandle {
@@ -41,10 +47,14 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
   snapEnabled = true,
   canvasSize = { width: 3840, height: 2160 },
   onGridSnap,
-  onGridSnapSize
+  onGridSnapSize,
+  onDoubleClick,
+  interactive = true,
+  isEntered = false,
+  constrainToCanvas = true,
+  toLocalDelta,
+  children
 }) => {
-  if (!element.visible) return null;
-
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState<string | null>(null);
   const [isDuplicating, setIsDuplicating] = useState(false);
@@ -53,6 +63,7 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
     x: 0, y: 0, width: 0, height: 0, elementX: 0, elementY: 0 
   });
   const elementRef = useRef<HTMLDivElement>(null);
+  const gestureKeyRef = useRef<string>();
   
   const canvasCenter = { x: canvasSize.width / 2, y: canvasSize.height / 2 };
   const {
@@ -66,10 +77,16 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
 
   // Clamp position to canvas boundaries
   const clampToCanvas = useCallback((x: number, y: number, width: number, height: number) => {
+    if (!constrainToCanvas) return { x, y };
     const clampedX = Math.max(0, Math.min(canvasSize.width - width, x));
     const clampedY = Math.max(0, Math.min(canvasSize.height - height, y));
     return { x: clampedX, y: clampedY };
-  }, [canvasSize]);
+  }, [canvasSize, constrainToCanvas]);
+
+  // Pointer movement in the space the element's x and y are measured in
+  const toCanvasDelta = useCallback((dx: number, dy: number) => {
+    return toLocalDelta ? toLocalDelta(dx / zoom, dy / zoom) : { x: dx / zoom, y: dy / zoom };
+  }, [toLocalDelta, zoom]);
 
   // Generate resize handles
   const getResizeHandles = useCallback((): ResizeHandle[] => {
@@ -100,19 +117,21 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
     }
     
     setIsDragging(true);
+    gestureKeyRef.current = `move-${element.id}-${Date.now()}`;
     setDragStart({
       x: e.clientX,
       y: e.clientY,
       elementX: element.x,
       elementY: element.y
     });
-  }, [element.locked, element.x, element.y, onSelect]);
+  }, [element.locked, element.id, element.x, element.y, onSelect]);
 
   const handleResizeStart = useCallback((e: React.MouseEvent, handle: ResizeHandle) => {
     if (element.locked) return;
     
     e.stopPropagation();
     setIsResizing(handle.position);
+    gestureKeyRef.current = `resize-${element.id}-${Date.now()}`;
     setResizeStart({
       x: e.clientX,
       y: e.clientY,
@@ -121,7 +140,7 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
       elementX: element.x,
       elementY: element.y
     });
-  }, [element.locked, element.width, element.height, element.x, element.y]);
+  }, [element.locked, element.id, element.width, element.height, element.x, element.y]);
 
   const calculateResize = useCallback((
     deltaX: number, 
@@ -228,8 +247,7 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
   React.useEffect(() => {
     const handleGlobalMouseMove = (e: MouseEvent) => {
       if (isDragging) {
-        const deltaX = (e.clientX - dragStart.x) / zoom;
-        const deltaY = (e.clientY - dragStart.y) / zoom;
+        const { x: deltaX, y: deltaY } = toCanvasDelta(e.clientX - dragStart.x, e.clientY - dragStart.y);
         
         const rawX = dragStart.elementX + deltaX;
         const rawY = dragStart.elementY + deltaY;
@@ -266,16 +284,15 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
           
           // This would need to be handled by the parent component
           // For now, just update position
-          onUpdate({ x: finalX, y: finalY });
+          onUpdate({ x: finalX, y: finalY }, gestureKeyRef.current);
           setIsDuplicating(false);
         } else {
-          onUpdate({ x: finalX, y: finalY });
+          onUpdate({ x: finalX, y: finalY }, gestureKeyRef.current);
         }
       }
       
       if (isResizing) {
-        const deltaX = (e.clientX - resizeStart.x) / zoom;
-        const deltaY = (e.clientY - resizeStart.y) / zoom;
+        const { x: deltaX, y: deltaY } = toCanvasDelta(e.clientX - resizeStart.x, e.clientY - resizeStart.y);
         
         const { newWidth, newHeight, newX, newY } = calculateResize(
           deltaX, 
@@ -294,8 +311,8 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
         }
         
         // Ensure resized element stays within canvas bounds
-        const maxWidth = canvasSize.width - newX;
-        const maxHeight = canvasSize.height - newY;
+        const maxWidth = constrainToCanvas ? canvasSize.width - newX : Infinity;
+        const maxHeight = constrainToCanvas ? canvasSize.height - newY : Infinity;
         
         const clampedWidth = Math.min(finalWidth, maxWidth);
         const clampedHeight = Math.min(finalHeight, maxHeight);
@@ -305,7 +322,7 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
           height: clampedHeight,
           x: newX,
           y: newY
-        });
+        }, gestureKeyRef.current);
       }
     };
 
@@ -342,9 +359,13 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
     onGridSnap,
     onGridSnapSize,
     calculateResize,
-    clampToCanvas
+    clampToCanvas,
+    constrainToCanvas,
+    toCanvasDelta
   ]);
 
+  if (!element.visible) return null;
+
   const baseStyle: React.CSSProperties = {
     position: 'absolute',
     left: absoluteX,
@@ -352,9 +373,9 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
     width: element.width,
     height: element.height,
     opacity: element.opacity,
-    transform: `rotate(${element.rotation}deg)`,
+    transform: `rotate(${element.rotation}deg) scale(${element.scaleX ?? 1}, ${element.scaleY ?? 1})`,
     cursor: element.locked ? 'default' : (isDragging ? 'grabbing' : 'grab'),
-    pointerEvents: element.locked ? 'none' : 'auto'
+    pointerEvents: element.locked || !interactive ? 'none' : 'auto'
   };
 
   const shadowStyle = element.shadow.blur > 0 ? {
@@ -383,18 +404,22 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
   };
   const renderElement = () => {
     if (element.type === 'group') {
+      // Children are laid out in the group's box, so its rotation, scale and opacity apply to all of them
       return (
         <div
+          data-element-id={element.id}
           style={{
             ...baseStyle,
-            border: isSelected ? '2px dashed #FFD700' : '2px dashed transparent',
+            outline: isEntered ? '2px dashed #FFD700' : 'none',
             backgroundColor: 'transparent'
           }}
           onMouseDown={handleMouseDown}
           onContextMenu={onContextMenu}
           onMouseEnter={() => onHover(true)}
           onMouseLeave={() => onHover(false)}
-        />
+        >
+          {children}
+        </div>
       );
     }
 
@@ -633,11 +658,11 @@ const EnhancedDesignElementComponent: React.FC<EnhancedDesignElementComponentPro
   };
 
   return (
-    <div>
+    <div onDoubleClick={onDoubleClick}>
       {renderElement()}
       
       {/* Enhanced selection outline and resize handles */}
-      {(isSelected || isHovered) && !element.locked && element.type !== 'group' && element.type !== 'line' && (
+      {(isSelected || isHovered) && !element.locked && interactive && element.type !== 'line' && (
         <div
           style={{
             position: 'absolute',
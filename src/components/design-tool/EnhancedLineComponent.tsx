@@ -1,5 +1,18 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useMemo } from 'react';
 import { DesignElement } from '../../types/design';
+import {
+  buildLinePath,
+  findNearestSegment,
+  getAllLinePoints,
+  getNodeType,
+  getTrimRange,
+  getVisibleArrowheads,
+  hasBezierHandles,
+  moveHandle,
+  setNodeType,
+  splitSegment
+} from '../../utils/linePath';
+import { getCssGradientLine, getFarthestCornerRadius } from '../../utils/sceneLayout';
 
 interface EnhancedLineComponentProps {
   element: DesignElement;
@@ -38,102 +51,23 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
   const [isDuplicatingPoint, setIsDuplicatingPoint] = useState(false);
   const svgRef = useRef<SVGSVGElement>(null);
 
-  const points = element.points || [{ x: 0, y: 0 }, { x: element.width, y: 0 }];
+  const points = useMemo(
+    () => element.points || [{ x: 0, y: 0 }, { x: element.width, y: 0 }],
+    [element.points, element.width]
+  );
+  const subpaths = element.subpaths || [];
   
   // Calculate enhanced bounding box
-  const minX = Math.min(...points.map(p => p.x));
-  const maxX = Math.max(...points.map(p => p.x));
-  const minY = Math.min(...points.map(p => p.y));
-  const maxY = Math.max(...points.map(p => p.y));
+  const allPoints = getAllLinePoints(element);
+  const minX = Math.min(...allPoints.map(p => p.x));
+  const maxX = Math.max(...allPoints.map(p => p.x));
+  const minY = Math.min(...allPoints.map(p => p.y));
+  const maxY = Math.max(...allPoints.map(p => p.y));
   
   const padding = 20; // Extra padding for handles
   const width = Math.max(maxX - minX + padding * 2, 20);
   const height = Math.max(maxY - minY + padding * 2, 20);
 
-  // Enhanced path generation with corner radius support
-  const generateEnhancedPath = useCallback(() => {
-    if (points.length < 2) return '';
-    
-    const adjustedPoints = points.map(p => ({
-      x: p.x - minX + padding,
-      y: p.y - minY + padding
-    }));
-    
-    // Check if we have corner rounding enabled
-    const hasCornerRounding = element.cornerRadius && element.cornerRadius > 0;
-    const pointCornerRadii = element.pointCornerRadii || [];
-    
-    if ((element.lineType === 'pen' && element.smoothing && element.smoothing > 0) || hasCornerRounding) {
-      // Generate smooth curves with enhanced smoothing
-      let path = `M ${adjustedPoints[0].x} ${adjustedPoints[0].y}`;
-      
-      for (let i = 1; i < adjustedPoints.length; i++) {
-        const current = adjustedPoints[i];
-        const previous = adjustedPoints[i - 1];
-        const originalPoint = points[i];
-        
-        // Check for corner rounding at this point
-        const pointCornerRadius = pointCornerRadii[i] || element.cornerRadius || 0;
-        const shouldRound = originalPoint.smooth !== false || pointCornerRadius > 0;
-        
-        if (shouldRound && i > 0 && i < adjustedPoints.length - 1) {
-          // Calculate corner rounding for this connection point
-          const radius = pointCornerRadius > 0 ? pointCornerRadius * 10 : (element.smoothing || 0) * 30;
-          
-          const prev = adjustedPoints[i - 1];
-          const next = adjustedPoints[i + 1] || current;
-          
-          // Calculate vectors for rounded corner
-          const vec1 = { x: prev.x - current.x, y: prev.y - current.y };
-          const vec2 = { x: next.x - current.x, y: next.y - current.y };
-          
-          const len1 = Math.sqrt(vec1.x * vec1.x + vec1.y * vec1.y);
-          const len2 = Math.sqrt(vec2.x * vec2.x + vec2.y * vec2.y);
-          
-          if (len1 > 0 && len2 > 0) {
-            // Normalize vectors
-            vec1.x /= len1; vec1.y /= len1;
-            vec2.x /= len2; vec2.y /= len2;
-            
-            // Calculate control points for smooth corner
-            const controlRadius = Math.min(radius, len1 / 3, len2 / 3);
-            const cp1x = current.x + vec1.x * controlRadius;
-            const cp1y = current.y + vec1.y * controlRadius;
-            const cp2x = current.x + vec2.x * controlRadius;
-            const cp2y = current.y + vec2.y * controlRadius;
-            
-            // Create smooth corner transition
-            path += ` L ${cp1x} ${cp1y}`;
-            path += ` Q ${current.x} ${current.y} ${cp2x} ${cp2y}`;
-          } else {
-            path += ` L ${current.x} ${current.y}`;
-          }
-        } else {
-          path += ` L ${current.x} ${current.y}`;
-        }
-      }
-      
-      // Close path if enabled
-      if (element.closePath) {
-        path += ' Z';
-      }
-      
-      return path;
-    } else {
-      // Standard linear path
-      let path = `M ${adjustedPoints[0].x} ${adjustedPoints[0].y}`;
-      for (let i = 1; i < adjustedPoints.length; i++) {
-        path += ` L ${adjustedPoints[i].x} ${adjustedPoints[i].y}`;
-      }
-      
-      if (element.closePath) {
-        path += ' Z';
-      }
-      
-      return path;
-    }
-  }, [points, minX, minY, element.smoothing, element.lineType, element.closePath, padding]);
-
   // Enhanced arrowhead generation
   const generateEnhancedArrowhead = (type: string, size: number, id: string) => {
     const actualSize = element.autoScaleArrows ? element.strokeWidth * 3 : size;
@@ -223,9 +157,43 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
     }
   };
 
+  // Vertices of an extra contour are moved on their own, without point duplication or angle snapping
+  const handleSubpathPointDrag = useCallback((e: React.MouseEvent, contourIndex: number, pointIndex: number) => {
+    e.stopPropagation();
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      if (!svgRef.current) return;
+
+      const rect = svgRef.current.getBoundingClientRect();
+      const x = (moveEvent.clientX - rect.left) / zoom + minX - padding;
+      const y = (moveEvent.clientY - rect.top) / zoom + minY - padding;
+
+      onUpdate({
+        subpaths: (element.subpaths || []).map((contour, i) =>
+          i === contourIndex ? contour.map((point, j) => (j === pointIndex ? { x, y } : point)) : contour
+        )
+      });
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  }, [element.subpaths, minX, minY, onUpdate, zoom, padding]);
+
   // Enhanced point dragging with real-time preview
   const handlePointDrag = useCallback((e: React.MouseEvent, pointIndex: number) => {
     e.stopPropagation();
+
+    // Alt-click converts a pen anchor between corner and smooth
+    if (e.altKey && element.lineType === 'pen') {
+      const type = getNodeType(points[pointIndex]) === 'corner' ? 'smooth' : 'corner';
+      onUpdate({ points: setNodeType(points, !!element.closePath, pointIndex, type) });
+      return;
+    }
     
     // Check for CTRL key for point duplication
     if (e.ctrlKey) {
@@ -287,6 +255,36 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
       document.removeEventListener('mouseup', handleMouseUp);
     };
     
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  }, [points, minX, minY, onUpdate, zoom, padding, element.lineType, element.closePath]);
+
+  // Drag a Bezier handle; holding Alt breaks it from the opposite one
+  const handleControlDrag = useCallback((e: React.MouseEvent, pointIndex: number, side: 'in' | 'out') => {
+    e.stopPropagation();
+    setIsDraggingPoint(pointIndex);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      if (!svgRef.current) return;
+
+      const rect = svgRef.current.getBoundingClientRect();
+      const anchor = points[pointIndex];
+      const offset = {
+        x: (moveEvent.clientX - rect.left) / zoom + minX - padding - anchor.x,
+        y: (moveEvent.clientY - rect.top) / zoom + minY - padding - anchor.y
+      };
+
+      const newPoints = [...points];
+      newPoints[pointIndex] = moveHandle(moveEvent.altKey ? { ...anchor, broken: true } : anchor, side, offset);
+      onUpdate({ points: newPoints });
+    };
+
+    const handleMouseUp = () => {
+      setIsDraggingPoint(null);
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUp);
   }, [points, minX, minY, onUpdate, zoom, padding]);
@@ -301,6 +299,15 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
     
     const clickX = (e.clientX - rect.left) / zoom + minX - padding;
     const clickY = (e.clientY - rect.top) / zoom + minY - padding;
+
+    // Curved paths are split where clicked so their shape does not change
+    if (hasBezierHandles(points)) {
+      const nearest = findNearestSegment(points, !!element.closePath, { x: clickX, y: clickY });
+      if (nearest) {
+        onUpdate({ points: splitSegment(points, !!element.closePath, nearest.from, nearest.t) });
+      }
+      return;
+    }
     
     // Find the closest segment to insert the new point
     let closestSegment = 0;
@@ -333,7 +340,7 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
     const newPoints = [...points];
     newPoints.splice(closestSegment + 1, 0, newPoint);
     onUpdate({ points: newPoints });
-  }, [isSelected, element.lineType, points, minX, minY, onUpdate, zoom, padding]);
+  }, [isSelected, element.lineType, element.closePath, points, minX, minY, onUpdate, zoom, padding]);
 
   // Handle right-click on points
   const handlePointContextMenu = useCallback((e: React.MouseEvent, pointIndex: number) => {
@@ -360,14 +367,23 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
     ? element.dashArray.join(',') 
     : undefined;
 
-  const enhancedPath = generateEnhancedPath();
-  const pathLength = 1000; // Approximate for trim effects
-  const trimStartOffset = (element.trimStart || 0) * pathLength;
-  const trimEndLength = ((element.trimEnd || 1) - (element.trimStart || 0)) * pathLength;
+  // Path in SVG-local coordinates, offset by the handle padding
+  const enhancedPath = buildLinePath(element, points, { x: padding - minX, y: padding - minY });
+  // pathLength 1 measures the trim dash in fractions of the path; while trimmed it replaces the dash pattern
+  const trim = getTrimRange(element);
+  const arrowheads = getVisibleArrowheads(element);
 
   // Enhanced handle size based on zoom level
   const handleSize = Math.max(8, Math.min(16, 12 / zoom));
 
+  // Closed pen paths fill like shapes, gradient laid out over the element box as in the exporters
+  const isFilled = element.lineType === 'pen' && element.closePath;
+  const hasGradientFill = isFilled && element.gradientEnabled && (element.gradientColors?.length ?? 0) >= 2;
+  const gradientId = `fill-${element.id}`;
+  const gradientStops = [...(element.gradientColors || [])]
+    .sort((a, b) => a.position - b.position)
+    .map(stop => <stop key={stop.id} offset={`${stop.position}%`} stopColor={stop.color} />);
+
   return (
     <div
       data-element-id={element.id}
@@ -378,7 +394,7 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
         width: width,
         height: height,
         opacity: element.opacity,
-        transform: `rotate(${element.rotation}deg)`,
+        transform: `rotate(${element.rotation}deg) scale(${element.scaleX ?? 1}, ${element.scaleY ?? 1})`,
         pointerEvents: element.locked ? 'none' : 'auto'
       }}
       onMouseDown={onMouseDown}
@@ -403,20 +419,43 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
             element.arrowheadSize || 12,
             `arrowEnd-${element.id}`
           )}
+          {hasGradientFill && (element.gradientType === 'radial' ? (
+            <radialGradient
+              id={gradientId}
+              gradientUnits="userSpaceOnUse"
+              gradientTransform={`translate(${padding - minX} ${padding - minY})`}
+              cx={element.width / 2}
+              cy={element.height / 2}
+              r={getFarthestCornerRadius(element.width / 2, element.height / 2, element.width, element.height)}
+            >
+              {gradientStops}
+            </radialGradient>
+          ) : (
+            <linearGradient
+              id={gradientId}
+              gradientUnits="userSpaceOnUse"
+              gradientTransform={`translate(${padding - minX} ${padding - minY})`}
+              {...getCssGradientLine(element.gradientAngle || 45, element.width, element.height)}
+            >
+              {gradientStops}
+            </linearGradient>
+          ))}
         </defs>
         
         {/* Main path */}
         <path
           d={enhancedPath}
-          stroke={element.stroke}
+          stroke={trim && trim.end <= trim.start ? 'none' : element.stroke}
           strokeWidth={element.strokeWidth}
           strokeLinecap={element.lineCap || 'round'}
           strokeLinejoin={element.lineJoin || 'round'}
-          strokeDasharray={dashArrayString}
-          strokeDashoffset={trimStartOffset}
-          fill={element.lineType === 'pen' && element.closePath ? element.fill : 'none'}
-          markerStart={element.arrowStart ? `url(#arrowStart-${element.id})` : undefined}
-          markerEnd={element.arrowEnd ? `url(#arrowEnd-${element.id})` : undefined}
+          pathLength={trim ? 1 : undefined}
+          strokeDasharray={trim ? `${trim.end - trim.start} 1` : dashArrayString}
+          strokeDashoffset={trim ? -trim.start : undefined}
+          fill={isFilled ? (hasGradientFill ? `url(#${gradientId})` : element.fill) : 'none'}
+          fillRule={subpaths.length > 0 ? 'evenodd' : undefined}
+          markerStart={arrowheads.start ? `url(#arrowStart-${element.id})` : undefined}
+          markerEnd={arrowheads.end ? `url(#arrowEnd-${element.id})` : undefined}
           style={{
             filter: element.shadow && element.shadow.blur > 0 
               ? `drop-shadow(${element.shadow.x}px ${element.shadow.y}px ${element.shadow.blur}px ${element.shadow.color})`
@@ -426,6 +465,41 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
           className={`transition-all duration-200 ${isHovered ? 'stroke-cyan-400' : ''}`}
         />
         
+        {/* Bezier handles of pen anchors */}
+        {isSelected && !element.locked && element.lineType === 'pen' && points.map((point, index) => (
+          <g key={`handles-${index}`}>
+            {(['in', 'out'] as const).map(side => {
+              const handle = side === 'in' ? point.handleIn : point.handleOut;
+              if (!handle) return null;
+              const [ax, ay] = [point.x - minX + padding, point.y - minY + padding];
+              return (
+                <g key={side}>
+                  <line
+                    x1={ax}
+                    y1={ay}
+                    x2={ax + handle.x}
+                    y2={ay + handle.y}
+                    stroke="#06B6D4"
+                    strokeWidth={1}
+                    pointerEvents="none"
+                  />
+                  <circle
+                    cx={ax + handle.x}
+                    cy={ay + handle.y}
+                    r={handleSize * 0.6}
+                    fill={point.broken ? '#1F2937' : '#06B6D4'}
+                    stroke="#06B6D4"
+                    strokeWidth="2"
+                    style={{ cursor: 'move' }}
+                    className="resize-handle"
+                    onMouseDown={(e) => handleControlDrag(e, index, side)}
+                  />
+                </g>
+              );
+            })}
+          </g>
+        ))}
+
         {/* Enhanced control points with larger handles */}
         {(isSelected || isHovered) && !element.locked && points.map((point, index) => (
           <g key={index}>
@@ -490,6 +564,22 @@ const EnhancedLineComponent: React.FC<EnhancedLineComponentProps> = ({
             )}
           </g>
         ))}
+
+        {/* Vertices of the extra contours */}
+        {isSelected && !element.locked && subpaths.map((contour, contourIndex) => contour.map((point, index) => (
+          <circle
+            key={`${contourIndex}-${index}`}
+            cx={point.x - minX + padding}
+            cy={point.y - minY + padding}
+            r={handleSize * 0.75}
+            fill="#FFD700"
+            stroke="#FFA500"
+            strokeWidth="2"
+            style={{ cursor: 'move' }}
+            className="resize-handle"
+            onMouseDown={(e) => handleSubpathPointDrag(e, contourIndex, index)}
+          />
+        )))}
       </svg>
       
       {/* Enhanced selection outline */}
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { History, BookmarkPlus, Bookmark, GitBranch, ChevronLeft, ChevronRight, RotateCcw, Trash2 } from 'lucide-react';
+import { HistoryCheckpoint } from '../../types/project';
+import { CanvasHistoryTimeline, HistoryListItem } from '../../hooks/useCanvasHistory';
+
+interface HistoryTabProps {
+  timeline: CanvasHistoryTimeline;
+  checkpoints: HistoryCheckpoint[];
+  onCreateCheckpoint: (name: string) => void;
+  onRestoreCheckpoint: (checkpoint: HistoryCheckpoint) => void;
+  onDeleteCheckpoint: (id: string) => void;
+}
+
+const formatTime = (timestamp: number | string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryTab: React.FC<HistoryTabProps> = ({
+  timeline,
+  checkpoints,
+  onCreateCheckpoint,
+  onRestoreCheckpoint,
+  onDeleteCheckpoint
+}) => {
+  const [checkpointName, setCheckpointName] = useState('');
+  const { items, headId, jumpTo, jumpToBranch } = timeline;
+
+  const pinnedEntries = new Map(
+    checkpoints
+      .filter(checkpoint => checkpoint.diff.historyEntryId)
+      .map(checkpoint => [checkpoint.diff.historyEntryId!, checkpoint.summary])
+  );
+
+  const handleCreateCheckpoint = () => {
+    onCreateCheckpoint(checkpointName.trim() || `Checkpoint ${checkpoints.length + 1}`);
+    setCheckpointName('');
+  };
+
+  const renderBranchSwitcher = (item: HistoryListItem) => {
+    if (item.siblingIds.length < 2) return null;
+    const index = item.siblingIds.indexOf(item.entry.id);
+    const switchTo = (offset: number) => (e: React.MouseEvent) => {
+      e.stopPropagation();
+      const target = item.siblingIds[(index + offset + item.siblingIds.length) % item.siblingIds.length];
+      jumpToBranch(target);
+    };
+
+    return (
+      <div className="flex items-center text-[10px] text-violet-300" title="Branches from the previous step">
+        <button onClick={switchTo(-1)} className="p-0.5 rounded hover:bg-gray-600/50" title="Previous branch">
+          <ChevronLeft className="w-3 h-3" />
+        </button>
+        <GitBranch className="w-3 h-3" />
+        <span className="mx-0.5">{index + 1}/{item.siblingIds.length}</span>
+        <button onClick={switchTo(1)} className="p-0.5 rounded hover:bg-gray-600/50" title="Next branch">
+          <ChevronRight className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  };
+
+  const renderItem = (item: HistoryListItem) => {
+    const pinned = pinnedEntries.get(item.entry.id);
+    return (
+      <div
+        key={item.entry.id}
+        onClick={() => jumpTo(item.entry.id)}
+        className={`px-2 py-1.5 rounded cursor-pointer transition-colors ${
+          item.status === 'current'
+            ? 'bg-yellow-400/20 border border-yellow-400/50'
+            : item.status === 'future'
+              ? 'opacity-50 hover:opacity-80 hover:bg-gray-700/40 border border-transparent'
+              : 'hover:bg-gray-700/40 border border-transparent'
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <span className={`text-xs truncate ${item.status === 'current' ? 'text-yellow-400' : 'text-gray-200'}`}>
+            {item.entry.label}
+          </span>
+          <span className="text-[10px] text-gray-500 ml-2 flex-shrink-0">{formatTime(item.entry.timestamp)}</span>
+        </div>
+        {(pinned || item.siblingIds.length > 1) && (
+          <div className="flex items-center justify-between mt-0.5">
+            {pinned ? (
+              <span className="flex items-center text-[10px] text-blue-300 truncate">
+                <Bookmark className="w-3 h-3 mr-1 flex-shrink-0" />
+                {pinned}
+              </span>
+            ) : <span />}
+            {renderBranchSwitcher(item)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-2 border-b border-gray-700/50">
+        <h3 className="text-xs font-semibold text-white mb-2">History</h3>
+        <div className="flex items-center space-x-1">
+          <input
+            type="text"
+            placeholder="Checkpoint name..."
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateCheckpoint()}
+            className="flex-1 min-w-0 px-2 py-1 bg-gray-700/50 border border-gray-600/50 rounded text-xs text-white placeholder-gray-400 focus:outline-none focus:border-yellow-400/50"
+          />
+          <button
+            onClick={handleCreateCheckpoint}
+            className="p-1 rounded bg-yellow-400/20 text-yellow-400 hover:bg-yellow-400/30 transition-colors"
+            title="Pin a checkpoint of the current state"
+          >
+            <BookmarkPlus className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1.5 space-y-1">
+        <div
+          onClick={() => jumpTo(null)}
+          className={`px-2 py-1.5 rounded cursor-pointer text-xs transition-colors ${
+            headId === null
+              ? 'bg-yellow-400/20 border border-yellow-400/50 text-yellow-400'
+              : 'hover:bg-gray-700/40 border border-transparent text-gray-400'
+          }`}
+        >
+          Initial State
+        </div>
+        {items.map(renderItem)}
+        {items.length === 0 && (
+          <div className="p-3 text-center text-gray-500">
+            <History className="w-6 h-6 mx-auto mb-2 text-gray-600" />
+            <p className="text-xs">No changes yet</p>
+          </div>
+        )}
+      </div>
+
+      {checkpoints.length > 0 && (
+        <div className="border-t border-gray-700/50 p-1.5 max-h-[40%] overflow-y-auto">
+          <h4 className="text-[11px] font-semibold text-gray-400 px-1 mb-1">Checkpoints</h4>
+          <div className="space-y-1">
+            {checkpoints.map(checkpoint => (
+              <div
+                key={checkpoint.id}
+                className="group flex items-center justify-between px-2 py-1.5 rounded bg-gray-700/30"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center text-xs text-white truncate">
+                    <Bookmark className="w-3 h-3 mr-1 text-blue-300 flex-shrink-0" />
+                    {checkpoint.summary}
+                  </div>
+                  <div className="text-[10px] text-gray-500">
+                    {formatTime(checkpoint.ts)} · {checkpoint.diff.elements.length} element{checkpoint.diff.elements.length !== 1 ? 's' : ''}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-0.5 flex-shrink-0">
+                  <button
+                    onClick={() => onRestoreCheckpoint(checkpoint)}
+                    className="p-1 rounded text-gray-400 hover:text-yellow-400 hover:bg-gray-600/50"
+                    title="Restore checkpoint"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onDeleteCheckpoint(checkpoint.id)}
+                    className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-600/50 opacity-0 group-hover:opacity-100"
+                    title="Delete checkpoint"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryTab;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Eye, EyeOff, Lock, Unlock, Copy, Trash2, Download } from 'lucide-react';
 import { DesignElement } from '../../types/design';
+import { ShapeExporter } from '../../export/ShapeExporter';
 
 interface LayersListProps {
   elements: DesignElement[];
@@ -36,60 +37,23 @@ const LayersList: React.FC<LayersListProps> = ({
   };
 
   const exportElement = async (element: DesignElement) => {
+    const shapeExporter = new ShapeExporter();
     try {
-      // Find the actual DOM element by ID
-      const domElement = document.querySelector(`[data-element-id="${element.id}"]`) as HTMLElement;
-      
-      if (!domElement) {
-        console.error(`Element with ID ${element.id} not found in DOM`);
-        return;
-      }
-
-      // Create a temporary container for export
-      const exportContainer = document.createElement('div');
-      exportContainer.style.position = 'absolute';
-      exportContainer.style.left = '-9999px';
-      exportContainer.style.top = '-9999px';
-      exportContainer.style.width = `${element.width}px`;
-      exportContainer.style.height = `${element.height}px`;
-      exportContainer.style.backgroundColor = 'transparent';
-      
-      // Clone the element
-      const clonedElement = domElement.cloneNode(true) as HTMLElement;
-      
-      // Reset position for export
-      clonedElement.style.position = 'relative';
-      clonedElement.style.left = '0';
-      clonedElement.style.top = '0';
-      clonedElement.style.transform = 'none';
-      
-      exportContainer.appendChild(clonedElement);
-      document.body.appendChild(exportContainer);
-
-      // Import toPng dynamically
-      const { toPng } = await import('html-to-image');
-
-      // Export as PNG
-      const dataUrl = await toPng(exportContainer, {
-        cacheBust: true,
-        backgroundColor: 'transparent',
-        pixelRatio: 2,
-        width: element.width,
-        height: element.height
-      });
-
-      // Clean up
-      document.body.removeChild(exportContainer);
+      const blob = await shapeExporter.exportShapeIsolated(element);
 
       // Download
+      const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.download = `${element.name.replace(/\s+/g, '_')}.png`;
-      link.href = dataUrl;
+      link.href = url;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
     } catch (error) {
       console.error('Export failed:', error);
+    } finally {
+      shapeExporter.finish();
     }
   };
 
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Eye, EyeOff, Lock, Unlock, Copy, Trash2, Download, Group, Ungroup, Search, Code, Layers, Bot, Palette, Save, LogOut } from 'lucide-react';
+import { Eye, EyeOff, Lock, Unlock, Copy, Trash2, Download, Group, Ungroup, Search, Code, Layers, Bot, Palette, Save, LogOut, History } from 'lucide-react';
 import { DesignElement } from '../../types/design';
+import { HistoryCheckpoint } from '../../types/project';
+import { CanvasHistoryTimeline } from '../../hooks/useCanvasHistory';
+import { getAllElementsFlat } from '../../utils/groupUtils';
+import { BOOLEAN_OPERATION_LABELS, BooleanOperation, isBooleanOperand } from '../../utils/pathBoolean';
 import AIChatTab from './AIChatTab';
 import PresetsTab from './PresetsTab';
+import HistoryTab from './HistoryTab';
 import SavePresetModal from '../modals/SavePresetModal';
 
 interface LayersPanelProps {
@@ -14,12 +19,14 @@ interface LayersPanelProps {
   duplicateElement: (id: string) => void;
   onGroup: () => void;
   onUngroup: () => void;
+  onBooleanOperation?: (operation: BooleanOperation) => void;
   onOpenJsonEditor: (element: DesignElement) => void;
   onOpenProjectJsonEditor: () => void;
   onOpenLineProperties: () => void;
   onAddElement?: (element: DesignElement) => void;
   onAddMultipleElements?: (elements: DesignElement[]) => void;
   onUpdateElement?: (id: string, updates: Partial<DesignElement>) => void;
+  onUpdateElements?: (updates: Record<string, Partial<DesignElement>>, label?: string) => void;
   onApplyProject?: (elements: DesignElement[], selectedElements: string[]) => void;
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
@@ -28,6 +35,11 @@ interface LayersPanelProps {
   isGuest?: boolean;
   onSaveProject?: () => Promise<void>;
   onExitToHome?: () => void;
+  historyTimeline?: CanvasHistoryTimeline;
+  checkpoints?: HistoryCheckpoint[];
+  onCreateCheckpoint?: (name: string) => void;
+  onRestoreCheckpoint?: (checkpoint: HistoryCheckpoint) => void;
+  onDeleteCheckpoint?: (id: string) => void;
 }
 
 const LayersPanel: React.FC<LayersPanelProps> = ({
@@ -39,12 +51,14 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
   duplicateElement,
   onGroup,
   onUngroup,
+  onBooleanOperation,
   onOpenJsonEditor,
   onOpenLineProperties,
   onOpenProjectJsonEditor,
   onAddElement,
   onAddMultipleElements,
   onUpdateElement,
+  onUpdateElements,
   onApplyProject,
   isCollapsed = false,
   onToggleCollapse,
@@ -52,16 +66,24 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
   userId = null,
   isGuest = false,
   onSaveProject,
-  onExitToHome
+  onExitToHome,
+  historyTimeline,
+  checkpoints = [],
+  onCreateCheckpoint,
+  onRestoreCheckpoint,
+  onDeleteCheckpoint
 }) => {
   const [editingName, setEditingName] = useState<string | null>(null);
   const [editingValue, setEditingValue] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
-  const [activeTab, setActiveTab] = useState<'layers' | 'ai' | 'presets' | 'json'>('layers');
+  const [activeTab, setActiveTab] = useState<'layers' | 'ai' | 'presets' | 'history' | 'json'>('layers');
   const [showSavePresetModal, setShowSavePresetModal] = useState(false);
   const [autosaveCountdown, setAutosaveCountdown] = useState(60);
   const [isSaving, setIsSaving] = useState(false);
 
+  const booleanOperandCount = getAllElementsFlat(elements)
+    .filter(el => selectedElements.includes(el.id) && isBooleanOperand(el)).length;
+
   const handleNameEdit = (id: string, currentName: string) => {
     setEditingName(id);
     setEditingValue(currentName);
@@ -324,7 +346,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
           </div>
         </div>
 
-        <div className="grid grid-cols-3 gap-0.5 bg-gray-700/30 rounded p-0.5 text-xs">
+        <div className="grid grid-cols-4 gap-0.5 bg-gray-700/30 rounded p-0.5 text-xs">
           <button
             onClick={() => setActiveTab('layers')}
             className={`flex-1 flex items-center justify-center space-x-1 px-1.5 py-1 rounded font-medium transition-all duration-200 ${
@@ -362,6 +384,18 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
             <Palette className="w-2.5 h-2.5" />
             <span>Presets</span>
           </button>
+
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`flex-1 flex items-center justify-center space-x-1 px-1.5 py-1 rounded font-medium transition-all duration-200 ${
+              activeTab === 'history'
+                ? 'bg-yellow-400/20 text-yellow-400 border border-yellow-400/50'
+                : 'text-gray-400 hover:text-white hover:bg-gray-600/30'
+            }`}
+          >
+            <History className="w-2.5 h-2.5" />
+            <span>History</span>
+          </button>
         </div>
       </div>
 
@@ -447,6 +481,27 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
                   <Save className="w-3 h-3 mx-auto" />
                 </button>
               </div>
+
+              {/* Boolean path operations on selected rectangles, circles and closed pen paths */}
+              {onBooleanOperation && (
+                <div className="flex items-center space-x-1 mb-2">
+                  {(Object.keys(BOOLEAN_OPERATION_LABELS) as BooleanOperation[]).map(operation => (
+                    <button
+                      key={operation}
+                      onClick={() => onBooleanOperation(operation)}
+                      disabled={booleanOperandCount < 2}
+                      className={`flex-1 px-1 py-1 rounded text-[10px] transition-all duration-200 ${
+                        booleanOperandCount >= 2
+                          ? 'bg-cyan-400/20 text-cyan-300 hover:bg-cyan-400/30'
+                          : 'bg-gray-700/30 text-gray-500 cursor-not-allowed'
+                      }`}
+                      title={`${BOOLEAN_OPERATION_LABELS[operation]} selected shapes into a new path`}
+                    >
+                      {BOOLEAN_OPERATION_LABELS[operation]}
+                    </button>
+                  ))}
+                </div>
+              )}
               
               <div className="text-xs text-gray-400">
                 {elements.length} element{elements.length !== 1 ? 's' : ''}
@@ -475,6 +530,8 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
             onAddElement={onAddElement}
             onAddMultipleElements={onAddMultipleElements}
             onUpdateElement={onUpdateElement}
+            onUpdateElements={onUpdateElements}
+            selectedElements={getAllElementsFlat(elements).filter(el => selectedElements.includes(el.id))}
           />
         )}
 
@@ -485,6 +542,16 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
             onAddPreset={onAddMultipleElements}
           />
         )}
+
+        {activeTab === 'history' && historyTimeline && onCreateCheckpoint && onRestoreCheckpoint && onDeleteCheckpoint && (
+          <HistoryTab
+            timeline={historyTimeline}
+            checkpoints={checkpoints}
+            onCreateCheckpoint={onCreateCheckpoint}
+            onRestoreCheckpoint={onRestoreCheckpoint}
+            onDeleteCheckpoint={onDeleteCheckpoint}
+          />
+        )}
       </div>
 
       <SavePresetModal
@@ -84,7 +84,10 @@ const ProjectJSONEditor: React.FC<ProjectJSONEditorProps> = ({
           return;
         }
         
-        const { elements, selectedElements: newSelected } = deserializeProject(jsonString);
+        // Deserialize the upgraded project so older schema versions apply cleanly
+        const { elements, selectedElements: newSelected } = deserializeProject(
+          validationResult.project ? JSON.stringify(validationResult.project) : jsonString
+        );
         onApplyProject(elements, newSelected);
         
         setHasChanges(false);
@@ -1,5 +1,5 @@
 import React, { useRef, useState } from 'react';
-import { Square, Circle, Type, MessageCircle, Smartphone, Grid2x2 as Grid, Settings, ZoomIn, ZoomOut, Minus, ArrowRight, PenTool, Plus, Download } from 'lucide-react';
+import { Square, Circle, Type, MessageCircle, Smartphone, Grid2x2 as Grid, Settings, ZoomIn, ZoomOut, Minus, ArrowRight, PenTool, Plus, Download, Undo2, Redo2 } from 'lucide-react';
 import { DesignElement } from '../../types/design';
 import { createShapeAtCenter, CanvasViewport } from '../../utils/canvasUtils';
 import LayoutModeSwitcher from './LayoutModeSwitcher';
@@ -19,6 +19,13 @@ interface HorizontalShapesBarProps {
   onOpenGridSettings: () => void;
   onOpenEditorSettings?: () => void;
   onOpenExport?: () => void;
+  // History
+  canUndo?: boolean;
+  canRedo?: boolean;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  onUndo?: () => void;
+  onRedo?: () => void;
   gridEnabled: boolean;
   snapEnabled: boolean;
   onToggleGrid: () => void;
@@ -39,6 +46,12 @@ const HorizontalShapesBar: React.FC<HorizontalShapesBarProps> = ({
   onOpenGridSettings,
   onOpenEditorSettings,
   onOpenExport,
+  canUndo = false,
+  canRedo = false,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
   gridEnabled,
   snapEnabled,
   onToggleGrid,
@@ -352,8 +365,40 @@ const HorizontalShapesBar: React.FC<HorizontalShapesBarProps> = ({
         </div>
       </div>
 
-      {/* Center section - Zoom controls */}
+      {/* Center section - History and zoom controls */}
       <div className="flex items-center space-x-2">
+        {onUndo && onRedo && (
+          <>
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className={`w-8 h-8 rounded-md transition-all duration-200 flex items-center justify-center ${
+                canUndo
+                  ? 'bg-gray-700/50 hover:bg-gray-600/50 hover:scale-105 text-gray-300 hover:text-yellow-400'
+                  : 'bg-gray-800/50 text-gray-600 cursor-not-allowed'
+              }`}
+              title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className={`w-8 h-8 rounded-md transition-all duration-200 flex items-center justify-center ${
+                canRedo
+                  ? 'bg-gray-700/50 hover:bg-gray-600/50 hover:scale-105 text-gray-300 hover:text-yellow-400'
+                  : 'bg-gray-800/50 text-gray-600 cursor-not-allowed'
+              }`}
+              title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+
+            <div className="w-px h-6 bg-gray-600 mx-2"></div>
+          </>
+        )}
+
         <div className="text-xs text-gray-400 mr-1">Zoom:</div>
         
         <button
@@ -1,19 +1,26 @@
 import React from 'react';
 import { LayoutMode } from '../../hooks/useLayoutMode';
+import { PlaybackState } from '../../hooks/usePlayback';
 import DesignModeLayout from './modes/DesignModeLayout';
 import { DesignElement } from '../../types/design';
+import { BooleanOperation } from '../../utils/pathBoolean';
 import { BackgroundConfig } from '../../types/background';
+import { ProjectAnimations, HistoryCheckpoint } from '../../types/project';
+import { CanvasHistoryTimeline } from '../../hooks/useCanvasHistory';
+import { TimelineClips } from '../../types/timeline';
 
 interface LayoutManagerProps {
   // Mode state
   currentMode: LayoutMode;
+  onModeChange: (mode: LayoutMode) => void;
   isTransitioning: boolean;
   
   // Canvas state
   elements: DesignElement[];
   selectedElements: string[];
   setSelectedElements: (ids: string[]) => void;
-  updateElement: (id: string, updates: Partial<DesignElement>) => void;
+  updateElement: (id: string, updates: Partial<DesignElement>, mergeKey?: string) => void;
+  updateElements?: (updates: Record<string, Partial<DesignElement>>, label?: string) => void;
   deleteElement: (id: string) => void;
   duplicateElement: (id: string) => void;
   onAddElement: (element: DesignElement) => void;
@@ -32,12 +39,15 @@ interface LayoutManagerProps {
   // History
   canUndo: boolean;
   canRedo: boolean;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
   onUndo: () => void;
   onRedo: () => void;
   
   // Group operations
   onGroup: () => void;
   onUngroup: () => void;
+  onBooleanOperation?: (operation: BooleanOperation) => void;
   
   // JSON Editor
   onOpenJsonEditor: (element: DesignElement) => void;
@@ -71,9 +81,23 @@ interface LayoutManagerProps {
   onSaveProject?: () => Promise<void>;
   onExitToHome?: () => void;
 
+  // History panel
+  historyTimeline?: CanvasHistoryTimeline;
+  checkpoints?: HistoryCheckpoint[];
+  onCreateCheckpoint?: (name: string) => void;
+  onRestoreCheckpoint?: (checkpoint: HistoryCheckpoint) => void;
+  onDeleteCheckpoint?: (id: string) => void;
+
   // Project File Management
   onSaveProjectFile?: () => void;
   onLoadProjectFile?: () => void;
+
+  // Animation
+  animations: ProjectAnimations;
+  onAnimationsChange: (animations: ProjectAnimations) => void;
+  clips: TimelineClips;
+  onClipsChange: (clips: TimelineClips) => void;
+  playback: PlaybackState;
 }
 
 const LayoutManager: React.FC<LayoutManagerProps> = (props) => {
@@ -81,10 +105,14 @@ const LayoutManager: React.FC<LayoutManagerProps> = (props) => {
 
   // Common props for all layouts
   const commonProps = {
+    currentMode,
+    onModeChange: props.onModeChange,
+    isTransitioning,
     elements: props.elements,
     selectedElements: props.selectedElements,
     setSelectedElements: props.setSelectedElements,
     updateElement: props.updateElement,
+    updateElements: props.updateElements,
     deleteElement: props.deleteElement,
     duplicateElement: props.duplicateElement,
     onAddElement: props.onAddElement,
@@ -99,10 +127,13 @@ const LayoutManager: React.FC<LayoutManagerProps> = (props) => {
     setSnapEnabled: props.setSnapEnabled,
     canUndo: props.canUndo,
     canRedo: props.canRedo,
+    undoLabel: props.undoLabel,
+    redoLabel: props.redoLabel,
     onUndo: props.onUndo,
     onRedo: props.onRedo,
     onGroup: props.onGroup,
     onUngroup: props.onUngroup,
+    onBooleanOperation: props.onBooleanOperation,
     onOpenJsonEditor: props.onOpenJsonEditor,
     onOpenLineProperties: props.onOpenLineProperties,
     onOpenExport: props.onOpenExport,
@@ -118,7 +149,17 @@ const LayoutManager: React.FC<LayoutManagerProps> = (props) => {
     onSaveProject: props.onSaveProject,
     onExitToHome: props.onExitToHome,
     onSaveProjectFile: props.onSaveProjectFile,
-    onLoadProjectFile: props.onLoadProjectFile
+    onLoadProjectFile: props.onLoadProjectFile,
+    historyTimeline: props.historyTimeline,
+    checkpoints: props.checkpoints,
+    onCreateCheckpoint: props.onCreateCheckpoint,
+    onRestoreCheckpoint: props.onRestoreCheckpoint,
+    onDeleteCheckpoint: props.onDeleteCheckpoint,
+    animations: props.animations,
+    onAnimationsChange: props.onAnimationsChange,
+    clips: props.clips,
+    onClipsChange: props.onClipsChange,
+    playback: props.playback
   };
 
   const renderLayout = () => {
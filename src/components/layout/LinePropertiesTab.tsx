@@ -2,6 +2,7 @@ import React from 'react';
 import { Copy, Clipboard } from 'lucide-react';
 import { DesignElement } from '../../types/design';
 import { useClipboard } from '../../hooks/useClipboard';
+import { getNodeType, NodeType, setNodeType } from '../../utils/linePath';
 
 interface LinePropertiesTabProps {
   selectedElements: DesignElement[];
@@ -286,6 +287,34 @@ const LinePropertiesTab: React.FC<LinePropertiesTabProps> = ({
         </div>
       </div>
 
+      {/* Trim Path */}
+      <div className="space-y-1.5">
+        <h4 className="text-xs font-medium text-gray-300 flex items-center">
+          <span className="w-1 h-1 bg-orange-400 rounded-full mr-1.5"></span>
+          Trim Path
+        </h4>
+
+        {([
+          { key: 'trimStart', label: 'Start', fallback: 0 },
+          { key: 'trimEnd', label: 'End', fallback: 1 }
+        ] as const).map(({ key, label, fallback }) => (
+          <div key={key}>
+            <label className="text-xs text-gray-400 block mb-0.5">
+              {label}: {Math.round((selectedElement[key] ?? fallback) * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={selectedElement[key] ?? fallback}
+              onChange={(e) => handleUpdate({ [key]: Number(e.target.value) })}
+              className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+        ))}
+      </div>
+
       {/* Arrow Settings */}
       {(selectedElement.lineType === 'arrow' || selectedElement.arrowStart || selectedElement.arrowEnd) && (
         <div className="space-y-1.5">
@@ -422,7 +451,7 @@ const LinePropertiesTab: React.FC<LinePropertiesTabProps> = ({
           {selectedElement.points && selectedElement.points.length > 0 && (
             <div className="space-y-1.5">
               <div className="flex items-center justify-between">
-                <label className="text-xs text-gray-400">Per-Point Radius</label>
+                <label className="text-xs text-gray-400">Points</label>
                 <button
                   onClick={addPoint}
                   className="px-2 py-0.5 bg-yellow-400/20 text-yellow-400 rounded text-xs hover:bg-yellow-400/30 transition-colors"
@@ -470,6 +499,18 @@ const LinePropertiesTab: React.FC<LinePropertiesTabProps> = ({
                         className="w-12 px-1 py-0.5 bg-gray-700/50 border border-gray-600/50 rounded text-white"
                         title="Corner radius for this point"
                       />
+                      <select
+                        value={getNodeType(point)}
+                        onChange={(e) => handleUpdate({
+                          points: setNodeType(selectedElement.points!, !!selectedElement.closePath, index, e.target.value as NodeType)
+                        })}
+                        className="flex-1 min-w-0 px-1 py-0.5 bg-gray-700/50 border border-gray-600/50 rounded text-white"
+                        title="Corner has no handles, smooth keeps both handles in line, broken moves them separately"
+                      >
+                        <option value="corner">Corner</option>
+                        <option value="smooth">Smooth</option>
+                        <option value="broken">Broken</option>
+                      </select>
                     </div>
                   </div>
                 ))}
@@ -2,6 +2,8 @@ import React from 'react';
 import { Settings, Type, ChevronDown, Play, Minus, Image, ChevronRight } from 'lucide-react';
 import { DesignElement } from '../../types/design';
 import { BackgroundConfig } from '../../types/background';
+import { getAllElementsFlat } from '../../utils/groupUtils';
+import { isMotionPath } from '../../utils/motionPath';
 import ShapePropertiesTab from './ShapePropertiesTab';
 import TextPropertiesTab from './TextPropertiesTab';
 import LinePropertiesTab from './LinePropertiesTab';
@@ -10,6 +12,7 @@ import BackgroundSettingsPanel from './BackgroundSettingsPanel';
 
 interface PropertiesPanelProps {
   selectedElements: DesignElement[];
+  elements?: DesignElement[];
   updateElement: (id: string, updates: Partial<DesignElement>) => void;
   currentTime?: number;
   isCollapsed?: boolean;
@@ -20,6 +23,7 @@ interface PropertiesPanelProps {
 
 const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   selectedElements,
+  elements = [],
   updateElement,
   currentTime = 0,
   isCollapsed = false,
@@ -219,6 +223,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           <ShapePropertiesTab
             selectedElements={elementsWithDefaults}
             updateElement={updateElement}
+            motionPaths={getAllElementsFlat(elements).filter(isMotionPath)}
           />
         ) : activeTab === 'text' ? (
           <TextPropertiesTab
@@ -6,11 +6,13 @@ import { useClipboard } from '../../hooks/useClipboard';
 interface ShapePropertiesTabProps {
   selectedElements: DesignElement[];
   updateElement: (id: string, updates: Partial<DesignElement>) => void;
+  motionPaths?: DesignElement[]; // line elements the selection can follow
 }
 
 const ShapePropertiesTab: React.FC<ShapePropertiesTabProps> = ({
   selectedElements,
-  updateElement
+  updateElement,
+  motionPaths = []
 }) => {
   const { copyStyle, pasteStyle, copyValue, pasteValue, copiedStyle } = useClipboard();
 
@@ -548,6 +550,66 @@ const ShapePropertiesTab: React.FC<ShapePropertiesTabProps> = ({
           </div>
         </div>
       </div>
+
+      {/* Motion Path */}
+      <div className="space-y-1.5">
+        <h4 className="text-xs font-medium text-gray-300 flex items-center">
+          <span className="w-1 h-1 bg-orange-400 rounded-full mr-1.5"></span>
+          Motion Path
+        </h4>
+
+        <div>
+          <label className="text-xs text-gray-400 block mb-0.5">Follow Path</label>
+          <select
+            value={safeSelectedElement.motionPathId || ''}
+            onChange={(e) => handleUpdate({ motionPathId: e.target.value || undefined })}
+            className="w-full px-1.5 py-0.5 bg-gray-700/50 border border-gray-600/50 rounded text-xs text-white focus:outline-none focus:border-yellow-400/50"
+          >
+            <option value="">None</option>
+            {motionPaths
+              .filter(path => !selectedElements.some(element => element.id === path.id))
+              .map(path => (
+                <option key={path.id} value={path.id}>{path.name}</option>
+              ))}
+          </select>
+        </div>
+
+        {safeSelectedElement.motionPathId && (
+          <>
+            <div>
+              <label className="text-xs text-gray-400 block mb-0.5">
+                Progress: {Math.round((safeSelectedElement.motionProgress ?? 0) * 100)}%
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={safeSelectedElement.motionProgress ?? 0}
+                onChange={(e) => handleUpdate({ motionProgress: Number(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-gray-400">Auto-Orient</label>
+              <button
+                onClick={() => handleUpdate({ motionAutoOrient: !safeSelectedElement.motionAutoOrient })}
+                className={`relative inline-flex h-4 w-8 items-center rounded-full transition-colors ${
+                  safeSelectedElement.motionAutoOrient ? 'bg-yellow-400' : 'bg-gray-600'
+                }`}
+                title="Turn with the direction of the path"
+              >
+                <span
+                  className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                    safeSelectedElement.motionAutoOrient ? 'translate-x-4' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
     </div>
   );
 };
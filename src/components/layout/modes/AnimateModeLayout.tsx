@@ -1,8 +1,17 @@
 import React from 'react';
 import DesignModeLayout from './DesignModeLayout';
 import { DesignElement } from '../../../types/design';
+import { ProjectAnimations } from '../../../types/project';
+import { TimelineClips } from '../../../types/timeline';
+import { LayoutMode } from '../../../hooks/useLayoutMode';
+import { PlaybackState } from '../../../hooks/usePlayback';
 
 interface AnimateModeLayoutProps {
+  // Mode state
+  currentMode: LayoutMode;
+  onModeChange: (mode: LayoutMode) => void;
+  isTransitioning: boolean;
+
   // Canvas state
   elements: DesignElement[];
   selectedElements: string[];
@@ -32,12 +41,24 @@ interface AnimateModeLayoutProps {
   onGroup: () => void;
   onUngroup: () => void;
   
+  // Editors
+  onOpenJsonEditor: (element: DesignElement) => void;
+  onOpenLineProperties: () => void;
+  onOpenProjectJsonEditor: () => void;
+
   // Export
   onOpenExport: () => void;
   
   // Editor mode
   editorMode?: boolean;
   onBackToMain?: () => void;
+
+  // Animation
+  animations: ProjectAnimations;
+  onAnimationsChange: (animations: ProjectAnimations) => void;
+  clips: TimelineClips;
+  onClipsChange: (clips: TimelineClips) => void;
+  playback: PlaybackState;
 }
 
 const AnimateModeLayout: React.FC<AnimateModeLayoutProps> = (props) => {
@@ -47,6 +68,9 @@ const AnimateModeLayout: React.FC<AnimateModeLayoutProps> = (props) => {
       {/* Use Design mode layout */}
       <div className="h-full">
         <DesignModeLayout
+          currentMode={props.currentMode}
+          onModeChange={props.onModeChange}
+          isTransitioning={props.isTransitioning}
           elements={props.elements}
           selectedElements={props.selectedElements}
           setSelectedElements={props.setSelectedElements}
@@ -68,9 +92,17 @@ const AnimateModeLayout: React.FC<AnimateModeLayoutProps> = (props) => {
           onRedo={props.onRedo}
           onGroup={props.onGroup}
           onUngroup={props.onUngroup}
+          onOpenJsonEditor={props.onOpenJsonEditor}
+          onOpenLineProperties={props.onOpenLineProperties}
+          onOpenProjectJsonEditor={props.onOpenProjectJsonEditor}
           onOpenExport={props.onOpenExport}
           editorMode={false} // Don't show double header
           onBackToMain={undefined} // Handled by our header
+          animations={props.animations}
+          onAnimationsChange={props.onAnimationsChange}
+          clips={props.clips}
+          onClipsChange={props.onClipsChange}
+          playback={props.playback}
         />
       </div>
     </div>
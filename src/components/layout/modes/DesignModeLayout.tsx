@@ -1,27 +1,41 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import HorizontalShapesBar from '../HorizontalShapesBar';
 import LayersPanel from '../../design-tool/LayersPanel';
 import Canvas from '../../design-tool/Canvas';
 import PropertiesPanel from '../PropertiesPanel';
 import LayoutBar from '../LayoutBar';
 import { DesignElement } from '../../../types/design';
+import { BooleanOperation } from '../../../utils/pathBoolean';
 import { BackgroundConfig } from '../../../types/background';
+import { ProjectAnimations, HistoryCheckpoint } from '../../../types/project';
+import { CanvasHistoryTimeline } from '../../../hooks/useCanvasHistory';
+import { TimelineClips } from '../../../types/timeline';
 import { useGridSystem } from '../../../hooks/useGridSystem';
-import { useLayoutMode } from '../../../hooks/useLayoutMode';
+import { LayoutMode } from '../../../hooks/useLayoutMode';
+import { PlaybackState } from '../../../hooks/usePlayback';
 import { CanvasViewport } from '../../../utils/canvasUtils';
+import { applyAnimations } from '../../../utils/animationEngine';
+import { applyClipVisibility } from '../../../utils/clipUtils';
 import GridSettingsPanel from '../../design-tool/GridSettingsPanel';
 import GeneralTimeline from '../../timeline/GeneralTimeline';
 import AnimationTimeline from '../../timeline/AnimationTimeline';
+import PlaybackControls from '../../timeline/PlaybackControls';
 import ResizableSplitter from '../../timeline/ResizableSplitter';
 import TutorialOverlay from '../../tutorial/TutorialOverlay';
 import { useTutorial } from '../../../contexts/TutorialContext';
 
 interface DesignModeLayoutProps {
+  // Mode state
+  currentMode: LayoutMode;
+  onModeChange: (mode: LayoutMode) => void;
+  isTransitioning: boolean;
+
   // Canvas state
   elements: DesignElement[];
   selectedElements: string[];
   setSelectedElements: (ids: string[]) => void;
-  updateElement: (id: string, updates: Partial<DesignElement>) => void;
+  updateElement: (id: string, updates: Partial<DesignElement>, mergeKey?: string) => void;
+  updateElements?: (updates: Record<string, Partial<DesignElement>>, label?: string) => void;
   deleteElement: (id: string) => void;
   duplicateElement: (id: string) => void;
   onAddElement: (element: DesignElement) => void;
@@ -40,12 +54,15 @@ interface DesignModeLayoutProps {
   // History
   canUndo: boolean;
   canRedo: boolean;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
   onUndo: () => void;
   onRedo: () => void;
   
   // Group operations
   onGroup: () => void;
   onUngroup: () => void;
+  onBooleanOperation?: (operation: BooleanOperation) => void;
   
   // JSON Editor
   onOpenJsonEditor: (element: DesignElement) => void;
@@ -79,16 +96,34 @@ interface DesignModeLayoutProps {
   onSaveProject?: () => Promise<void>;
   onExitToHome?: () => void;
 
+  // History panel
+  historyTimeline?: CanvasHistoryTimeline;
+  checkpoints?: HistoryCheckpoint[];
+  onCreateCheckpoint?: (name: string) => void;
+  onRestoreCheckpoint?: (checkpoint: HistoryCheckpoint) => void;
+  onDeleteCheckpoint?: (id: string) => void;
+
   // Project File Management
   onSaveProjectFile?: () => void;
   onLoadProjectFile?: () => void;
+
+  // Animation
+  animations: ProjectAnimations;
+  onAnimationsChange: (animations: ProjectAnimations) => void;
+  clips: TimelineClips;
+  onClipsChange: (clips: TimelineClips) => void;
+  playback: PlaybackState;
 }
 
 const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
+  currentMode,
+  onModeChange,
+  isTransitioning,
   elements,
   selectedElements,
   setSelectedElements,
   updateElement,
+  updateElements,
   deleteElement,
   duplicateElement,
   onAddElement,
@@ -103,10 +138,13 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
   setSnapEnabled,
   canUndo,
   canRedo,
+  undoLabel,
+  redoLabel,
   onUndo,
   onRedo,
   onGroup,
   onUngroup,
+  onBooleanOperation,
   onOpenJsonEditor,
   onOpenLineProperties,
   onOpenProjectJsonEditor,
@@ -122,26 +160,30 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
   onSaveProject,
   onExitToHome,
   onSaveProjectFile,
-  onLoadProjectFile
+  onLoadProjectFile,
+  historyTimeline,
+  checkpoints,
+  onCreateCheckpoint,
+  onRestoreCheckpoint,
+  onDeleteCheckpoint,
+  animations,
+  onAnimationsChange,
+  clips,
+  onClipsChange,
+  playback
 }) => {
   const { startTutorial } = useTutorial();
   const [showGridSettings, setShowGridSettings] = useState(false);
   const [isLayersPanelCollapsed, setIsLayersPanelCollapsed] = useState(false);
   const [isPropertiesPanelCollapsed, setIsPropertiesPanelCollapsed] = useState(false);
 
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration] = useState(10);
-  const [fps] = useState(30);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const { currentTime, duration, fps, seek: handleSeek } = playback;
   const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
 
   const [leftColumnWidth, setLeftColumnWidth] = useState(25);
   const [rightColumnWidth, setRightColumnWidth] = useState(25);
   const [topRowHeight, setTopRowHeight] = useState(60);
 
-  // Layout mode state
-  const { currentMode, setMode, isTransitioning } = useLayoutMode();
-
   // Grid system
   const canvasSize = { width: 3840, height: 2160 };
   const {
@@ -199,13 +241,19 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
 
   const selectedElementsData = elements.filter(el => selectedElements.includes(el.id));
 
-  const handleSeek = useCallback((time: number) => {
-    setCurrentTime(time);
-  }, []);
-
-  const handleClipSelect = useCallback((clipId: string) => {
+  const handleClipSelect = useCallback((clipId: string, elementId: string) => {
     setSelectedClipId(clipId);
-  }, []);
+    setSelectedElements([elementId]);
+  }, [setSelectedElements]);
+
+  // Keyframes are edited for the selected layer
+  const timelineElement = selectedElementsData[0] || null;
+
+  // In edit mode the canvas previews the animated state and clip visibility at the playhead
+  const previewElements = useMemo(() => {
+    if (currentMode !== 'edit') return elements;
+    return applyClipVisibility(applyAnimations(elements, animations.byId, currentTime), clips, currentTime, duration);
+  }, [currentMode, elements, animations.byId, clips, currentTime, duration]);
 
   const centerColumnWidth = 100 - leftColumnWidth - rightColumnWidth;
   const bottomRowHeight = 100 - topRowHeight;
@@ -239,12 +287,14 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
             duplicateElement={duplicateElement}
             onGroup={onGroup}
             onUngroup={onUngroup}
+            onBooleanOperation={onBooleanOperation}
             onOpenJsonEditor={onOpenJsonEditor}
             onOpenLineProperties={onOpenLineProperties}
             onOpenProjectJsonEditor={onOpenProjectJsonEditor}
             onAddElement={onAddElement}
             onAddMultipleElements={onAddMultipleElements}
             onUpdateElement={updateElement}
+            onUpdateElements={updateElements}
             isCollapsed={isLayersPanelCollapsed}
             onToggleCollapse={() => setIsLayersPanelCollapsed(!isLayersPanelCollapsed)}
             onSavePreset={onSavePreset}
@@ -252,6 +302,11 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
             isGuest={isGuest}
             onSaveProject={onSaveProject}
             onExitToHome={onExitToHome}
+            historyTimeline={historyTimeline}
+            checkpoints={checkpoints}
+            onCreateCheckpoint={onCreateCheckpoint}
+            onRestoreCheckpoint={onRestoreCheckpoint}
+            onDeleteCheckpoint={onDeleteCheckpoint}
           />
         </div>
 
@@ -269,6 +324,12 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
               onOpenGridSettings={() => setShowGridSettings(true)}
               onOpenEditorSettings={onOpenEditorSettings}
               onOpenExport={onOpenExport}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              undoLabel={undoLabel}
+              redoLabel={redoLabel}
+              onUndo={onUndo}
+              onRedo={onRedo}
               gridEnabled={gridSettings.enabled}
               snapEnabled={gridSettings.snapEnabled}
               onToggleGrid={toggleGrid}
@@ -284,7 +345,7 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
             {/* Canvas Area */}
             <div className="flex-1 relative overflow-hidden">
               <Canvas
-                elements={elements}
+                elements={previewElements}
                 selectedElements={selectedElements}
                 setSelectedElements={setSelectedElements}
                 updateElement={updateElement}
@@ -306,7 +367,7 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
             <div className="flex-shrink-0">
               <LayoutBar
                 currentMode={currentMode}
-                onModeChange={setMode}
+                onModeChange={onModeChange}
                 isTransitioning={isTransitioning}
                 onSaveProject={onSaveProjectFile}
                 onLoadProject={onLoadProjectFile}
@@ -321,6 +382,7 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
         <div className="bg-gray-800/50 backdrop-blur-xl border-l border-gray-700/50 overflow-hidden">
           <PropertiesPanel
             selectedElements={selectedElementsData}
+            elements={elements}
             updateElement={updateElement}
             currentTime={currentTime}
             isCollapsed={isPropertiesPanelCollapsed}
@@ -330,10 +392,11 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
           />
         </div>
 
-        {/* Bottom Row - Two Timelines (50% / 50%) spanning full width - Only visible in Edit mode */}
+        {/* Bottom Row - Transport and two timelines (50% / 50%) spanning full width - Only visible in Edit mode */}
         {currentMode === 'edit' && (
-          <div style={{ gridColumn: '1 / 4' }} className="overflow-hidden">
-            <div className="h-full" style={{ display: 'grid', gridTemplateColumns: '1fr 1fr' }}>
+          <div style={{ gridColumn: '1 / 4' }} className="overflow-hidden flex flex-col">
+            <PlaybackControls playback={playback} />
+            <div className="flex-1 min-h-0" style={{ display: 'grid', gridTemplateColumns: '1fr 1fr' }}>
               {/* General Timeline (Left 50%) */}
               <div className="overflow-hidden">
                 <GeneralTimeline
@@ -342,7 +405,11 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
                   duration={duration}
                   fps={fps}
                   onSeek={handleSeek}
+                  clips={clips}
+                  onClipsChange={onClipsChange}
+                  selectedClipId={selectedClipId}
                   onClipSelect={handleClipSelect}
+                  loopRange={playback.loopEnabled ? playback.loopRange : null}
                 />
               </div>
               {/* Animation Timeline (Right 50%) */}
@@ -352,7 +419,9 @@ const DesignModeLayout: React.FC<DesignModeLayoutProps> = ({
                   duration={duration}
                   fps={fps}
                   onSeek={handleSeek}
-                  selectedClipId={selectedClipId}
+                  element={timelineElement}
+                  animations={animations}
+                  onAnimationsChange={onAnimationsChange}
                 />
               </div>
             </div>
@@ -1,21 +1,24 @@
 import React, { useState, useRef } from 'react';
-import { X, Upload, Loader2, CheckCircle, AlertCircle, FileText } from 'lucide-react';
-import { LoadProjectResult } from '../../types/projectFile';
+import { X, Upload, Loader2, CheckCircle, AlertCircle, FileText, ShieldAlert, Wrench } from 'lucide-react';
+import { IntegrityIssue, LoadProjectResult } from '../../types/projectFile';
 
 interface LoadProjectModalProps {
   isOpen: boolean;
   onClose: () => void;
   onLoad: (file: File) => Promise<LoadProjectResult>;
+  // Opens a result whose integrity report the user has reviewed
+  onOpenRecovered: (result: LoadProjectResult) => Promise<LoadProjectResult>;
 }
 
 const LoadProjectModal: React.FC<LoadProjectModalProps> = ({
   isOpen,
   onClose,
   onLoad,
+  onOpenRecovered,
 }) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [loadStatus, setLoadStatus] = useState<'idle' | 'review' | 'success' | 'error'>('idle');
   const [result, setResult] = useState<LoadProjectResult | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -58,24 +61,29 @@ const LoadProjectModal: React.FC<LoadProjectModalProps> = ({
     setIsDragging(false);
   };
 
+  const pendingResult = loadStatus === 'review' ? result : null;
+
   const handleLoad = async () => {
     if (!selectedFile) return;
 
     setIsLoading(true);
-    setLoadStatus('idle');
 
     try {
-      const result = await onLoad(selectedFile);
+      const result = loadStatus === 'review' && pendingResult
+        ? await onOpenRecovered(pendingResult)
+        : await onLoad(selectedFile);
       setResult(result);
 
-      if (result.success) {
+      if (!result.success) {
+        setLoadStatus('error');
+      } else if (loadStatus !== 'review' && result.integrity && result.integrity.issues.length > 0) {
+        setLoadStatus('review');
+      } else {
         setLoadStatus('success');
         setTimeout(() => {
           onClose();
           resetState();
         }, 1500);
-      } else {
-        setLoadStatus('error');
       }
     } catch (error) {
       setLoadStatus('error');
@@ -109,7 +117,7 @@ const LoadProjectModal: React.FC<LoadProjectModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
-      <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl shadow-2xl border border-gray-700 w-full max-w-md p-6 mx-4">
+      <div className={`bg-gradient-to-br from-gray-800 to-gray-900 rounded-xl shadow-2xl border border-gray-700 w-full ${loadStatus === 'review' ? 'max-w-lg' : 'max-w-md'} p-6 mx-4`}>
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center space-x-3">
             <div className="p-2 bg-green-500/20 rounded-lg">
@@ -207,6 +215,33 @@ const LoadProjectModal: React.FC<LoadProjectModalProps> = ({
             </div>
           )}
 
+          {loadStatus === 'review' && result?.integrity && (
+            <div className="p-3 bg-orange-500/10 border border-orange-500/30 rounded-lg">
+              <div className="flex items-center space-x-2 mb-1">
+                <ShieldAlert className="w-5 h-5 text-orange-400 flex-shrink-0" />
+                <p className="text-sm font-medium text-orange-400">This project file is damaged</p>
+              </div>
+              <p className="text-xs text-gray-400 ml-7 mb-2">
+                {result.integrity.issues.filter(issue => issue.repair).length} of {result.integrity.issues.length} problems were repaired.
+                Review them before opening the recovered project.
+              </p>
+              <ul className="ml-7 space-y-1.5 max-h-48 overflow-y-auto pr-1">
+                {result.integrity.issues.map((issue: IntegrityIssue, index) => (
+                  <li key={index} className="text-xs">
+                    <p className={issue.repair ? 'text-orange-200' : 'text-red-300'}>
+                      <span className="text-gray-500">{issue.area} · </span>
+                      <span className="font-mono text-[11px]">{issue.path}</span>: {issue.message}
+                    </p>
+                    <p className={`flex items-center mt-0.5 ${issue.repair ? 'text-green-300' : 'text-red-400'}`}>
+                      <Wrench className="w-3 h-3 mr-1 flex-shrink-0" />
+                      {issue.repair || 'Could not be recovered'}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {loadStatus === 'success' && (
             <div className="flex items-center space-x-2 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
               <CheckCircle className="w-5 h-5 text-green-400 flex-shrink-0" />
@@ -246,6 +281,11 @@ const LoadProjectModal: React.FC<LoadProjectModalProps> = ({
                 <CheckCircle className="w-4 h-4" />
                 <span>Loaded!</span>
               </>
+            ) : loadStatus === 'review' ? (
+              <>
+                <Wrench className="w-4 h-4" />
+                <span>Open Recovered Project</span>
+              </>
             ) : (
               <>
                 <Upload className="w-4 h-4" />
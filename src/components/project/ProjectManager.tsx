@@ -3,15 +3,24 @@ import { Save, FolderOpen } from 'lucide-react';
 import SaveProjectModal from '../modals/SaveProjectModal';
 import LoadProjectModal from '../modals/LoadProjectModal';
 import { DesignElement } from '../../types/design';
-import { ProjectCanvas, SaveProjectOptions } from '../../types/projectFile';
+import { Animation, ProjectChangeLogEntry } from '../../types/project';
+import { TimelineClips } from '../../types/timeline';
+import { LoadedProject, ProjectCanvas, ProjectFont, ProjectProperties, SaveProjectOptions } from '../../types/projectFile';
 import { useProjectFile } from '../../hooks/useProjectFile';
+import { getCustomFonts } from '../../hooks/useFonts';
+import { getAllElementsFlat } from '../../utils/groupUtils';
 
 interface ProjectManagerProps {
   elements: DesignElement[];
   canvas: ProjectCanvas;
+  animations?: Record<string, Animation>;
+  clips?: TimelineClips;
+  properties?: Partial<ProjectProperties>;
+  changeLog?: ProjectChangeLogEntry[];
+  projectId?: string | null;
   userId?: string | null;
   userName?: string | null;
-  onProjectLoaded: (elements: DesignElement[], canvas: ProjectCanvas) => void;
+  onProjectLoaded: (project: LoadedProject) => void;
   children: (handlers: {
     handleSaveClick: () => void;
     handleLoadClick: () => void;
@@ -22,6 +31,11 @@ interface ProjectManagerProps {
 const ProjectManager: React.FC<ProjectManagerProps> = ({
   elements,
   canvas,
+  animations,
+  clips,
+  properties,
+  changeLog,
+  projectId,
   userId,
   userName,
   onProjectLoaded,
@@ -30,15 +44,29 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [showLoadModal, setShowLoadModal] = useState(false);
 
-  const { saveProject, loadProject, currentProjectName, setCurrentProjectName } = useProjectFile({
+  const { saveProject, loadProject, openProject, currentProjectName, setCurrentProjectName } = useProjectFile({
     onProjectLoaded,
   });
 
+  // Embed the uploaded fonts that the design actually uses
+  const getUsedFonts = (): ProjectFont[] => {
+    const families = new Set(getAllElementsFlat(elements).map(el => el.fontFamily));
+    return getCustomFonts()
+      .filter(font => font.file && families.has(font.family))
+      .map(font => ({ family: font.family, name: font.family, format: font.format, data: font.file! }));
+  };
+
   const handleSave = async (projectName: string) => {
     const options: SaveProjectOptions = {
       projectName,
+      projectId: projectId || undefined,
       elements,
       canvas,
+      animations,
+      clips,
+      properties,
+      changeLog,
+      fonts: getUsedFonts(),
       userId: userId || undefined,
       userName: userName || undefined,
     };
@@ -73,6 +101,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
         isOpen={showLoadModal}
         onClose={() => setShowLoadModal(false)}
         onLoad={loadProject}
+        onOpenRecovered={openProject}
       />
     </>
   );
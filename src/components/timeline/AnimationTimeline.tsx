@@ -1,11 +1,57 @@
-import React, { useRef, useState } from 'react';
+import React, { useRef, useState, useEffect, useCallback } from 'react';
+import { Diamond, Trash2 } from 'lucide-react';
+import { DesignElement } from '../../types/design';
+import { Animation, AnimationType, ProjectAnimations } from '../../types/project';
+import { elementToAnimationValue, getAnimatedElement } from '../../utils/animationEngine';
+import {
+  findAnimation,
+  getElementAnimations,
+  setKeyframe,
+  updateKeyframe,
+  removeKeyframe,
+  sortAnimationKeyframes
+} from '../../utils/keyframeUtils';
+import { EASING_NAMES } from '../../utils/easing';
 
 interface AnimationTimelineProps {
   currentTime: number;
   duration: number;
   fps: number;
   onSeek: (time: number) => void;
-  selectedClipId?: string | null;
+  element?: DesignElement | null;
+  animations: ProjectAnimations;
+  onAnimationsChange: (animations: ProjectAnimations) => void;
+}
+
+interface PropertyTrack {
+  id: string;
+  name: string;
+  type: AnimationType;
+  property?: Animation['property'];
+  appliesTo?: (element: DesignElement) => boolean;
+}
+
+const PROPERTY_TRACKS: PropertyTrack[] = [
+  { id: 'position', name: 'Transform > Position', type: 'transform' },
+  { id: 'scale', name: 'Transform > Scale', type: 'scale' },
+  { id: 'rotation', name: 'Transform > Rotation', type: 'rotate' },
+  { id: 'opacity', name: 'Opacity', type: 'opacity' },
+  { id: 'fill', name: 'Fill Color', type: 'color', property: 'fill' },
+  { id: 'stroke', name: 'Stroke', type: 'color', property: 'stroke' },
+  { id: 'trim', name: 'Trim Path', type: 'trim', appliesTo: element => element.type === 'line' },
+  { id: 'motionPath', name: 'Motion Path > Progress', type: 'motionPath', appliesTo: element => !!element.motionPathId }
+];
+
+const LABEL_WIDTH = 192;
+
+interface SelectedKeyframe {
+  animationId: string;
+  index: number;
+}
+
+interface KeyframeDrag extends SelectedKeyframe {
+  startX: number;
+  startTime: number;
 }
 
 const AnimationTimeline: React.FC<AnimationTimelineProps> = ({
@@ -13,27 +59,95 @@ const AnimationTimeline: React.FC<AnimationTimelineProps> = ({
   duration,
   fps = 30,
   onSeek,
-  selectedClipId
+  element,
+  animations,
+  onAnimationsChange
 }) => {
   const rulerRef = useRef<HTMLDivElement>(null);
+  const lanesRef = useRef<HTMLDivElement>(null);
   const pixelsPerSecond = 50;
   const [isDraggingPlayhead, setIsDraggingPlayhead] = useState(false);
+  const [selectedKeyframe, setSelectedKeyframe] = useState<SelectedKeyframe | null>(null);
+  const [keyframeDrag, setKeyframeDrag] = useState<KeyframeDrag | null>(null);
 
-  const handleRulerClick = (e: React.MouseEvent) => {
+  // Latest animations for document-level drag handlers
+  const animationsRef = useRef(animations);
+  animationsRef.current = animations;
+
+  const snapToFrame = useCallback((time: number) => Math.round(time * fps) / fps, [fps]);
+
+  useEffect(() => {
+    setSelectedKeyframe(null);
+  }, [element?.id]);
+
+  useEffect(() => {
+    if (!keyframeDrag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const animation = animationsRef.current.byId[keyframeDrag.animationId];
+      if (!animation) return;
+      const delta = (e.clientX - keyframeDrag.startX) / pixelsPerSecond;
+      // Dragging past the end lengthens the animation, and the timeline with it
+      const time = Math.max(0, snapToFrame(keyframeDrag.startTime + delta));
+      onAnimationsChange(updateKeyframe(
+        animationsRef.current,
+        keyframeDrag.animationId,
+        keyframeDrag.index,
+        { time: Math.max(0, time - (animation.delay || 0)) }
+      ));
+    };
+
+    const handleMouseUp = () => {
+      const animation = animationsRef.current.byId[keyframeDrag.animationId];
+      if (animation) {
+        const dragged = animation.keyframes[keyframeDrag.index];
+        const sorted = sortAnimationKeyframes(animationsRef.current, keyframeDrag.animationId);
+        onAnimationsChange(sorted);
+        setSelectedKeyframe({
+          animationId: keyframeDrag.animationId,
+          index: sorted.byId[keyframeDrag.animationId].keyframes.indexOf(dragged)
+        });
+      }
+      setKeyframeDrag(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [keyframeDrag, onAnimationsChange, snapToFrame]);
+
+  // The ruler follows the lanes' horizontal scroll, so its offset counts toward the time under the cursor
+  const seekToRulerX = (clientX: number) => {
     if (rulerRef.current) {
       const rect = rulerRef.current.getBoundingClientRect();
-      const x = e.clientX - rect.left;
+      const x = clientX - rect.left + rulerRef.current.scrollLeft;
       const time = x / pixelsPerSecond;
       onSeek(Math.max(0, Math.min(time, duration)));
     }
   };
 
+  const handleRulerClick = (e: React.MouseEvent) => {
+    seekToRulerX(e.clientX);
+  };
+
   const handlePlayheadDrag = (e: React.MouseEvent) => {
-    if (isDraggingPlayhead && rulerRef.current) {
-      const rect = rulerRef.current.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const time = x / pixelsPerSecond;
-      onSeek(Math.max(0, Math.min(time, duration)));
+    if (isDraggingPlayhead) {
+      seekToRulerX(e.clientX);
+    }
+  };
+
+  const handleLanesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (rulerRef.current) {
+      rulerRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
+
+  const handleRulerWheel = (e: React.WheelEvent) => {
+    if (lanesRef.current) {
+      lanesRef.current.scrollLeft += e.deltaX || (e.shiftKey ? e.deltaY : 0);
     }
   };
 
@@ -64,33 +178,161 @@ const AnimationTimeline: React.FC<AnimationTimelineProps> = ({
 
   const playheadPosition = currentTime * pixelsPerSecond;
 
-  const propertyRows = [
-    { name: 'Transform > Position', disabled: true },
-    { name: 'Transform > Scale', disabled: true },
-    { name: 'Transform > Rotation', disabled: true },
-    { name: 'Opacity', disabled: true },
-    { name: 'Fill Color', disabled: true },
-    { name: 'Stroke', disabled: true }
-  ];
+  const elementAnimations = element ? getElementAnimations(animations, element.id) : [];
+  const animatedElement = element ? getAnimatedElement(element, elementAnimations, currentTime) : null;
+
+  // Key the current (possibly already animated) value so adding a keyframe never makes the element jump
+  const addKeyframeAt = (track: PropertyTrack, time: number) => {
+    if (!element) return;
+    const source = getAnimatedElement(element, elementAnimations, time);
+    const value = elementToAnimationValue(source, track.type, track.property);
+    const next = setKeyframe(
+      animations,
+      { elementId: element.id, type: track.type, property: track.property },
+      snapToFrame(time),
+      value
+    );
+    onAnimationsChange(next);
+  };
+
+  const deleteSelectedKeyframe = () => {
+    if (!selectedKeyframe) return;
+    onAnimationsChange(removeKeyframe(animations, selectedKeyframe.animationId, selectedKeyframe.index));
+    setSelectedKeyframe(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    if ((e.key === 'Delete' || e.key === 'Backspace') && selectedKeyframe) {
+      // Keep the global shortcut from deleting the selected element as well
+      e.preventDefault();
+      e.stopPropagation();
+      deleteSelectedKeyframe();
+    }
+  };
+
+  const selectedAnimation = selectedKeyframe ? animations.byId[selectedKeyframe.animationId] : undefined;
+  const selectedKeyframeData = selectedAnimation?.keyframes[selectedKeyframe!.index];
+
+  const updateSelectedKeyframe = (updates: Parameters<typeof updateKeyframe>[3]) => {
+    if (!selectedKeyframe) return;
+    onAnimationsChange(updateKeyframe(animations, selectedKeyframe.animationId, selectedKeyframe.index, updates));
+  };
+
+  const retimeSelectedKeyframe = (time: number) => {
+    if (!selectedKeyframe || !selectedAnimation || !selectedKeyframeData) return;
+    const localTime = Math.max(0, snapToFrame(time) - (selectedAnimation.delay || 0));
+    const updated = updateKeyframe(animations, selectedKeyframe.animationId, selectedKeyframe.index, { time: localTime });
+    const sorted = sortAnimationKeyframes(updated, selectedKeyframe.animationId);
+    const moved = updated.byId[selectedKeyframe.animationId].keyframes[selectedKeyframe.index];
+    onAnimationsChange(sorted);
+    setSelectedKeyframe({
+      animationId: selectedKeyframe.animationId,
+      index: sorted.byId[selectedKeyframe.animationId].keyframes.indexOf(moved)
+    });
+  };
+
+  const renderValueEditor = () => {
+    if (!selectedAnimation || !selectedKeyframeData) return null;
+    const value = selectedKeyframeData.value;
+    const inputClass = 'w-16 px-1.5 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:border-yellow-400';
+
+    if (selectedAnimation.type === 'color') {
+      const hex = typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : '#000000';
+      return (
+        <input
+          type="color"
+          value={hex}
+          onChange={(e) => updateSelectedKeyframe({ value: e.target.value })}
+          className="w-8 h-5 bg-transparent border border-gray-600 rounded cursor-pointer"
+        />
+      );
+    }
+
+    if (selectedAnimation.type === 'transform' || selectedAnimation.type === 'scale') {
+      const vector = typeof value === 'object' && value ? value : { x: value, y: value };
+      const step = selectedAnimation.type === 'scale' ? 0.05 : 1;
+      return (
+        <>
+          {(['x', 'y'] as const).map(axis => (
+            <label key={axis} className="flex items-center gap-1 text-xs text-gray-400">
+              {axis.toUpperCase()}
+              <input
+                type="number"
+                step={step}
+                value={Number(vector[axis] ?? 0)}
+                onChange={(e) => updateSelectedKeyframe({ value: { ...vector, [axis]: Number(e.target.value) } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </>
+      );
+    }
+
+    if (selectedAnimation.type === 'trim') {
+      const range = typeof value === 'object' && value ? value : { start: 0, end: 1 };
+      return (
+        <>
+          {(['start', 'end'] as const).map(edge => (
+            <label key={edge} className="flex items-center gap-1 text-xs text-gray-400 capitalize">
+              {edge}
+              <input
+                type="number"
+                step={0.05}
+                min={0}
+                max={1}
+                value={Number(range[edge] ?? (edge === 'start' ? 0 : 1))}
+                onChange={(e) => updateSelectedKeyframe({ value: { ...range, [edge]: Number(e.target.value) } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </>
+      );
+    }
+
+    // Opacity and motion path progress are fractions
+    const isFraction = selectedAnimation.type === 'opacity' || selectedAnimation.type === 'motionPath';
+    return (
+      <input
+        type="number"
+        step={isFraction ? 0.05 : 1}
+        min={isFraction ? 0 : undefined}
+        max={isFraction ? 1 : undefined}
+        value={Number(value ?? 0)}
+        onChange={(e) => updateSelectedKeyframe({ value: Number(e.target.value) })}
+        className={inputClass}
+      />
+    );
+  };
 
   return (
-    <div className="h-full bg-gray-900 border-t border-l border-gray-700/50 flex flex-col relative">
+    <div
+      className="h-full bg-gray-900 border-t border-l border-gray-700/50 flex flex-col relative focus:outline-none"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
       <div className="h-8 bg-gray-800/80 border-b border-gray-700/50 flex items-center px-4 justify-between">
-        <div className="text-sm font-medium text-gray-300">Animation Timeline</div>
+        <div className="text-sm font-medium text-gray-300">
+          Animation Timeline{element ? ` — ${element.name}` : ''}
+        </div>
         <div className="text-xs text-gray-400">
           <span className="font-mono">{formatTime(currentTime)}</span>
         </div>
       </div>
 
-      <div
-        ref={rulerRef}
-        className="h-10 bg-gray-850 border-b border-gray-700/50 relative cursor-pointer overflow-hidden"
-        onClick={handleRulerClick}
-        onMouseMove={handlePlayheadDrag}
-        onMouseUp={() => setIsDraggingPlayhead(false)}
-        onMouseLeave={() => setIsDraggingPlayhead(false)}
-      >
-        <div className="absolute inset-0 overflow-x-auto">
+      <div className="h-10 bg-gray-850 border-b border-gray-700/50 flex">
+        <div className="flex-shrink-0 border-r border-gray-700/30" style={{ width: LABEL_WIDTH }}></div>
+        <div
+          ref={rulerRef}
+          className="flex-1 relative cursor-pointer overflow-hidden"
+          onClick={handleRulerClick}
+          onWheel={handleRulerWheel}
+          onMouseMove={handlePlayheadDrag}
+          onMouseUp={() => setIsDraggingPlayhead(false)}
+          onMouseLeave={() => setIsDraggingPlayhead(false)}
+        >
           <div className="relative h-full" style={{ width: `${duration * pixelsPerSecond}px`, minWidth: '100%' }}>
             {renderRulerTicks()}
 
@@ -106,68 +348,177 @@ const AnimationTimeline: React.FC<AnimationTimelineProps> = ({
         </div>
       </div>
 
-      <div className="flex-1 overflow-auto relative">
-        {!selectedClipId ? (
+      <div ref={lanesRef} className="flex-1 overflow-auto relative" onScroll={handleLanesScroll}>
+        {!element ? (
           <div className="h-full flex flex-col items-center justify-center text-gray-500 text-sm p-8 relative">
-            {/* Full-height yellow playhead for empty state */}
-            <div
-              className="absolute top-0 bottom-0 w-0.5 bg-yellow-400 pointer-events-none z-20"
-              style={{ left: `${playheadPosition}px` }}
-            ></div>
             <div className="text-center space-y-2">
-              <p className="font-medium">Animation Timeline: Reserved for Property Keyframes</p>
-              <p className="text-xs text-gray-600">Select a clip in the General Timeline to view properties</p>
-              <p className="text-xs text-gray-600">No keyframe features available yet</p>
+              <p className="font-medium">No element selected</p>
+              <p className="text-xs text-gray-600">Select a layer or a clip in the General Timeline to edit its keyframes</p>
             </div>
           </div>
         ) : (
           <div className="relative">
-            <div className="text-xs text-gray-400 px-4 py-2 bg-gray-800/40 border-b border-gray-700/30">
-              Property tracks for selected clip (Animation features disabled)
-            </div>
-            {propertyRows.map((property, index) => (
-              <div
-                key={index}
-                className="h-10 border-b border-gray-700/30 flex items-center relative opacity-50"
-                title="Animation features disabled — timeline reserved"
-              >
-                <div className="w-48 px-3 text-xs text-gray-400 border-r border-gray-700/30">
-                  {property.name}
-                </div>
+            {PROPERTY_TRACKS.filter(track => !track.appliesTo || track.appliesTo(element)).map((track) => {
+              const animation = findAnimation(animations, {
+                elementId: element.id,
+                type: track.type,
+                property: track.property
+              });
+              const currentValue = animatedElement
+                ? elementToAnimationValue(animatedElement, track.type, track.property)
+                : undefined;
 
-                <div className="flex-1 relative">
-                  {/* Full-height yellow playhead for this property track */}
+              return (
+                <div
+                  key={track.id}
+                  className="h-10 border-b border-gray-700/30 flex items-center relative"
+                  style={{ minWidth: LABEL_WIDTH + duration * pixelsPerSecond }}
+                >
                   <div
-                    className="absolute top-0 bottom-0 w-0.5 bg-yellow-400 pointer-events-none z-20"
-                    style={{ left: `${playheadPosition}px` }}
-                  ></div>
-                  <div className="absolute inset-0 overflow-x-auto">
-                    <div style={{ width: `${duration * pixelsPerSecond}px`, minWidth: '100%', height: '100%' }}>
+                    className="sticky left-0 z-30 flex-shrink-0 px-3 h-full flex items-center justify-between text-xs text-gray-300 bg-gray-900 border-r border-gray-700/30"
+                    style={{ width: LABEL_WIDTH }}
+                  >
+                    <div className="min-w-0">
+                      <div className="truncate">{track.name}</div>
+                      <div className="text-[10px] text-gray-500 font-mono truncate">
+                        {formatTrackValue(currentValue)}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => addKeyframeAt(track, currentTime)}
+                      className={`p-1 rounded hover:bg-gray-700 transition-colors ${
+                        animation ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'
+                      }`}
+                      title="Add keyframe at playhead"
+                    >
+                      <Diamond className="w-3 h-3" />
+                    </button>
+                  </div>
+
+                  <div
+                    className="flex-1 h-full relative"
+                    onDoubleClick={(e) => {
+                      const rect = e.currentTarget.getBoundingClientRect();
+                      addKeyframeAt(track, Math.max(0, Math.min((e.clientX - rect.left) / pixelsPerSecond, duration)));
+                    }}
+                    onClick={() => setSelectedKeyframe(null)}
+                  >
+                    <div
+                      className="absolute top-0 bottom-0 w-0.5 bg-yellow-400 pointer-events-none z-20"
+                      style={{ left: `${playheadPosition}px` }}
+                    ></div>
+                    <div className="relative h-full" style={{ width: `${duration * pixelsPerSecond}px`, minWidth: '100%' }}>
+                      {animation && animation.keyframes.length > 1 && (
+                        <div
+                          className="absolute top-1/2 h-px bg-yellow-400/30 pointer-events-none"
+                          style={{
+                            left: ((animation.delay || 0) + Math.min(...animation.keyframes.map(kf => kf.time))) * pixelsPerSecond,
+                            width: (Math.max(...animation.keyframes.map(kf => kf.time)) - Math.min(...animation.keyframes.map(kf => kf.time))) * pixelsPerSecond
+                          }}
+                        ></div>
+                      )}
+                      {animation?.keyframes.map((keyframe, index) => {
+                        const isSelected = selectedKeyframe?.animationId === animation.id && selectedKeyframe.index === index;
+                        return (
+                          <div
+                            key={index}
+                            className={`absolute top-1/2 w-3 h-3 rotate-45 -translate-x-1/2 -translate-y-1/2 cursor-ew-resize border z-10 ${
+                              isSelected ? 'bg-yellow-400 border-white' : 'bg-yellow-600 border-yellow-300 hover:bg-yellow-400'
+                            }`}
+                            style={{ left: ((animation.delay || 0) + keyframe.time) * pixelsPerSecond }}
+                            title={`${((animation.delay || 0) + keyframe.time).toFixed(2)}s`}
+                            onClick={(e) => e.stopPropagation()}
+                            onDoubleClick={(e) => {
+                              e.stopPropagation();
+                              onSeek((animation.delay || 0) + keyframe.time);
+                            }}
+                            onContextMenu={(e) => {
+                              e.preventDefault();
+                              onAnimationsChange(removeKeyframe(animations, animation.id, index));
+                              setSelectedKeyframe(null);
+                            }}
+                            onMouseDown={(e) => {
+                              if (e.button !== 0) return;
+                              e.stopPropagation();
+                              setSelectedKeyframe({ animationId: animation.id, index });
+                              setKeyframeDrag({
+                                animationId: animation.id,
+                                index,
+                                startX: e.clientX,
+                                startTime: (animation.delay || 0) + keyframe.time
+                              });
+                            }}
+                          ></div>
+                        );
+                      })}
                     </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
 
-            <div className="px-4 py-8 text-center">
+            <div className="px-4 py-3 text-center">
               <p className="text-xs text-gray-600">
-                Keyframe controls are disabled. Animation timeline is reserved for future implementation.
+                Double-click a lane to add a keyframe, drag diamonds to retime, right-click or press Delete to remove.
               </p>
             </div>
           </div>
         )}
       </div>
 
-      <div className="h-8 bg-gray-800/80 border-t border-gray-700/50 flex items-center px-4 gap-4">
-        <button className="text-xs text-gray-400 cursor-not-allowed" disabled>
-          Add Keyframe (Disabled)
-        </button>
-        <button className="text-xs text-gray-400 cursor-not-allowed" disabled>
-          Animation: None
-        </button>
+      <div className="h-8 bg-gray-800/80 border-t border-gray-700/50 flex items-center px-4 gap-3">
+        {selectedAnimation && selectedKeyframeData ? (
+          <>
+            <label className="flex items-center gap-1 text-xs text-gray-400">
+              Time
+              <input
+                type="number"
+                step={1 / fps}
+                min={0}
+                value={Number(((selectedAnimation.delay || 0) + selectedKeyframeData.time).toFixed(3))}
+                onChange={(e) => retimeSelectedKeyframe(Number(e.target.value))}
+                className="w-16 px-1.5 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:border-yellow-400"
+              />
+            </label>
+            {renderValueEditor()}
+            <select
+              value={selectedKeyframeData.easing || ''}
+              onChange={(e) => updateSelectedKeyframe({ easing: e.target.value || undefined })}
+              className="px-1.5 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:border-yellow-400"
+              title="Easing to the next keyframe"
+            >
+              <option value="">Default easing</option>
+              {EASING_NAMES.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <button
+              onClick={deleteSelectedKeyframe}
+              className="ml-auto flex items-center gap-1 text-xs text-gray-400 hover:text-red-400 transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete Keyframe
+            </button>
+          </>
+        ) : (
+          <span className="text-xs text-gray-400">
+            {element
+              ? `${elementAnimations.length} animated propert${elementAnimations.length === 1 ? 'y' : 'ies'}`
+              : 'Animation: None'}
+          </span>
+        )}
       </div>
     </div>
   );
 };
 
+const formatTrackValue = (value: unknown): string => {
+  if (typeof value === 'number') return `${Math.round(value * 100) / 100}`;
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object') {
+    return Object.values(value).map(n => `${Math.round(Number(n ?? 0) * 100) / 100}`).join(', ');
+  }
+  return '—';
+};
+
 export default AnimationTimeline;
@@ -1,22 +1,8 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useCallback } from 'react';
+import { Scissors, Lock, Unlock, Eye, EyeOff, Trash2 } from 'lucide-react';
 import { DesignElement } from '../../types/design';
-
-interface Clip {
-  id: string;
-  name: string;
-  linkedShapeID: string;
-  start: number;
-  duration: number;
-  color: string;
-  locked: boolean;
-  muted: boolean;
-}
-
-interface Track {
-  id: string;
-  layerID: string;
-  clips: Clip[];
-}
+import { TimelineClip, TimelineClips, LoopRange } from '../../types/timeline';
+import { getTrackClips, moveClip, trimClip, splitClip, removeClip, putClip } from '../../utils/clipUtils';
 
 interface GeneralTimelineProps {
   elements: DesignElement[];
@@ -24,61 +10,108 @@ interface GeneralTimelineProps {
   duration: number;
   fps: number;
   onSeek: (time: number) => void;
-  onClipSelect?: (clipId: string) => void;
+  clips: TimelineClips;
+  onClipsChange: (clips: TimelineClips) => void;
+  selectedClipId?: string | null;
+  onClipSelect?: (clipId: string, elementId: string) => void;
+  loopRange?: LoopRange | null;
+}
+
+type ClipDragMode = 'move' | 'trim-start' | 'trim-end';
+
+interface ClipDrag {
+  mode: ClipDragMode;
+  clip: TimelineClip;
+  startX: number;
 }
 
+const LABEL_WIDTH = 128;
+
 const GeneralTimeline: React.FC<GeneralTimelineProps> = ({
   elements,
   currentTime,
   duration,
   fps = 30,
   onSeek,
-  onClipSelect
+  clips,
+  onClipsChange,
+  selectedClipId,
+  onClipSelect,
+  loopRange
 }) => {
-  const [pixelsPerSecond, setPixelsPerSecond] = useState(50);
+  const [pixelsPerSecond] = useState(50);
   const [isDraggingPlayhead, setIsDraggingPlayhead] = useState(false);
-  const [tracks, setTracks] = useState<Track[]>([]);
+  const [snapToFrames, setSnapToFrames] = useState(true);
+  const [clipDrag, setClipDrag] = useState<ClipDrag | null>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
   const rulerRef = useRef<HTMLDivElement>(null);
 
+  // Latest clips for document-level drag handlers
+  const clipsRef = useRef(clips);
+  clipsRef.current = clips;
+
+  const snapTime = useCallback(
+    (time: number) => (snapToFrames ? Math.round(time * fps) / fps : time),
+    [snapToFrames, fps]
+  );
+
   useEffect(() => {
-    const newTracks: Track[] = elements.map((element, index) => {
-      const clip: Clip = {
-        id: `clip-${element.id}`,
-        name: element.name || `Layer ${index + 1}`,
-        linkedShapeID: element.id,
-        start: 0,
-        duration: 5,
-        color: element.fill || '#60a5fa',
-        locked: false,
-        muted: false
-      };
-
-      return {
-        id: `track-${element.id}`,
-        layerID: element.id,
-        clips: [clip]
-      };
-    });
-
-    setTracks(newTracks);
-  }, [elements]);
+    if (!clipDrag) return;
 
-  const handleRulerClick = (e: React.MouseEvent) => {
+    const handleMouseMove = (e: MouseEvent) => {
+      const delta = (e.clientX - clipDrag.startX) / pixelsPerSecond;
+      const { clip } = clipDrag;
+
+      if (clipDrag.mode === 'move') {
+        const maxStart = Math.max(0, duration - clip.duration);
+        onClipsChange(moveClip(clipsRef.current, clip, Math.min(snapTime(clip.start + delta), maxStart)));
+      } else if (clipDrag.mode === 'trim-start') {
+        onClipsChange(trimClip(clipsRef.current, clip, 'start', snapTime(clip.start + delta)));
+      } else {
+        const end = clip.start + clip.duration;
+        onClipsChange(trimClip(clipsRef.current, clip, 'end', Math.min(snapTime(end + delta), duration)));
+      }
+    };
+
+    const handleMouseUp = () => setClipDrag(null);
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [clipDrag, duration, pixelsPerSecond, onClipsChange, snapTime]);
+
+  // The ruler follows the tracks' horizontal scroll, so its offset counts toward the time under the cursor
+  const seekToRulerX = (clientX: number) => {
     if (rulerRef.current) {
       const rect = rulerRef.current.getBoundingClientRect();
-      const x = e.clientX - rect.left;
+      const x = clientX - rect.left + rulerRef.current.scrollLeft;
       const time = x / pixelsPerSecond;
       onSeek(Math.max(0, Math.min(time, duration)));
     }
   };
 
+  const handleRulerClick = (e: React.MouseEvent) => {
+    seekToRulerX(e.clientX);
+  };
+
   const handlePlayheadDrag = (e: React.MouseEvent) => {
-    if (isDraggingPlayhead && rulerRef.current) {
-      const rect = rulerRef.current.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const time = x / pixelsPerSecond;
-      onSeek(Math.max(0, Math.min(time, duration)));
+    if (isDraggingPlayhead) {
+      seekToRulerX(e.clientX);
+    }
+  };
+
+  const handleTracksScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (rulerRef.current) {
+      rulerRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
+
+  const handleRulerWheel = (e: React.WheelEvent) => {
+    if (timelineRef.current) {
+      timelineRef.current.scrollLeft += e.deltaX || (e.shiftKey ? e.deltaY : 0);
     }
   };
 
@@ -118,8 +151,62 @@ const GeneralTimeline: React.FC<GeneralTimelineProps> = ({
 
   const playheadPosition = currentTime * pixelsPerSecond;
 
+  const tracks = elements.map(element => ({
+    element,
+    clips: getTrackClips(clips, element.id, duration)
+  }));
+
+  const selectedClip = tracks
+    .flatMap(track => track.clips)
+    .find(clip => clip.id === selectedClipId);
+
+  const startClipDrag = (e: React.MouseEvent, clip: TimelineClip, mode: ClipDragMode) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    onClipSelect?.(clip.id, clip.elementId);
+    if (!clip.locked) {
+      setClipDrag({ mode, clip, startX: e.clientX });
+    }
+  };
+
+  const handleSplit = () => {
+    if (selectedClip) {
+      onClipsChange(splitClip(clips, selectedClip, snapTime(currentTime)));
+    }
+  };
+
+  const handleDeleteClip = () => {
+    if (selectedClip && !selectedClip.locked) {
+      onClipsChange(removeClip(clips, selectedClip.id));
+    }
+  };
+
+  const toggleClipFlag = (flag: 'locked' | 'muted') => {
+    if (selectedClip) {
+      onClipsChange(putClip(clips, { ...selectedClip, [flag]: !selectedClip[flag] }));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!selectedClip) return;
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      // Keep the global shortcut from deleting the layer as well
+      e.preventDefault();
+      e.stopPropagation();
+      handleDeleteClip();
+    } else if (e.key.toLowerCase() === 's' && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      e.stopPropagation();
+      handleSplit();
+    }
+  };
+
   return (
-    <div className="h-full bg-gray-900 border-t border-r border-gray-700/50 flex flex-col relative">
+    <div
+      className="h-full bg-gray-900 border-t border-r border-gray-700/50 flex flex-col relative focus:outline-none"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
       <div className="h-8 bg-gray-800/80 border-b border-gray-700/50 flex items-center px-4 justify-between">
         <div className="text-sm font-medium text-gray-300">General Timeline</div>
         <div className="text-xs text-gray-400">
@@ -127,16 +214,29 @@ const GeneralTimeline: React.FC<GeneralTimelineProps> = ({
         </div>
       </div>
 
-      <div
-        ref={rulerRef}
-        className="h-10 bg-gray-850 border-b border-gray-700/50 relative cursor-pointer overflow-hidden"
-        onClick={handleRulerClick}
-        onMouseMove={handlePlayheadDrag}
-        onMouseUp={() => setIsDraggingPlayhead(false)}
-        onMouseLeave={() => setIsDraggingPlayhead(false)}
-      >
-        <div className="absolute inset-0 overflow-x-auto">
+      <div className="h-10 bg-gray-850 border-b border-gray-700/50 flex">
+        <div className="flex-shrink-0 border-r border-gray-700/30" style={{ width: LABEL_WIDTH }}></div>
+        <div
+          ref={rulerRef}
+          className="flex-1 relative cursor-pointer overflow-hidden"
+          onClick={handleRulerClick}
+          onWheel={handleRulerWheel}
+          onMouseMove={handlePlayheadDrag}
+          onMouseUp={() => setIsDraggingPlayhead(false)}
+          onMouseLeave={() => setIsDraggingPlayhead(false)}
+        >
           <div className="relative h-full" style={{ width: `${duration * pixelsPerSecond}px`, minWidth: '100%' }}>
+            {/* Active loop region */}
+            {loopRange && (
+              <div
+                className="absolute top-0 bottom-0 bg-yellow-400/15 border-x border-yellow-400/60 pointer-events-none"
+                style={{
+                  left: `${loopRange.start * pixelsPerSecond}px`,
+                  width: `${(loopRange.end - loopRange.start) * pixelsPerSecond}px`
+                }}
+              />
+            )}
+
             {renderRulerTicks()}
 
             {/* Playhead line in ruler */}
@@ -151,24 +251,28 @@ const GeneralTimeline: React.FC<GeneralTimelineProps> = ({
         </div>
       </div>
 
-      <div ref={timelineRef} className="flex-1 overflow-auto relative">
+      <div ref={timelineRef} className="flex-1 overflow-auto relative" onScroll={handleTracksScroll}>
         {tracks.length === 0 ? (
           <div className="h-full flex items-center justify-center text-gray-500 text-sm">
             No layers available. Create shapes to see timeline clips.
           </div>
         ) : (
           <div className="relative">
-            {tracks.map((track, index) => (
+            {tracks.map(({ element, clips: trackClips }, index) => (
               <div
-                key={track.id}
+                key={element.id}
                 className="h-12 border-b border-gray-700/30 flex items-center relative hover:bg-gray-800/30"
+                style={{ minWidth: LABEL_WIDTH + duration * pixelsPerSecond }}
               >
-                <div className="w-32 px-3 text-xs text-gray-300 truncate border-r border-gray-700/30">
-                  {track.clips[0]?.name || `Track ${index + 1}`}
+                <div
+                  className="sticky left-0 z-30 flex-shrink-0 self-stretch flex items-center px-3 text-xs text-gray-300 bg-gray-900 border-r border-gray-700/30"
+                  style={{ width: LABEL_WIDTH }}
+                >
+                  <span className="truncate">{element.name || `Layer ${index + 1}`}</span>
                 </div>
 
                 <div
-                  className="flex-1 relative cursor-pointer"
+                  className="flex-1 h-full relative cursor-pointer"
                   onClick={(e) => {
                     const rect = e.currentTarget.getBoundingClientRect();
                     const x = e.clientX - rect.left;
@@ -181,34 +285,48 @@ const GeneralTimeline: React.FC<GeneralTimelineProps> = ({
                     className="absolute top-0 bottom-0 w-0.5 bg-yellow-400 pointer-events-none z-20"
                     style={{ left: `${playheadPosition}px` }}
                   ></div>
-                  <div className="absolute inset-0 overflow-x-auto">
-                    <div style={{ width: `${duration * pixelsPerSecond}px`, minWidth: '100%', height: '100%' }}>
-                      {track.clips.map(clip => {
-                        const clipX = clip.start * pixelsPerSecond;
-                        const clipWidth = clip.duration * pixelsPerSecond;
-                        const isUnderPlayhead = currentTime >= clip.start && currentTime <= clip.start + clip.duration;
-
-                        return (
-                          <div
-                            key={clip.id}
-                            className={`absolute top-1 bottom-1 rounded cursor-pointer transition-all ${
-                              isUnderPlayhead ? 'ring-2 ring-yellow-400' : ''
-                            }`}
-                            style={{
-                              left: `${clipX}px`,
-                              width: `${clipWidth}px`,
-                              backgroundColor: clip.color,
-                              opacity: clip.muted ? 0.4 : 0.8
-                            }}
-                            onClick={() => onClipSelect?.(clip.id)}
-                          >
-                            <div className="px-2 py-1 text-xs text-white truncate">
-                              {clip.name}
-                            </div>
+                  <div className="relative h-full" style={{ width: `${duration * pixelsPerSecond}px`, minWidth: '100%' }}>
+                    {trackClips.map(clip => {
+                      const clipX = clip.start * pixelsPerSecond;
+                      const clipWidth = clip.duration * pixelsPerSecond;
+                      const isUnderPlayhead = currentTime >= clip.start && currentTime <= clip.start + clip.duration;
+                      const isSelected = clip.id === selectedClipId;
+
+                      return (
+                        <div
+                          key={clip.id}
+                          className={`absolute top-1 bottom-1 rounded overflow-hidden ${
+                            clip.locked ? 'cursor-not-allowed' : 'cursor-grab'
+                          } ${isSelected ? 'ring-2 ring-white' : isUnderPlayhead ? 'ring-2 ring-yellow-400' : ''}`}
+                          style={{
+                            left: `${clipX}px`,
+                            width: `${clipWidth}px`,
+                            backgroundColor: element.fill && element.fill !== 'transparent' ? element.fill : '#60a5fa',
+                            opacity: clip.muted ? 0.4 : 0.8
+                          }}
+                          onClick={(e) => e.stopPropagation()}
+                          onMouseDown={(e) => startClipDrag(e, clip, 'move')}
+                        >
+                          {!clip.locked && (
+                            <>
+                              <div
+                                className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-black/30 hover:bg-white/60"
+                                onMouseDown={(e) => startClipDrag(e, clip, 'trim-start')}
+                              ></div>
+                              <div
+                                className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-black/30 hover:bg-white/60"
+                                onMouseDown={(e) => startClipDrag(e, clip, 'trim-end')}
+                              ></div>
+                            </>
+                          )}
+                          <div className="px-2 py-1 text-xs text-white truncate flex items-center gap-1 pointer-events-none">
+                            {clip.locked && <Lock className="w-3 h-3 flex-shrink-0" />}
+                            {clip.muted && <EyeOff className="w-3 h-3 flex-shrink-0" />}
+                            <span className="truncate">{element.name || `Layer ${index + 1}`}</span>
                           </div>
-                        );
-                      })}
-                    </div>
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               </div>
@@ -218,12 +336,51 @@ const GeneralTimeline: React.FC<GeneralTimelineProps> = ({
       </div>
 
       <div className="h-8 bg-gray-800/80 border-t border-gray-700/50 flex items-center px-4 gap-4">
-        <button className="text-xs text-gray-400 hover:text-white transition-colors">
-          Zoom: {pixelsPerSecond}px/s
-        </button>
-        <button className="text-xs text-gray-400 hover:text-white transition-colors">
-          Snap: On
+        <button
+          onClick={() => setSnapToFrames(!snapToFrames)}
+          className="text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          Snap: {snapToFrames ? 'On' : 'Off'}
         </button>
+        {selectedClip && (
+          <>
+            <span className="text-xs text-gray-500 font-mono">
+              {selectedClip.start.toFixed(2)}s – {(selectedClip.start + selectedClip.duration).toFixed(2)}s
+            </span>
+            <button
+              onClick={handleSplit}
+              disabled={selectedClip.locked}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+              title="Split at playhead (S)"
+            >
+              <Scissors className="w-3 h-3" />
+              Split
+            </button>
+            <button
+              onClick={() => toggleClipFlag('locked')}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              {selectedClip.locked ? <Unlock className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+              {selectedClip.locked ? 'Unlock' : 'Lock'}
+            </button>
+            <button
+              onClick={() => toggleClipFlag('muted')}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              {selectedClip.muted ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+              {selectedClip.muted ? 'Unmute' : 'Mute'}
+            </button>
+            <button
+              onClick={handleDeleteClip}
+              disabled={selectedClip.locked}
+              className="ml-auto flex items-center gap-1 text-xs text-gray-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+              title="Delete clip (a layer without clips is visible for the whole timeline)"
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
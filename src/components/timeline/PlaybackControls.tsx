@@ -0,0 +1,110 @@
+import React from 'react';
+import { Play, Pause, SkipBack, SkipForward, StepBack, StepForward, Repeat, X } from 'lucide-react';
+import { PlaybackState, PLAYBACK_SPEEDS } from '../../hooks/usePlayback';
+
+interface PlaybackControlsProps {
+  playback: PlaybackState;
+}
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ playback }) => {
+  const {
+    currentTime,
+    duration,
+    fps,
+    isPlaying,
+    speed,
+    loopEnabled,
+    loopRange
+  } = playback;
+
+  const formatTime = (seconds: number): string => {
+    const m = Math.floor(seconds / 60);
+    const s = Math.floor(seconds % 60);
+    const f = Math.floor(((seconds % 1) * fps) + 1e-6);
+    return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}:${f.toString().padStart(2, '0')}`;
+  };
+
+  const setLoopIn = () => {
+    playback.setLoopRange({ start: currentTime, end: loopRange?.end ?? duration });
+    playback.setLoopEnabled(true);
+  };
+
+  const setLoopOut = () => {
+    playback.setLoopRange({ start: loopRange?.start ?? 0, end: currentTime });
+    playback.setLoopEnabled(true);
+  };
+
+  const buttonClass = 'p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors';
+
+  return (
+    <div className="h-9 bg-gray-800/80 border-t border-gray-700/50 flex items-center px-4 gap-4">
+      <div className="flex items-center gap-1">
+        <button onClick={playback.goToStart} className={buttonClass} title="Go to start">
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button onClick={() => playback.stepFrames(-1)} className={buttonClass} title="Previous frame (←)">
+          <StepBack className="w-4 h-4" />
+        </button>
+        <button
+          onClick={playback.togglePlay}
+          className="p-1.5 rounded bg-yellow-400 text-gray-900 hover:bg-yellow-300 transition-colors"
+          title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => playback.stepFrames(1)} className={buttonClass} title="Next frame (→)">
+          <StepForward className="w-4 h-4" />
+        </button>
+        <button onClick={playback.goToEnd} className={buttonClass} title="Go to end">
+          <SkipForward className="w-4 h-4" />
+        </button>
+      </div>
+
+      <span className="text-xs text-gray-300 font-mono">
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </span>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => playback.setLoopEnabled(!loopEnabled)}
+          className={`${buttonClass} ${loopEnabled ? 'text-yellow-400' : ''}`}
+          title={loopEnabled ? 'Disable loop' : 'Enable loop'}
+        >
+          <Repeat className="w-4 h-4" />
+        </button>
+        <button onClick={setLoopIn} className="text-xs text-gray-400 hover:text-white transition-colors" title="Set loop start at playhead">
+          In
+        </button>
+        <button onClick={setLoopOut} className="text-xs text-gray-400 hover:text-white transition-colors" title="Set loop end at playhead">
+          Out
+        </button>
+        {loopRange && (
+          <>
+            <span className="text-xs text-gray-500 font-mono">
+              {formatTime(loopRange.start)} – {formatTime(loopRange.end)}
+            </span>
+            <button onClick={() => playback.setLoopRange(null)} className={buttonClass} title="Clear loop range">
+              <X className="w-3 h-3" />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="ml-auto flex items-center gap-2">
+        <span className="text-xs text-gray-500">Speed</span>
+        <select
+          value={speed}
+          onChange={(e) => playback.setSpeed(Number(e.target.value))}
+          className="bg-gray-900 border border-gray-700 rounded text-xs text-gray-300 px-1 py-0.5 focus:outline-none"
+        >
+          {PLAYBACK_SPEEDS.map(value => (
+            <option key={value} value={value}>{value}×</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">{fps} fps</span>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackControls;
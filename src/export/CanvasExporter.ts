@@ -1,93 +1,122 @@
-import { toPng, toJpeg } from 'html-to-image';
 import { DesignElement } from '../types/design';
+import { BackgroundConfig } from '../types/background';
+import { ARTBOARD_COLOR, SceneRenderOptions, SceneRenderer } from './SceneRenderer';
 
 export class CanvasExporter {
+  private renderer = new SceneRenderer();
+
   async exportFullCanvas(
     elements: DesignElement[],
-    width: number,
-    height: number,
+    canvasWidth: number,
+    canvasHeight: number,
+    outputWidth: number,
+    outputHeight: number,
     format: 'png' | 'jpeg',
     projectName: string,
-    quality: number = 0.95
+    quality: number = 0.95,
+    background?: BackgroundConfig
   ): Promise<void> {
-    const canvasElement = document.getElementById('canvas-artboard');
-
-    if (!canvasElement) {
-      throw new Error('Canvas element not found');
-    }
-
     const pixelRatio = 2;
 
     try {
-      const exportFunction = format === 'jpeg' ? toJpeg : toPng;
-
-      const computedStyle = window.getComputedStyle(canvasElement);
-      const hasBackground = computedStyle.backgroundImage !== 'none' ||
-                            (computedStyle.backgroundColor &&
-                             computedStyle.backgroundColor !== 'transparent' &&
-                             computedStyle.backgroundColor !== 'rgba(0, 0, 0, 0)');
-
-      const backgroundColor = hasBackground ? undefined : (format === 'jpeg' ? '#1F2937' : 'transparent');
-
-      const dataUrl = await exportFunction(canvasElement, {
-        cacheBust: true,
-        backgroundColor,
-        pixelRatio,
-        width,
-        height,
-        quality,
-        style: {
-          transform: 'scale(1)',
-          transformOrigin: 'top left'
-        }
-      });
+      const blob = await this.renderer.renderToBlob(
+        elements,
+        {
+          width: canvasWidth,
+          height: canvasHeight,
+          outputWidth: outputWidth * pixelRatio,
+          outputHeight: outputHeight * pixelRatio,
+          background,
+          // The artboard color shows through when the background is off
+          backgroundColor: ARTBOARD_COLOR
+        },
+        format,
+        quality
+      );
 
+      const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.download = `${projectName}_canvas.${format}`;
-      link.href = dataUrl;
+      link.href = url;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
     } catch (error) {
       console.error('Canvas export failed:', error);
       throw new Error('Failed to export canvas. Try reducing resolution or element count.');
+    } finally {
+      this.renderer.clearImageCache();
     }
   }
 
+  /**
+   * Render one timeline frame from the model, scaled to the output size
+   * Used to produce frames for video, GIF and PNG sequence export
+   */
+  async renderFrame(
+    elements: DesignElement[],
+    canvasWidth: number,
+    canvasHeight: number,
+    outputWidth: number,
+    outputHeight: number,
+    background?: BackgroundConfig,
+    backgroundColor?: string
+  ): Promise<OffscreenCanvas> {
+    return this.renderer.render(elements, {
+      width: canvasWidth,
+      height: canvasHeight,
+      outputWidth,
+      outputHeight,
+      background,
+      backgroundColor
+    });
+  }
+
+  /**
+   * Render the scene to an encoded image, e.g. for one export preset
+   */
+  async renderImage(
+    elements: DesignElement[],
+    options: SceneRenderOptions,
+    format: 'png' | 'jpeg',
+    quality?: number
+  ): Promise<Blob> {
+    return this.renderer.renderToBlob(elements, options, format, quality);
+  }
+
+  /**
+   * Release images decoded for frame and preset rendering
+   */
+  releaseImages() {
+    this.renderer.clearImageCache();
+  }
+
   async exportCanvasRegion(
+    elements: DesignElement[],
     x: number,
     y: number,
     width: number,
     height: number,
     format: 'png' | 'jpeg'
   ): Promise<Blob> {
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-
-    if (!ctx) {
-      throw new Error('Failed to get canvas context');
-    }
-
-    const canvasElement = document.getElementById('canvas-artboard');
-
-    if (!canvasElement) {
-      throw new Error('Canvas element not found');
-    }
-
     const pixelRatio = 2;
-    const exportFunction = format === 'jpeg' ? toJpeg : toPng;
+    const shifted = elements.map(element => ({ ...element, x: element.x - x, y: element.y - y }));
 
-    const dataUrl = await exportFunction(canvasElement, {
-      cacheBust: true,
-      backgroundColor: format === 'jpeg' ? '#1F2937' : 'transparent',
-      pixelRatio,
-      width,
-      height
-    });
-
-    const response = await fetch(dataUrl);
-    return response.blob();
+    try {
+      return await this.renderer.renderToBlob(
+        shifted,
+        {
+          width,
+          height,
+          outputWidth: width * pixelRatio,
+          outputHeight: height * pixelRatio,
+          backgroundColor: format === 'jpeg' ? ARTBOARD_COLOR : undefined
+        },
+        format
+      );
+    } finally {
+      this.renderer.clearImageCache();
+    }
   }
 }
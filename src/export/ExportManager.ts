@@ -2,6 +2,12 @@ import { DesignElement } from '../types/design';
 import { CanvasExporter } from './CanvasExporter';
 import { ShapeExporter } from './ShapeExporter';
 import { ZipExporter } from './ZipExporter';
+import { VideoExporter } from './VideoExporter';
+import { GifEncoder } from './GifEncoder';
+import { SvgExporter } from './SvgExporter';
+import { BackgroundConfig } from '../types/background';
+import { ARTBOARD_COLOR } from './SceneRenderer';
+import { ExportPreset, formatPresetFileName, getPresetSize } from '../types/export';
 
 export interface ExportProgress {
   current: number;
@@ -11,7 +17,24 @@ export interface ExportProgress {
   error?: string;
 }
 
-export type ExportMode = 'canvas' | 'zip' | 'selection';
+export type ExportMode = 'canvas' | 'zip' | 'selection' | 'video' | 'gif' | 'png-sequence' | 'svg' | 'presets';
+
+// The animated scene over the timeline, rendered frame by frame for video export
+export interface VideoExportSource {
+  duration: number;
+  fps: number;
+  width: number;
+  height: number;
+  background?: BackgroundConfig;
+  // Elements with animations and clip visibility applied at the given time
+  getElementsAt: (time: number) => DesignElement[];
+}
+
+// Inclusive frame numbers on the timeline (at the source fps)
+export interface FrameRange {
+  start: number;
+  end: number;
+}
 
 export interface ExportConfig {
   mode: ExportMode;
@@ -22,18 +45,25 @@ export interface ExportConfig {
   customHeight?: number;
   format?: 'png' | 'jpeg';
   quality?: number;
+  fps?: number;
+  frameRange?: FrameRange;
+  loopCount?: number; // GIF plays; 0 loops forever
 }
 
 export class ExportManager {
   private canvasExporter: CanvasExporter;
   private shapeExporter: ShapeExporter;
   private zipExporter: ZipExporter;
+  private videoExporter: VideoExporter;
+  private svgExporter: SvgExporter;
   private progressCallback?: (progress: ExportProgress) => void;
 
   constructor() {
     this.canvasExporter = new CanvasExporter();
     this.shapeExporter = new ShapeExporter();
     this.zipExporter = new ZipExporter();
+    this.videoExporter = new VideoExporter();
+    this.svgExporter = new SvgExporter();
   }
 
   setProgressCallback(callback: (progress: ExportProgress) => void) {
@@ -53,7 +83,11 @@ export class ExportManager {
     }
   }
 
-  async exportCanvas(config: ExportConfig, elements: DesignElement[]): Promise<void> {
+  async exportCanvas(
+    config: ExportConfig,
+    elements: DesignElement[],
+    background?: BackgroundConfig
+  ): Promise<void> {
     try {
       this.updateProgress({
         status: 'exporting',
@@ -68,11 +102,14 @@ export class ExportManager {
 
       await this.canvasExporter.exportFullCanvas(
         elements,
+        config.canvasWidth,
+        config.canvasHeight,
         width,
         height,
         format,
         config.projectName,
-        config.quality
+        config.quality,
+        background
       );
 
       this.updateProgress({
@@ -93,6 +130,141 @@ export class ExportManager {
     }
   }
 
+  async exportSvg(
+    config: ExportConfig,
+    elements: DesignElement[],
+    background?: BackgroundConfig
+  ): Promise<void> {
+    try {
+      this.updateProgress({
+        status: 'exporting',
+        current: 0,
+        total: 1,
+        message: 'Building SVG...'
+      });
+
+      const blob = await this.svgExporter.exportSvg(elements, {
+        width: config.canvasWidth,
+        height: config.canvasHeight,
+        outputWidth: config.customWidth,
+        outputHeight: config.customHeight,
+        background
+      });
+
+      this.downloadBlob(blob, `${config.projectName}.svg`);
+
+      this.updateProgress({
+        status: 'completed',
+        current: 1,
+        total: 1,
+        message: 'SVG exported successfully'
+      });
+    } catch (error) {
+      this.updateProgress({
+        status: 'error',
+        current: 0,
+        total: 1,
+        message: 'SVG export failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Render the artboard once per preset and download every output in one ZIP
+   */
+  async exportPresets(
+    config: ExportConfig,
+    elements: DesignElement[],
+    presets: ExportPreset[],
+    background?: BackgroundConfig
+  ): Promise<void> {
+    const total = presets.length;
+
+    try {
+      if (total === 0) {
+        throw new Error('No export presets selected');
+      }
+
+      this.updateProgress({
+        status: 'exporting',
+        current: 0,
+        total,
+        message: 'Starting preset export...'
+      });
+
+      const exportedBlobs: { name: string; blob: Blob }[] = [];
+      const usedNames = new Set<string>();
+
+      for (let i = 0; i < total; i++) {
+        const preset = presets[i];
+        const { width, height } = getPresetSize(preset, config.canvasWidth, config.canvasHeight);
+
+        this.updateProgress({
+          status: 'exporting',
+          current: i,
+          total,
+          message: `Rendering ${preset.name} (${width}×${height})`
+        });
+
+        const blob = await this.canvasExporter.renderImage(
+          elements,
+          {
+            width: config.canvasWidth,
+            height: config.canvasHeight,
+            outputWidth: width,
+            outputHeight: height,
+            fit: preset.fit,
+            background,
+            backgroundColor: ARTBOARD_COLOR
+          },
+          preset.format,
+          preset.quality
+        );
+
+        // Presets may share a pattern, so keep every file in the archive
+        const fileName = formatPresetFileName(preset, { project: config.projectName, width, height });
+        let uniqueName = fileName;
+        for (let n = 2; usedNames.has(uniqueName); n++) {
+          uniqueName = fileName.replace(/(\.[a-z]+)$/, `_${n}$1`);
+        }
+        usedNames.add(uniqueName);
+        exportedBlobs.push({ name: uniqueName, blob });
+      }
+
+      this.updateProgress({
+        status: 'exporting',
+        current: total,
+        total,
+        message: 'Creating ZIP file...'
+      });
+
+      await this.zipExporter.createAndDownloadZip(
+        exportedBlobs,
+        `${config.projectName}_export.zip`
+      );
+
+      this.updateProgress({
+        status: 'completed',
+        current: total,
+        total,
+        message: `Exported ${total} preset${total > 1 ? 's' : ''}`
+      });
+    } catch (error) {
+      this.updateProgress({
+        status: 'error',
+        current: 0,
+        total,
+        message: 'Preset export failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    } finally {
+      this.canvasExporter.releaseImages();
+    }
+  }
+
   async exportShapesAsZip(
     config: ExportConfig,
     elements: DesignElement[]
@@ -127,8 +299,7 @@ export class ExportManager {
         const blob = await this.shapeExporter.exportShape(
           shape,
           config.canvasWidth,
-          config.canvasHeight,
-          elements
+          config.canvasHeight
         );
 
         const fileName = `${config.projectName}_shape_${String(i).padStart(2, '0')}.png`;
@@ -162,13 +333,14 @@ export class ExportManager {
         error: error instanceof Error ? error.message : 'Unknown error'
       });
       throw error;
+    } finally {
+      this.shapeExporter.finish();
     }
   }
 
   async exportSelection(
     config: ExportConfig,
-    selectedElements: DesignElement[],
-    allElements: DesignElement[]
+    selectedElements: DesignElement[]
   ): Promise<void> {
     if (selectedElements.length === 0) {
       throw new Error('No elements selected');
@@ -186,8 +358,7 @@ export class ExportManager {
         const blob = await this.shapeExporter.exportShape(
           selectedElements[0],
           config.canvasWidth,
-          config.canvasHeight,
-          allElements
+          config.canvasHeight
         );
 
         const url = URL.createObjectURL(blob);
@@ -214,6 +385,8 @@ export class ExportManager {
           error: error instanceof Error ? error.message : 'Unknown error'
         });
         throw error;
+      } finally {
+        this.shapeExporter.finish();
       }
     } else {
       const total = selectedElements.length;
@@ -241,8 +414,7 @@ export class ExportManager {
           const blob = await this.shapeExporter.exportShape(
             shape,
             config.canvasWidth,
-            config.canvasHeight,
-            allElements
+            config.canvasHeight
           );
 
           const fileName = `${shape.name}.png`;
@@ -276,7 +448,244 @@ export class ExportManager {
           error: error instanceof Error ? error.message : 'Unknown error'
         });
         throw error;
+      } finally {
+        this.shapeExporter.finish();
+      }
+    }
+  }
+
+  private downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Timeline span to render in seconds, end exclusive
+   * Defaults to the whole timeline when no frame range is configured
+   */
+  private getTimeRange(config: ExportConfig, source: VideoExportSource): { start: number; end: number } {
+    const lastFrame = Math.max(0, Math.ceil(source.duration * source.fps) - 1);
+    const range = config.frameRange || { start: 0, end: lastFrame };
+    const first = Math.max(0, Math.min(lastFrame, Math.round(Math.min(range.start, range.end))));
+    const last = Math.max(first, Math.min(lastFrame, Math.round(Math.max(range.start, range.end))));
+    return {
+      start: first / source.fps,
+      end: (last + 1) / source.fps
+    };
+  }
+
+  private getFrameTimes(config: ExportConfig, source: VideoExportSource, fps: number): number[] {
+    const { start, end } = this.getTimeRange(config, source);
+    const count = Math.max(1, Math.round((end - start) * fps));
+    return Array.from({ length: count }, (_, i) => start + i / fps);
+  }
+
+  private renderSourceFrame(
+    config: ExportConfig,
+    source: VideoExportSource,
+    time: number,
+    width: number,
+    height: number,
+    backgroundColor?: string
+  ): Promise<OffscreenCanvas> {
+    return this.canvasExporter.renderFrame(
+      source.getElementsAt(time),
+      config.canvasWidth,
+      config.canvasHeight,
+      width,
+      height,
+      source.background,
+      backgroundColor
+    );
+  }
+
+  async exportVideo(config: ExportConfig, source: VideoExportSource): Promise<void> {
+    const fps = config.fps || source.fps;
+    const frameTimes = this.getFrameTimes(config, source, fps);
+    const total = frameTimes.length;
+
+    try {
+      if (!this.videoExporter.isSupported()) {
+        throw new Error('Video encoding is not supported in this browser');
+      }
+
+      const width = config.customWidth || source.width;
+      const height = config.customHeight || source.height;
+
+      this.updateProgress({
+        status: 'exporting',
+        current: 0,
+        total,
+        message: 'Starting video export...'
+      });
+
+      const blob = await this.videoExporter.encodeWebM({
+        width,
+        height,
+        fps,
+        frameCount: total,
+        renderFrame: async (frameIndex) => {
+          const time = frameTimes[frameIndex];
+          this.updateProgress({
+            status: 'exporting',
+            current: frameIndex,
+            total,
+            message: `Rendering frame ${frameIndex + 1}/${total}`
+          });
+
+          return this.renderSourceFrame(config, source, time, width, height, ARTBOARD_COLOR);
+        }
+      });
+
+      this.updateProgress({
+        status: 'exporting',
+        current: total,
+        total,
+        message: 'Finalizing video...'
+      });
+
+      this.downloadBlob(blob, `${config.projectName}.webm`);
+
+      this.updateProgress({
+        status: 'completed',
+        current: total,
+        total,
+        message: `Exported ${total} frames at ${fps} fps`
+      });
+    } catch (error) {
+      this.updateProgress({
+        status: 'error',
+        current: 0,
+        total,
+        message: 'Video export failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    } finally {
+      this.canvasExporter.releaseImages();
+    }
+  }
+
+  async exportGif(config: ExportConfig, source: VideoExportSource): Promise<void> {
+    const fps = config.fps || source.fps;
+    const frameTimes = this.getFrameTimes(config, source, fps);
+    const total = frameTimes.length;
+
+    try {
+      const width = Math.round(config.customWidth || source.width);
+      const height = Math.round(config.customHeight || source.height);
+      const encoder = new GifEncoder({ width, height, loopCount: config.loopCount ?? 0 });
+
+      for (let i = 0; i < total; i++) {
+        this.updateProgress({
+          status: 'exporting',
+          current: i,
+          total,
+          message: `Rendering frame ${i + 1}/${total}`
+        });
+
+        const frame = await this.renderSourceFrame(config, source, frameTimes[i], width, height, ARTBOARD_COLOR);
+
+        const ctx = frame.getContext('2d');
+        if (!ctx) {
+          throw new Error('Failed to get canvas context');
+        }
+        encoder.addFrame(ctx.getImageData(0, 0, width, height).data, 1000 / fps);
+      }
+
+      this.updateProgress({
+        status: 'exporting',
+        current: total,
+        total,
+        message: 'Writing GIF...'
+      });
+
+      this.downloadBlob(encoder.finish(), `${config.projectName}.gif`);
+
+      this.updateProgress({
+        status: 'completed',
+        current: total,
+        total,
+        message: `Exported ${total}-frame GIF at ${fps} fps`
+      });
+    } catch (error) {
+      this.updateProgress({
+        status: 'error',
+        current: 0,
+        total,
+        message: 'GIF export failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    } finally {
+      this.canvasExporter.releaseImages();
+    }
+  }
+
+  async exportPngSequence(config: ExportConfig, source: VideoExportSource): Promise<void> {
+    const fps = config.fps || source.fps;
+    const frameTimes = this.getFrameTimes(config, source, fps);
+    const total = frameTimes.length;
+
+    try {
+      const width = config.customWidth || source.width;
+      const height = config.customHeight || source.height;
+      const firstFrame = Math.round(frameTimes[0] * fps);
+      const digits = Math.max(4, String(firstFrame + total - 1).length);
+      const exportedBlobs: { name: string; blob: Blob }[] = [];
+
+      for (let i = 0; i < total; i++) {
+        this.updateProgress({
+          status: 'exporting',
+          current: i,
+          total,
+          message: `Rendering frame ${i + 1}/${total}`
+        });
+
+        // Transparent unless the project has its own background
+        const frame = await this.renderSourceFrame(config, source, frameTimes[i], width, height);
+        const blob = await frame.convertToBlob({ type: 'image/png' });
+
+        // Numbered by timeline frame so sequences from different ranges line up
+        const frameNumber = String(firstFrame + i).padStart(digits, '0');
+        exportedBlobs.push({ name: `${config.projectName}_${frameNumber}.png`, blob });
       }
+
+      this.updateProgress({
+        status: 'exporting',
+        current: total,
+        total,
+        message: 'Creating ZIP file...'
+      });
+
+      await this.zipExporter.createAndDownloadZip(
+        exportedBlobs,
+        `${config.projectName}_frames.zip`
+      );
+
+      this.updateProgress({
+        status: 'completed',
+        current: total,
+        total,
+        message: `Exported ${total} PNG frames`
+      });
+    } catch (error) {
+      this.updateProgress({
+        status: 'error',
+        current: 0,
+        total,
+        message: 'PNG sequence export failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    } finally {
+      this.canvasExporter.releaseImages();
     }
   }
 
@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ExportFit,
+  ExportImageFormat,
+  ExportPreset,
+  EXPORT_FILENAME_TOKENS,
+  formatPresetFileName,
+  getPresetSize
+} from '../types/export';
+
+interface ExportPresetListProps {
+  presets: ExportPreset[];
+  onPresetsChange: (presets: ExportPreset[]) => void;
+  selectedIds: string[];
+  onSelectedIdsChange: (ids: string[]) => void;
+  projectName: string;
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:border-yellow-400';
+
+const createPresetDraft = (): ExportPreset => ({
+  id: uuidv4(),
+  name: 'New Preset',
+  scale: 1,
+  format: 'png',
+  quality: 0.92,
+  fileNamePattern: '{project}_{preset}'
+});
+
+const ExportPresetList: React.FC<ExportPresetListProps> = ({
+  presets,
+  onPresetsChange,
+  selectedIds,
+  onSelectedIdsChange,
+  projectName,
+  canvasWidth,
+  canvasHeight
+}) => {
+  const [draft, setDraft] = useState<ExportPreset | null>(null);
+
+  const isNewDraft = draft !== null && !presets.some(p => p.id === draft.id);
+  const usesScale = draft !== null && !draft.width && !draft.height;
+
+  const toggleSelected = (id: string) => {
+    onSelectedIdsChange(
+      selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]
+    );
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const preset = { ...draft, name: draft.name.trim() || 'Preset' };
+
+    if (isNewDraft) {
+      onPresetsChange([...presets, preset]);
+      onSelectedIdsChange([...selectedIds, preset.id]);
+    } else {
+      onPresetsChange(presets.map(p => (p.id === preset.id ? preset : p)));
+    }
+    setDraft(null);
+  };
+
+  const removePreset = (id: string) => {
+    onPresetsChange(presets.filter(p => p.id !== id));
+    onSelectedIdsChange(selectedIds.filter(selected => selected !== id));
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const describe = (preset: ExportPreset) => {
+    const { width, height } = getPresetSize(preset, canvasWidth, canvasHeight);
+    const sizing = preset.width && preset.height ? ` ${preset.fit || 'stretch'}` : '';
+    return `${width}×${height}${sizing} · ${preset.format.toUpperCase()}`;
+  };
+
+  const renderEditor = () => {
+    if (!draft) return null;
+    const size = getPresetSize(draft, canvasWidth, canvasHeight);
+
+    return (
+      <div className="p-3 bg-gray-900/60 border border-gray-600 rounded-lg space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-gray-400 block mb-1">Name</label>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-400 block mb-1">Size</label>
+            <select
+              value={usesScale ? 'scale' : 'size'}
+              onChange={(e) =>
+                setDraft(e.target.value === 'scale'
+                  ? { ...draft, scale: draft.scale || 1, width: undefined, height: undefined, fit: undefined }
+                  : { ...draft, scale: undefined, width: size.width, height: size.height, fit: 'cover' })
+              }
+              className={inputClass}
+            >
+              <option value="scale">Scale of artboard</option>
+              <option value="size">Explicit pixels</option>
+            </select>
+          </div>
+        </div>
+
+        {usesScale ? (
+          <div>
+            <label className="text-xs text-gray-400 block mb-1">Scale</label>
+            <input
+              type="number"
+              min="0.1"
+              max="8"
+              step="0.5"
+              value={draft.scale ?? 1}
+              onChange={(e) => setDraft({ ...draft, scale: Math.max(0.1, Number(e.target.value)) })}
+              className={inputClass}
+            />
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Width</label>
+              <input
+                type="number"
+                min="1"
+                max="16000"
+                value={draft.width ?? ''}
+                onChange={(e) => setDraft({ ...draft, width: Number(e.target.value) || undefined })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Height</label>
+              <input
+                type="number"
+                min="1"
+                max="16000"
+                value={draft.height ?? ''}
+                onChange={(e) => setDraft({ ...draft, height: Number(e.target.value) || undefined })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Fit</label>
+              <select
+                value={draft.fit || 'stretch'}
+                onChange={(e) => setDraft({ ...draft, fit: e.target.value as ExportFit })}
+                className={inputClass}
+              >
+                <option value="cover">Cover (crop)</option>
+                <option value="contain">Contain (letterbox)</option>
+                <option value="stretch">Stretch</option>
+              </select>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-gray-400 block mb-1">Format</label>
+            <select
+              value={draft.format}
+              onChange={(e) => setDraft({ ...draft, format: e.target.value as ExportImageFormat })}
+              className={inputClass}
+            >
+              <option value="png">PNG</option>
+              <option value="jpeg">JPEG</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-gray-400 block mb-1">
+              Quality {draft.format === 'jpeg' ? `(${Math.round(draft.quality * 100)}%)` : '(JPEG only)'}
+            </label>
+            <input
+              type="range"
+              min="0.1"
+              max="1"
+              step="0.01"
+              value={draft.quality}
+              disabled={draft.format !== 'jpeg'}
+              onChange={(e) => setDraft({ ...draft, quality: Number(e.target.value) })}
+              className="w-full accent-yellow-400 disabled:opacity-40"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs text-gray-400 block mb-1">File Name</label>
+          <input
+            value={draft.fileNamePattern}
+            onChange={(e) => setDraft({ ...draft, fileNamePattern: e.target.value })}
+            className={`${inputClass} font-mono`}
+          />
+          <p className="text-[11px] text-gray-500 mt-1">
+            {EXPORT_FILENAME_TOKENS.join(' ')} → {formatPresetFileName(draft, { project: projectName, ...size })}
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={() => setDraft(null)}
+            className="flex items-center px-3 py-1.5 rounded-lg text-sm bg-gray-700 text-gray-300 hover:bg-gray-600"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Cancel
+          </button>
+          <button
+            onClick={saveDraft}
+            className="flex items-center px-3 py-1.5 rounded-lg text-sm bg-yellow-400 text-gray-900 font-medium hover:bg-yellow-300"
+          >
+            <Check className="w-4 h-4 mr-1" />
+            {isNewDraft ? 'Add' : 'Save'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">Export Presets</label>
+        <button
+          onClick={() => setDraft(createPresetDraft())}
+          className="flex items-center text-xs text-yellow-400 hover:text-yellow-300"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add preset
+        </button>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+        {presets.map(preset => (
+          <div
+            key={preset.id}
+            className="flex items-center justify-between px-3 py-2 bg-gray-700/50 rounded-lg"
+          >
+            <label className="flex items-center space-x-3 min-w-0 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(preset.id)}
+                onChange={() => toggleSelected(preset.id)}
+                className="accent-yellow-400"
+              />
+              <span className="text-sm text-white truncate">{preset.name}</span>
+              <span className="text-xs text-gray-400 whitespace-nowrap">{describe(preset)}</span>
+            </label>
+            <div className="flex items-center space-x-1 flex-shrink-0">
+              <button
+                onClick={() => setDraft({ ...preset })}
+                className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-600"
+                title="Edit preset"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => removePreset(preset.id)}
+                className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-600"
+                title="Remove preset"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {presets.length === 0 && !draft && (
+          <p className="text-xs text-gray-500 px-1">No presets yet</p>
+        )}
+      </div>
+
+      {renderEditor()}
+    </div>
+  );
+};
+
+export default ExportPresetList;
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Download, Package, Image as ImageIcon, X, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
-import { ExportManager, ExportConfig, ExportProgress, ExportMode } from './ExportManager';
+import { Download, Package, Image as ImageIcon, Film, Images, FileCode, Layers, X, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { ExportManager, ExportConfig, ExportProgress, ExportMode, VideoExportSource, FrameRange } from './ExportManager';
 import { DesignElement } from '../types/design';
+import { BackgroundConfig } from '../types/background';
+import { ExportPreset } from '../types/export';
+import ExportPresetList from './ExportPresetList';
 
 interface ExportUIProps {
   isOpen: boolean;
@@ -11,6 +14,11 @@ interface ExportUIProps {
   projectName: string;
   canvasWidth: number;
   canvasHeight: number;
+  background?: BackgroundConfig;
+  exportPresets: ExportPreset[];
+  onExportPresetsChange: (presets: ExportPreset[]) => void;
+  // Animated scene for timeline exports (video, GIF, PNG sequence)
+  video?: VideoExportSource;
 }
 
 const ExportUI: React.FC<ExportUIProps> = ({
@@ -20,7 +28,11 @@ const ExportUI: React.FC<ExportUIProps> = ({
   selectedElements,
   projectName,
   canvasWidth,
-  canvasHeight
+  canvasHeight,
+  background,
+  exportPresets,
+  onExportPresetsChange,
+  video
 }) => {
   const [exportManager] = useState(() => new ExportManager());
   const [progress, setProgress] = useState<ExportProgress>({
@@ -36,6 +48,11 @@ const ExportUI: React.FC<ExportUIProps> = ({
     height: canvasHeight
   });
   const [format, setFormat] = useState<'png' | 'jpeg'>('png');
+  // null renders the whole timeline
+  const [frameRange, setFrameRange] = useState<FrameRange | null>(null);
+  const [gifOptions, setGifOptions] = useState({ width: 640, fps: 15, loopCount: 0 });
+  // Presets included in the batch export; all of them by default
+  const [deselectedPresetIds, setDeselectedPresetIds] = useState<string[]>([]);
 
   useEffect(() => {
     exportManager.setProgressCallback(setProgress);
@@ -43,6 +60,13 @@ const ExportUI: React.FC<ExportUIProps> = ({
 
   const visibleElements = elements.filter(el => el.visible);
   const selectedElementsData = elements.filter(el => selectedElements.includes(el.id));
+  const timelineFrameCount = video ? Math.max(1, Math.ceil(video.duration * video.fps)) : 0;
+  const activeRange = frameRange || { start: 0, end: Math.max(0, timelineFrameCount - 1) };
+  const rangeFrameCount = Math.max(0, activeRange.end - activeRange.start + 1);
+  const selectedPresets = exportPresets.filter(preset => !deselectedPresetIds.includes(preset.id));
+  const gifHeight = video ? Math.round(gifOptions.width * video.height / video.width) : 0;
+  const isTimelineMode = (mode: ExportMode | null) =>
+    mode === 'video' || mode === 'gif' || mode === 'png-sequence';
 
   const handleExport = async (mode: ExportMode) => {
     setExportMode(mode);
@@ -58,13 +82,32 @@ const ExportUI: React.FC<ExportUIProps> = ({
       quality: 0.95
     };
 
+    // Timeline exports use the project output size rather than the still-image resolution
+    if (isTimelineMode(mode) && video) {
+      config.customWidth = mode === 'gif' ? gifOptions.width : undefined;
+      config.customHeight = mode === 'gif' ? gifHeight : undefined;
+      config.fps = mode === 'gif' ? gifOptions.fps : video.fps;
+      config.frameRange = activeRange;
+      config.loopCount = gifOptions.loopCount;
+    }
+
     try {
       if (mode === 'canvas') {
-        await exportManager.exportCanvas(config, elements);
+        await exportManager.exportCanvas(config, elements, background);
+      } else if (mode === 'presets') {
+        await exportManager.exportPresets(config, elements, selectedPresets, background);
+      } else if (mode === 'svg') {
+        await exportManager.exportSvg(config, elements, background);
       } else if (mode === 'zip') {
         await exportManager.exportShapesAsZip(config, elements);
       } else if (mode === 'selection') {
-        await exportManager.exportSelection(config, selectedElementsData, elements);
+        await exportManager.exportSelection(config, selectedElementsData);
+      } else if (mode === 'video' && video) {
+        await exportManager.exportVideo(config, video);
+      } else if (mode === 'gif' && video) {
+        await exportManager.exportGif(config, video);
+      } else if (mode === 'png-sequence' && video) {
+        await exportManager.exportPngSequence(config, video);
       }
     } catch (error) {
       console.error('Export failed:', error);
@@ -92,14 +135,16 @@ const ExportUI: React.FC<ExportUIProps> = ({
 
   const estimatedTime = exportManager.estimateTime(
     exportMode === 'zip' ? visibleElements.length :
-    exportMode === 'selection' ? selectedElementsData.length : 1
+    exportMode === 'selection' ? selectedElementsData.length :
+    exportMode === 'presets' ? selectedPresets.length :
+    isTimelineMode(exportMode) ? rangeFrameCount : 1
   );
 
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center">
-      <div className="bg-gray-800 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-2xl mx-4">
+      <div className="bg-gray-800 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
         <div className="p-6">
           <div className="flex items-center justify-between mb-6">
             <div className="flex items-center space-x-3">
@@ -192,6 +237,86 @@ const ExportUI: React.FC<ExportUIProps> = ({
                     />
                   </div>
                 </div>
+
+                {video && (
+                  <div className="grid grid-cols-4 gap-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-300 block mb-2">
+                        First Frame
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max={timelineFrameCount - 1}
+                        value={activeRange.start}
+                        onChange={(e) => setFrameRange({ ...activeRange, start: Number(e.target.value) })}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-yellow-400"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="text-sm font-medium text-gray-300 block mb-2">
+                        Last Frame
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max={timelineFrameCount - 1}
+                        value={activeRange.end}
+                        onChange={(e) => setFrameRange({ ...activeRange, end: Number(e.target.value) })}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-yellow-400"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="text-sm font-medium text-gray-300 block mb-2">
+                        GIF Size
+                      </label>
+                      <select
+                        value={gifOptions.width}
+                        onChange={(e) => setGifOptions(prev => ({ ...prev, width: Number(e.target.value) }))}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-yellow-400"
+                      >
+                        {[320, 480, 640, 800, 1280].map(width => (
+                          <option key={width} value={width}>
+                            {width}×{Math.round(width * video.height / video.width)}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="text-sm font-medium text-gray-300 block mb-2">
+                        GIF Loop
+                      </label>
+                      <select
+                        value={gifOptions.loopCount}
+                        onChange={(e) => setGifOptions(prev => ({ ...prev, loopCount: Number(e.target.value) }))}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-yellow-400"
+                      >
+                        <option value={0}>Forever</option>
+                        <option value={1}>Play once</option>
+                        <option value={2}>2 times</option>
+                        <option value={3}>3 times</option>
+                        <option value={5}>5 times</option>
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="mb-6">
+                <ExportPresetList
+                  presets={exportPresets}
+                  onPresetsChange={onExportPresetsChange}
+                  selectedIds={selectedPresets.map(preset => preset.id)}
+                  onSelectedIdsChange={(ids) =>
+                    setDeselectedPresetIds(exportPresets.filter(preset => !ids.includes(preset.id)).map(preset => preset.id))
+                  }
+                  projectName={projectName || 'FlashFX_Project'}
+                  canvasWidth={canvasWidth}
+                  canvasHeight={canvasHeight}
+                />
               </div>
 
               <div className="space-y-3">
@@ -211,6 +336,45 @@ const ExportUI: React.FC<ExportUIProps> = ({
                   <Download className="w-5 h-5" />
                 </button>
 
+                <button
+                  onClick={() => handleExport('presets')}
+                  disabled={selectedPresets.length === 0}
+                  className={`w-full flex items-center justify-between px-5 py-4 rounded-xl font-semibold transition-all duration-200 ${
+                    selectedPresets.length > 0
+                      ? 'bg-gray-700 text-white hover:bg-gray-600 border border-gray-600 hover:border-gray-500 transform hover:scale-[1.02]'
+                      : 'bg-gray-800 text-gray-600 cursor-not-allowed'
+                  }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <Layers className="w-6 h-6" />
+                    <div className="text-left">
+                      <div>Export Presets</div>
+                      <div className="text-xs opacity-80">
+                        {selectedPresets.length === 0
+                          ? 'No presets selected'
+                          : `${selectedPresets.length} size${selectedPresets.length > 1 ? 's' : ''} in one ZIP`}
+                      </div>
+                    </div>
+                  </div>
+                  <Download className="w-5 h-5" />
+                </button>
+
+                <button
+                  onClick={() => handleExport('svg')}
+                  className="w-full flex items-center justify-between px-5 py-4 rounded-xl bg-gray-700 text-white font-semibold hover:bg-gray-600 border border-gray-600 hover:border-gray-500 transition-all duration-200 transform hover:scale-[1.02]"
+                >
+                  <div className="flex items-center space-x-3">
+                    <FileCode className="w-6 h-6" />
+                    <div className="text-left">
+                      <div>Export SVG</div>
+                      <div className="text-xs opacity-80">
+                        Editable vector shapes, text and paths
+                      </div>
+                    </div>
+                  </div>
+                  <Download className="w-5 h-5" />
+                </button>
+
                 <button
                   onClick={() => handleExport('zip')}
                   disabled={visibleElements.length === 0}
@@ -254,12 +418,80 @@ const ExportUI: React.FC<ExportUIProps> = ({
                   </div>
                   <Download className="w-5 h-5" />
                 </button>
+
+                <button
+                  onClick={() => handleExport('video')}
+                  disabled={!video}
+                  className={`w-full flex items-center justify-between px-5 py-4 rounded-xl font-semibold transition-all duration-200 ${
+                    video
+                      ? 'bg-gradient-to-r from-purple-600 to-pink-500 text-white hover:from-purple-500 hover:to-pink-400 transform hover:scale-[1.02]'
+                      : 'bg-gray-800 text-gray-600 cursor-not-allowed'
+                  }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <Film className="w-6 h-6" />
+                    <div className="text-left">
+                      <div>Export Video (WebM)</div>
+                      <div className="text-xs opacity-80">
+                        {video
+                          ? `${video.width}×${video.height} at ${video.fps} fps, ${rangeFrameCount} frames`
+                          : 'No timeline to render'}
+                      </div>
+                    </div>
+                  </div>
+                  <Download className="w-5 h-5" />
+                </button>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    onClick={() => handleExport('gif')}
+                    disabled={!video}
+                    className={`flex items-center justify-between px-5 py-4 rounded-xl font-semibold transition-all duration-200 ${
+                      video
+                        ? 'bg-gray-700 text-white hover:bg-gray-600 border border-gray-600 hover:border-gray-500 transform hover:scale-[1.02]'
+                        : 'bg-gray-800 text-gray-600 cursor-not-allowed'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <Film className="w-6 h-6" />
+                      <div className="text-left">
+                        <div>Animated GIF</div>
+                        <div className="text-xs opacity-80">
+                          {video ? `${gifOptions.width}×${gifHeight} at ${gifOptions.fps} fps` : 'No timeline to render'}
+                        </div>
+                      </div>
+                    </div>
+                    <Download className="w-5 h-5" />
+                  </button>
+
+                  <button
+                    onClick={() => handleExport('png-sequence')}
+                    disabled={!video}
+                    className={`flex items-center justify-between px-5 py-4 rounded-xl font-semibold transition-all duration-200 ${
+                      video
+                        ? 'bg-gray-700 text-white hover:bg-gray-600 border border-gray-600 hover:border-gray-500 transform hover:scale-[1.02]'
+                        : 'bg-gray-800 text-gray-600 cursor-not-allowed'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <Images className="w-6 h-6" />
+                      <div className="text-left">
+                        <div>PNG Sequence</div>
+                        <div className="text-xs opacity-80">
+                          {video ? `${rangeFrameCount} numbered frames as ZIP` : 'No timeline to render'}
+                        </div>
+                      </div>
+                    </div>
+                    <Download className="w-5 h-5" />
+                  </button>
+                </div>
               </div>
 
               <div className="mt-4 p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg">
                 <p className="text-xs text-blue-400 leading-relaxed">
                   <strong>Export Info:</strong> ZIP exports include transparent PNGs positioned exactly as they appear on canvas.
-                  Canvas export captures everything visible. All exports use 2x pixel ratio for high quality.
+                  Canvas export captures everything visible. Image exports use 2x pixel ratio for high quality.
+                  Video and PNG sequences render the chosen frame range at the resolution and frame rate set in Editor Settings.
                 </p>
               </div>
             </>
@@ -277,7 +509,9 @@ const ExportUI: React.FC<ExportUIProps> = ({
                     {progress.message}
                   </h3>
                   <p className="text-gray-400">
-                    {progress.current}/{progress.total} shapes exported
+                    {progress.current}/{progress.total} {isTimelineMode(exportMode)
+                      ? 'frames rendered'
+                      : exportMode === 'presets' ? 'presets rendered' : 'shapes exported'}
                   </p>
                 </div>
 
@@ -0,0 +1,338 @@
+/**
+ * Animated GIF (GIF89a) encoder
+ * Each frame gets its own 256-color palette built by median cut over a
+ * 15-bit color histogram, then is LZW-compressed into the image data blocks
+ */
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  loopCount?: number; // total plays; 0 loops forever
+}
+
+interface ColorBox {
+  bins: number[];
+  count: number;
+}
+
+const MAX_COLORS = 256;
+const HISTOGRAM_SIZE = 1 << 15;
+const MAX_LZW_CODE = 4096;
+
+// Browsers replace delays below 2/100s with a much slower default
+const MIN_DELAY_CS = 2;
+
+const binRed = (bin: number) => (bin >> 10) & 0x1f;
+const binGreen = (bin: number) => (bin >> 5) & 0x1f;
+const binBlue = (bin: number) => bin & 0x1f;
+
+const toBin = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      this.chunks.push(this.buffer);
+      this.buffer = new Uint8Array(this.buffer.length * 2);
+      this.length = 0;
+    }
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  toChunks(): Uint8Array[] {
+    return [...this.chunks, this.buffer.slice(0, this.length)];
+  }
+}
+
+const splitBox = (box: ColorBox, histogram: Uint32Array): [ColorBox, ColorBox] | null => {
+  if (box.bins.length < 2) return null;
+
+  const ranges = [binRed, binGreen, binBlue].map(channel => {
+    let min = 31;
+    let max = 0;
+    box.bins.forEach(bin => {
+      const value = channel(bin);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+    return { channel, range: max - min };
+  });
+  const { channel } = ranges.reduce((widest, entry) => (entry.range > widest.range ? entry : widest));
+
+  const sorted = [...box.bins].sort((a, b) => channel(a) - channel(b));
+  const half = box.count / 2;
+  let accumulated = 0;
+  let splitIndex = 1;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    accumulated += histogram[sorted[i]];
+    if (accumulated >= half) {
+      splitIndex = i + 1;
+      break;
+    }
+    splitIndex = i + 1;
+  }
+
+  const lowBins = sorted.slice(0, splitIndex);
+  const highBins = sorted.slice(splitIndex);
+  const lowCount = lowBins.reduce((sum, bin) => sum + histogram[bin], 0);
+  return [
+    { bins: lowBins, count: lowCount },
+    { bins: highBins, count: box.count - lowCount }
+  ];
+};
+
+/**
+ * Reduce RGBA pixels to at most 256 colors
+ * Returns the palette (RGB triplets) and one palette index per pixel
+ */
+export const quantizeFrame = (pixels: Uint8ClampedArray): { palette: number[]; indices: Uint8Array } => {
+  const pixelCount = pixels.length / 4;
+  const histogram = new Uint32Array(HISTOGRAM_SIZE);
+  const pixelBins = new Uint16Array(pixelCount);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const bin = toBin(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+    pixelBins[i] = bin;
+    histogram[bin]++;
+  }
+
+  const usedBins: number[] = [];
+  for (let bin = 0; bin < HISTOGRAM_SIZE; bin++) {
+    if (histogram[bin] > 0) usedBins.push(bin);
+  }
+
+  // Median cut: keep splitting the most populated box that can still be split
+  const boxes: ColorBox[] = [{ bins: usedBins, count: pixelCount }];
+  while (boxes.length < MAX_COLORS) {
+    let target = -1;
+    boxes.forEach((box, i) => {
+      if (box.bins.length > 1 && (target === -1 || box.count > boxes[target].count)) target = i;
+    });
+    if (target === -1) break;
+
+    const halves = splitBox(boxes[target], histogram);
+    if (!halves) break;
+    boxes.splice(target, 1, ...halves);
+  }
+
+  const palette: number[] = [];
+  boxes.forEach(box => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    box.bins.forEach(bin => {
+      const weight = histogram[bin];
+      r += binRed(bin) * weight;
+      g += binGreen(bin) * weight;
+      b += binBlue(bin) * weight;
+    });
+    const count = Math.max(1, box.count);
+    // Expand 5-bit channels back to 8 bits
+    palette.push(
+      Math.round((r / count) * 255 / 31),
+      Math.round((g / count) * 255 / 31),
+      Math.round((b / count) * 255 / 31)
+    );
+  });
+
+  // Map every used bin to its nearest palette entry once, then index pixels by bin
+  const binToIndex = new Uint8Array(HISTOGRAM_SIZE);
+  usedBins.forEach(bin => {
+    const r = (binRed(bin) * 255) / 31;
+    const g = (binGreen(bin) * 255) / 31;
+    const b = (binBlue(bin) * 255) / 31;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < palette.length / 3; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    binToIndex[bin] = best;
+  });
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    indices[i] = binToIndex[pixelBins[i]];
+  }
+
+  return { palette, indices };
+};
+
+/**
+ * LZW-compress palette indices into GIF image data sub-blocks
+ */
+const writeLzwData = (writer: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  writer.byte(minCodeSize);
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+  let dictionary = new Map<number, number>();
+
+  let block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    writer.byte(block.length);
+    writer.bytes(block);
+    block = [];
+  };
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const existing = dictionary.get(key);
+
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+
+    if (nextCode === MAX_LZW_CODE) {
+      emit(clearCode);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+
+    prefix = value;
+  }
+
+  emit(prefix);
+  emit(endCode);
+
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+  }
+  flushBlock();
+  writer.byte(0); // block terminator
+};
+
+export class GifEncoder {
+  private options: GifEncoderOptions;
+  private writer = new ByteWriter();
+  private elapsedMs = 0;
+  private elapsedCs = 0;
+  private frames = 0;
+
+  constructor(options: GifEncoderOptions) {
+    this.options = options;
+    this.writeHeader();
+  }
+
+  get frameCount(): number {
+    return this.frames;
+  }
+
+  /**
+   * Append one RGBA frame of the encoder's size shown for delayMs
+   */
+  addFrame(pixels: Uint8ClampedArray, delayMs: number) {
+    const { width, height } = this.options;
+    if (pixels.length !== width * height * 4) {
+      throw new Error(`GIF frame must be ${width}×${height}`);
+    }
+
+    // Round on the running total so fractional delays (e.g. 30fps) do not drift
+    this.elapsedMs += delayMs;
+    const targetCs = Math.round(this.elapsedMs / 10);
+    const delayCs = Math.max(MIN_DELAY_CS, targetCs - this.elapsedCs);
+    this.elapsedCs += delayCs;
+
+    const { palette, indices } = quantizeFrame(pixels);
+    const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+    const w = this.writer;
+
+    // Graphic Control Extension: disposal "do not dispose", no transparency
+    w.bytes([0x21, 0xf9, 0x04, 0x04]);
+    w.word(delayCs);
+    w.bytes([0x00, 0x00]);
+
+    // Image descriptor with a local color table
+    w.byte(0x2c);
+    w.word(0);
+    w.word(0);
+    w.word(width);
+    w.word(height);
+    w.byte(0x80 | (tableBits - 1));
+
+    const tableSize = 1 << tableBits;
+    for (let i = 0; i < tableSize * 3; i++) {
+      w.byte(palette[i] ?? 0);
+    }
+
+    writeLzwData(w, indices, Math.max(2, tableBits));
+    this.frames++;
+  }
+
+  finish(): Blob {
+    if (this.frames === 0) {
+      throw new Error('GIF has no frames');
+    }
+    this.writer.byte(0x3b); // trailer
+    return new Blob(this.writer.toChunks(), { type: 'image/gif' });
+  }
+
+  private writeHeader() {
+    const { width, height, loopCount = 0 } = this.options;
+    const w = this.writer;
+
+    w.string('GIF89a');
+    w.word(width);
+    w.word(height);
+    w.bytes([0x00, 0x00, 0x00]); // no global color table
+
+    // NETSCAPE2.0 extension stores extra repetitions; omit it to play once
+    if (loopCount !== 1) {
+      w.bytes([0x21, 0xff, 0x0b]);
+      w.string('NETSCAPE2.0');
+      w.bytes([0x03, 0x01]);
+      w.word(loopCount > 1 ? loopCount - 1 : 0);
+      w.byte(0x00);
+    }
+  }
+}
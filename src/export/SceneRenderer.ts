@@ -0,0 +1,553 @@
+import { DesignElement } from '../types/design';
+import { BackgroundConfig, getLinearAngle, getRadialPosition, hexToRgba } from '../types/background';
+import { ExportFit } from '../types/export';
+import {
+  buildLinePath,
+  getAllLinePoints,
+  getEndAngles,
+  getLineBounds,
+  getLinePathLength,
+  getLinePoints,
+  getTrimRange,
+  getVisibleArrowheads,
+  LinePoint
+} from '../utils/linePath';
+import {
+  TextStyle,
+  clampBorderRadius,
+  getArrowheadSize,
+  getCssGradientLine,
+  getFarthestCornerRadius,
+  layoutText
+} from '../utils/sceneLayout';
+
+type Context2D = OffscreenCanvasRenderingContext2D;
+
+export interface SceneRenderOptions {
+  width: number;   // scene size in canvas units
+  height: number;
+  outputWidth?: number;  // defaults to the scene size
+  outputHeight?: number;
+  // How the scene fills an output with a different aspect ratio, defaults to stretch
+  fit?: ExportFit;
+  background?: BackgroundConfig;
+  // Solid color painted beneath everything; omit for a transparent backdrop
+  backgroundColor?: string;
+}
+
+interface GradientStop {
+  color: string;
+  position: number; // percent
+}
+
+// The artboard color shown when the background is disabled
+export const ARTBOARD_COLOR = '#1F2937';
+
+/**
+ * Draws DesignElements and the background onto an OffscreenCanvas from the
+ * model alone, so exports do not depend on what the editor has mounted or
+ * its current zoom
+ */
+export class SceneRenderer {
+  private images = new Map<string, Promise<ImageBitmap | null>>();
+
+  static isSupported(): boolean {
+    return typeof OffscreenCanvas !== 'undefined';
+  }
+
+  async render(elements: DesignElement[], options: SceneRenderOptions): Promise<OffscreenCanvas> {
+    if (!SceneRenderer.isSupported()) {
+      throw new Error('This browser does not support OffscreenCanvas rendering');
+    }
+
+    const outputWidth = Math.max(1, Math.round(options.outputWidth || options.width));
+    const outputHeight = Math.max(1, Math.round(options.outputHeight || options.height));
+    const canvas = new OffscreenCanvas(outputWidth, outputHeight);
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    const images = await this.loadImages(elements);
+
+    if (options.backgroundColor) {
+      ctx.fillStyle = options.backgroundColor;
+      ctx.fillRect(0, 0, outputWidth, outputHeight);
+    }
+
+    this.fitScene(ctx, options, outputWidth, outputHeight);
+    if (options.background) {
+      this.drawBackground(ctx, options.background, options.width, options.height);
+    }
+
+    elements.forEach(element => this.drawElement(ctx, element, images));
+    return canvas;
+  }
+
+  private fitScene(ctx: Context2D, options: SceneRenderOptions, outputWidth: number, outputHeight: number) {
+    const scaleX = outputWidth / options.width;
+    const scaleY = outputHeight / options.height;
+
+    if (!options.fit || options.fit === 'stretch') {
+      ctx.scale(scaleX, scaleY);
+      return;
+    }
+
+    // Uniform scale, centered; cover crops the overflow, contain letterboxes
+    const scale = options.fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    ctx.translate((outputWidth - options.width * scale) / 2, (outputHeight - options.height * scale) / 2);
+    ctx.scale(scale, scale);
+  }
+
+  async renderToBlob(
+    elements: DesignElement[],
+    options: SceneRenderOptions,
+    format: 'png' | 'jpeg' = 'png',
+    quality?: number
+  ): Promise<Blob> {
+    const canvas = await this.render(elements, options);
+    return canvas.convertToBlob({ type: `image/${format}`, quality });
+  }
+
+  /**
+   * Drop decoded images, e.g. after an export finishes
+   */
+  clearImageCache() {
+    this.images.forEach(pending => pending.then(bitmap => bitmap?.close()));
+    this.images.clear();
+  }
+
+  private async loadImages(elements: DesignElement[]): Promise<Map<string, ImageBitmap>> {
+    const sources = new Set<string>();
+    const collect = (list: DesignElement[]) => list.forEach(element => {
+      if (element.visible && element.type === 'image' && element.imageData) sources.add(element.imageData);
+      if (element.children) collect(element.children);
+    });
+    collect(elements);
+
+    const loaded = new Map<string, ImageBitmap>();
+    await Promise.all([...sources].map(async src => {
+      if (!this.images.has(src)) {
+        this.images.set(src, this.decodeImage(src));
+      }
+      const bitmap = await this.images.get(src);
+      if (bitmap) loaded.set(src, bitmap);
+    }));
+    return loaded;
+  }
+
+  private async decodeImage(src: string): Promise<ImageBitmap | null> {
+    try {
+      const response = await fetch(src);
+      return await createImageBitmap(await response.blob());
+    } catch (error) {
+      console.warn('Could not load image for rendering:', error);
+      return null;
+    }
+  }
+
+  private measureText(ctx: Context2D, text: string, style: TextStyle): number {
+    ctx.font = style.font;
+    return ctx.measureText(text).width;
+  }
+
+  private createGradient(
+    ctx: Context2D,
+    type: 'linear' | 'radial',
+    stops: GradientStop[],
+    width: number,
+    height: number,
+    options: { angle?: number; cx?: number; cy?: number }
+  ): CanvasGradient {
+    let gradient: CanvasGradient;
+    if (type === 'radial') {
+      const cx = options.cx ?? width / 2;
+      const cy = options.cy ?? height / 2;
+      gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, getFarthestCornerRadius(cx, cy, width, height));
+    } else {
+      const { x1, y1, x2, y2 } = getCssGradientLine(options.angle ?? 180, width, height);
+      gradient = ctx.createLinearGradient(x1, y1, x2, y2);
+    }
+
+    [...stops]
+      .sort((a, b) => a.position - b.position)
+      .forEach(stop => {
+        try {
+          gradient.addColorStop(Math.max(0, Math.min(1, stop.position / 100)), stop.color);
+        } catch {
+          // Skip colors the canvas cannot parse, as CSS would
+        }
+      });
+    return gradient;
+  }
+
+  private getElementFill(ctx: Context2D, element: DesignElement): string | CanvasGradient {
+    const colors = element.gradientColors;
+    if (!element.gradientEnabled || !colors || colors.length < 2) {
+      return element.fill || 'transparent';
+    }
+
+    const stops = colors.map(gc => ({ color: gc.color, position: gc.position }));
+    return element.gradientType === 'radial'
+      ? this.createGradient(ctx, 'radial', stops, element.width, element.height, {})
+      : this.createGradient(ctx, 'linear', stops, element.width, element.height, { angle: element.gradientAngle || 45 });
+  }
+
+  /**
+   * Canvas shadows ignore the current transform, so map the CSS offset and
+   * blur through it to keep the shadow attached to the rotated, scaled shape
+   */
+  private applyShadow(ctx: Context2D, element: DesignElement) {
+    const shadow = element.shadow;
+    if (!shadow || shadow.blur <= 0) return;
+
+    const { a, b, c, d } = ctx.getTransform();
+    ctx.shadowColor = shadow.color;
+    ctx.shadowOffsetX = a * shadow.x + c * shadow.y;
+    ctx.shadowOffsetY = b * shadow.x + d * shadow.y;
+    ctx.shadowBlur = shadow.blur * Math.sqrt(Math.abs(a * d - b * c));
+  }
+
+  /**
+   * Paint only the shadow of a path by filling it far outside the canvas
+   * and shifting the shadow back into place
+   */
+  private castShadow(ctx: Context2D, tracePath: () => void) {
+    if (ctx.shadowColor === 'transparent' || ctx.shadowBlur === 0) return;
+
+    const far = 100000;
+    const { a, b, c, d, e, f } = ctx.getTransform();
+    ctx.save();
+    ctx.setTransform(a, b, c, d, e - far, f);
+    ctx.shadowOffsetX += far;
+    tracePath();
+    ctx.fillStyle = '#000000';
+    ctx.fill();
+    ctx.restore();
+    this.clearShadow(ctx);
+  }
+
+  private clearShadow(ctx: Context2D) {
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 0;
+  }
+
+  /**
+   * Move to the element origin, then rotate and scale around the local
+   * center (cx, cy) like the CSS transform on the canvas
+   */
+  private applyTransform(ctx: Context2D, element: DesignElement, cx: number, cy: number) {
+    ctx.translate(element.x, element.y);
+    const scaleX = element.scaleX ?? 1;
+    const scaleY = element.scaleY ?? 1;
+
+    if (element.rotation || scaleX !== 1 || scaleY !== 1) {
+      ctx.translate(cx, cy);
+      ctx.rotate((element.rotation * Math.PI) / 180);
+      ctx.scale(scaleX, scaleY);
+      ctx.translate(-cx, -cy);
+    }
+  }
+
+  private drawElement(ctx: Context2D, element: DesignElement, images: Map<string, ImageBitmap>) {
+    if (!element.visible) return;
+
+    ctx.save();
+
+    if (element.type === 'group') {
+      // Children are positioned in the group's box; its transform and opacity carry down to them
+      ctx.globalAlpha *= element.opacity ?? 1;
+      this.applyTransform(ctx, element, element.width / 2, element.height / 2);
+      (element.children || []).forEach(child => this.drawElement(ctx, child, images));
+      ctx.restore();
+      return;
+    }
+
+    ctx.globalAlpha *= element.opacity ?? 1;
+
+    if (element.type === 'line') {
+      this.drawLine(ctx, element);
+      ctx.restore();
+      return;
+    }
+
+    this.applyTransform(ctx, element, element.width / 2, element.height / 2);
+    this.applyShadow(ctx, element);
+
+    switch (element.type) {
+      case 'rectangle':
+        this.drawBox(ctx, element, element.borderRadius);
+        break;
+      case 'circle':
+        this.drawEllipse(ctx, element);
+        break;
+      case 'text':
+        this.drawText(ctx, element);
+        break;
+      case 'button':
+      case 'chat-bubble':
+        this.drawBox(ctx, element, element.borderRadius);
+        this.drawText(ctx, element);
+        break;
+      case 'chat-frame':
+        this.drawBox(ctx, element, element.borderRadius);
+        this.drawNotch(ctx, element);
+        break;
+      case 'image':
+        this.drawImage(ctx, element, images);
+        break;
+      default:
+        // The canvas has no renderer for the remaining UI types either
+        break;
+    }
+
+    ctx.restore();
+  }
+
+  private roundRectPath(ctx: Context2D, x: number, y: number, width: number, height: number, radius: number) {
+    ctx.beginPath();
+    if (radius > 0) {
+      ctx.roundRect(x, y, width, height, radius);
+    } else {
+      ctx.rect(x, y, width, height);
+    }
+  }
+
+  // Borders are drawn inside the box, matching border-box sizing on the canvas
+  private drawBox(ctx: Context2D, element: DesignElement, borderRadius: number) {
+    const { width, height, strokeWidth } = element;
+    const radius = clampBorderRadius(borderRadius, width, height);
+
+    this.roundRectPath(ctx, 0, 0, width, height, radius);
+    ctx.fillStyle = this.getElementFill(ctx, element);
+    ctx.fill();
+    this.clearShadow(ctx);
+
+    if (strokeWidth > 0) {
+      const inset = strokeWidth / 2;
+      this.roundRectPath(
+        ctx,
+        inset,
+        inset,
+        Math.max(0, width - strokeWidth),
+        Math.max(0, height - strokeWidth),
+        Math.max(0, radius - inset)
+      );
+      ctx.strokeStyle = element.stroke;
+      ctx.lineWidth = strokeWidth;
+      ctx.stroke();
+    }
+  }
+
+  private drawEllipse(ctx: Context2D, element: DesignElement) {
+    const { width, height, strokeWidth } = element;
+
+    ctx.beginPath();
+    ctx.ellipse(width / 2, height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+    ctx.fillStyle = this.getElementFill(ctx, element);
+    ctx.fill();
+    this.clearShadow(ctx);
+
+    if (strokeWidth > 0) {
+      ctx.beginPath();
+      ctx.ellipse(
+        width / 2,
+        height / 2,
+        Math.max(0, (width - strokeWidth) / 2),
+        Math.max(0, (height - strokeWidth) / 2),
+        0,
+        0,
+        Math.PI * 2
+      );
+      ctx.strokeStyle = element.stroke;
+      ctx.lineWidth = strokeWidth;
+      ctx.stroke();
+    }
+  }
+
+  // Top notch of the chat frame: 40% wide, 20px tall, rounded bottom corners
+  private drawNotch(ctx: Context2D, element: DesignElement) {
+    const w = element.width * 0.4;
+    ctx.beginPath();
+    ctx.roundRect((element.width - w) / 2, 0, w, 20, [0, 0, 12, 12]);
+    ctx.fillStyle = this.getElementFill(ctx, element);
+    ctx.fill();
+  }
+
+  private drawImage(ctx: Context2D, element: DesignElement, images: Map<string, ImageBitmap>) {
+    const bitmap = element.imageData ? images.get(element.imageData) : undefined;
+    if (!bitmap) return;
+
+    const { width, height } = element;
+    const radius = clampBorderRadius(element.borderRadius, width, height);
+
+    if (radius > 0) {
+      // A clip would cut the shadow off, so cast it from the outline first
+      this.castShadow(ctx, () => this.roundRectPath(ctx, 0, 0, width, height, radius));
+      this.roundRectPath(ctx, 0, 0, width, height, radius);
+      ctx.clip();
+    }
+
+    ctx.drawImage(bitmap, 0, 0, width, height);
+  }
+
+  private drawText(ctx: Context2D, element: DesignElement) {
+    const layout = layoutText(element, (text, style) => this.measureText(ctx, text, style));
+    if (!layout) return;
+
+    const { lines, align, x, firstLineY, style } = layout;
+    ctx.font = style.font;
+    ctx.letterSpacing = `${style.letterSpacing}px`;
+    ctx.wordSpacing = `${element.wordSpacing || 0}px`;
+    ctx.textAlign = align;
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = element.textColor || '#000000';
+
+    const decoration = element.textDecoration && element.textDecoration !== 'none' ? element.textDecoration : null;
+    const thickness = Math.max(1, style.fontSize / 15);
+
+    lines.forEach((line, i) => {
+      const y = firstLineY + i * style.lineHeight;
+      ctx.fillText(line, x, y);
+
+      if (decoration) {
+        const lineWidth = ctx.measureText(line).width;
+        const start = align === 'center' ? x - lineWidth / 2 : align === 'right' ? x - lineWidth : x;
+        const offset = decoration === 'underline'
+          ? style.fontSize * 0.4
+          : decoration === 'overline' ? -style.fontSize * 0.55 : style.fontSize * 0.05;
+        ctx.fillRect(start, y + offset - thickness / 2, lineWidth, thickness);
+      }
+    });
+  }
+
+  private drawLine(ctx: Context2D, element: DesignElement) {
+    const points = getLinePoints(element);
+    const d = buildLinePath(element, points);
+    if (!d) return;
+
+    // The canvas rotates lines around the center of their point bounds
+    const bounds = getLineBounds(getAllLinePoints(element));
+    this.applyTransform(ctx, element, (bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2);
+    this.applyShadow(ctx, element);
+
+    const path = new Path2D(d);
+
+    if (element.lineType === 'pen' && element.closePath && element.fill) {
+      ctx.fillStyle = this.getElementFill(ctx, element);
+      ctx.fill(path, element.subpaths ? 'evenodd' : 'nonzero');
+    }
+
+    ctx.strokeStyle = element.stroke;
+    ctx.lineWidth = element.strokeWidth;
+    ctx.lineCap = element.lineCap || 'round';
+    ctx.lineJoin = element.lineJoin || 'round';
+    const trim = getTrimRange(element);
+    if (trim) {
+      // The length is an estimate, so a stroke drawn to the end gets slack to reach it
+      const length = getLinePathLength(element);
+      ctx.setLineDash([trim.end >= 1 ? length * 2 : (trim.end - trim.start) * length, length * 2]);
+      ctx.lineDashOffset = -trim.start * length;
+    } else if (element.dashArray && element.dashArray.length > 0) {
+      ctx.setLineDash(element.dashArray);
+    }
+    if (!trim || trim.end > trim.start) {
+      ctx.stroke(path);
+    }
+    ctx.setLineDash([]);
+    ctx.lineDashOffset = 0;
+
+    // Arrowheads follow the tangent, which differs from the chord on curved segments
+    const count = points.length;
+    const angles = getEndAngles(points);
+    const arrowheads = getVisibleArrowheads(element);
+    if (arrowheads.start && count >= 2) {
+      this.drawArrowhead(ctx, element, points[0], angles.start);
+    }
+    if (arrowheads.end && count >= 2) {
+      this.drawArrowhead(ctx, element, points[count - 1], angles.end);
+    }
+  }
+
+  /**
+   * Draw a marker like the canvas SVG does: sized in stroke widths and
+   * pointing along the direction of travel at the vertex
+   */
+  private drawArrowhead(ctx: Context2D, element: DesignElement, vertex: LinePoint, angle: number) {
+    const size = getArrowheadSize(element);
+
+    ctx.save();
+    ctx.translate(vertex.x, vertex.y);
+    ctx.rotate(angle);
+    ctx.scale(element.strokeWidth, element.strokeWidth);
+    ctx.fillStyle = element.stroke;
+    ctx.strokeStyle = element.stroke;
+    ctx.lineWidth = 1;
+
+    ctx.beginPath();
+    switch (element.arrowheadType || 'triangle') {
+      case 'circle':
+        ctx.translate(-size, -size);
+        ctx.arc(size, size, size * 0.8, 0, Math.PI * 2);
+        break;
+      case 'diamond':
+        ctx.translate(-size, -size);
+        ctx.moveTo(size, 0);
+        ctx.lineTo(size * 2, size);
+        ctx.lineTo(size, size * 2);
+        ctx.lineTo(0, size);
+        ctx.closePath();
+        break;
+      case 'bar':
+        ctx.translate(-size / 2, -size);
+        ctx.rect(0, 0, size / 2, size * 2);
+        ctx.fill();
+        ctx.restore();
+        return;
+      default:
+        ctx.translate(-size * 1.5, -size);
+        ctx.moveTo(0, 0);
+        ctx.lineTo(0, size * 2);
+        ctx.lineTo(size * 2, size);
+        ctx.closePath();
+    }
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Background layers stack like CSS backgrounds: the first layer is on top
+  private drawBackground(ctx: Context2D, background: BackgroundConfig, width: number, height: number) {
+    if (!background.enabled || background.layers.length === 0) return;
+
+    ctx.save();
+    [...background.layers].reverse().forEach(layer => {
+      const stops = layer.colorStops.map(stop => ({
+        color: hexToRgba(stop.color, stop.opacity / 100),
+        position: stop.position
+      }));
+
+      if (stops.length === 0) return;
+
+      if (stops.length === 1) {
+        ctx.fillStyle = stops[0].color;
+      } else if (layer.type === 'radial') {
+        const [px, py] = getRadialPosition(layer.radialType || 'center').split(' ').map(v => parseFloat(v) / 100);
+        ctx.fillStyle = this.createGradient(ctx, 'radial', stops, width, height, { cx: px * width, cy: py * height });
+      } else {
+        ctx.fillStyle = this.createGradient(ctx, 'linear', stops, width, height, {
+          angle: getLinearAngle(layer.direction || 'top-to-bottom')
+        });
+      }
+
+      ctx.globalCompositeOperation = layer.blendMode && layer.blendMode !== 'normal'
+        ? layer.blendMode as GlobalCompositeOperation
+        : 'source-over';
+      ctx.fillRect(0, 0, width, height);
+    });
+    ctx.restore();
+  }
+}
@@ -1,75 +1,24 @@
-import { toPng } from 'html-to-image';
 import { DesignElement } from '../types/design';
+import { SceneRenderer } from './SceneRenderer';
 
 export class ShapeExporter {
+  private renderer = new SceneRenderer();
+
   async exportShape(
     element: DesignElement,
     canvasWidth: number,
-    canvasHeight: number,
-    allElements: DesignElement[]
+    canvasHeight: number
   ): Promise<Blob> {
-    const canvas = document.createElement('canvas');
     const pixelRatio = 2;
 
-    canvas.width = canvasWidth * pixelRatio;
-    canvas.height = canvasHeight * pixelRatio;
-
-    const ctx = canvas.getContext('2d', { alpha: true });
-
-    if (!ctx) {
-      throw new Error('Failed to get canvas context');
-    }
-
-    ctx.scale(pixelRatio, pixelRatio);
-    ctx.clearRect(0, 0, canvasWidth, canvasHeight);
-
-    const domElement = document.querySelector(
-      `[data-element-id="${element.id}"]`
-    ) as HTMLElement;
-
-    if (!domElement) {
-      throw new Error(`Element ${element.id} not found in DOM`);
-    }
-
-    const tempContainer = document.createElement('div');
-    tempContainer.style.position = 'absolute';
-    tempContainer.style.left = '-99999px';
-    tempContainer.style.top = '-99999px';
-    tempContainer.style.width = `${canvasWidth}px`;
-    tempContainer.style.height = `${canvasHeight}px`;
-    tempContainer.style.backgroundColor = 'transparent';
-    tempContainer.style.overflow = 'visible';
-
-    const clonedElement = domElement.cloneNode(true) as HTMLElement;
-
-    clonedElement.style.position = 'absolute';
-    clonedElement.style.left = `${element.x}px`;
-    clonedElement.style.top = `${element.y}px`;
-    clonedElement.style.margin = '0';
-    clonedElement.style.padding = '0';
-
-    tempContainer.appendChild(clonedElement);
-    document.body.appendChild(tempContainer);
-
     try {
-      const dataUrl = await toPng(tempContainer, {
-        cacheBust: true,
-        backgroundColor: 'transparent',
-        pixelRatio,
+      return await this.renderer.renderToBlob([element], {
         width: canvasWidth,
         height: canvasHeight,
-        style: {
-          transform: 'scale(1)',
-          transformOrigin: 'top left'
-        }
+        outputWidth: canvasWidth * pixelRatio,
+        outputHeight: canvasHeight * pixelRatio
       });
-
-      document.body.removeChild(tempContainer);
-
-      const response = await fetch(dataUrl);
-      return response.blob();
     } catch (error) {
-      document.body.removeChild(tempContainer);
       console.error(`Failed to export shape ${element.name}:`, error);
       throw new Error(`Failed to export shape: ${element.name}`);
     }
@@ -78,57 +27,27 @@ export class ShapeExporter {
   async exportShapeIsolated(
     element: DesignElement
   ): Promise<Blob> {
-    const domElement = document.querySelector(
-      `[data-element-id="${element.id}"]`
-    ) as HTMLElement;
-
-    if (!domElement) {
-      throw new Error(`Element ${element.id} not found in DOM`);
-    }
-
-    const tempContainer = document.createElement('div');
-    tempContainer.style.position = 'absolute';
-    tempContainer.style.left = '-99999px';
-    tempContainer.style.top = '-99999px';
-    tempContainer.style.width = `${element.width}px`;
-    tempContainer.style.height = `${element.height}px`;
-    tempContainer.style.backgroundColor = 'transparent';
-    tempContainer.style.overflow = 'visible';
-
-    const clonedElement = domElement.cloneNode(true) as HTMLElement;
-
-    clonedElement.style.position = 'absolute';
-    clonedElement.style.left = '0';
-    clonedElement.style.top = '0';
-    clonedElement.style.transform = 'none';
-    clonedElement.style.margin = '0';
-    clonedElement.style.padding = '0';
-
-    tempContainer.appendChild(clonedElement);
-    document.body.appendChild(tempContainer);
+    const pixelRatio = 2;
+    // Drawn at the origin without its transform, like a cropped asset
+    const isolated: DesignElement = { ...element, x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 };
 
     try {
-      const pixelRatio = 2;
-      const dataUrl = await toPng(tempContainer, {
-        cacheBust: true,
-        backgroundColor: 'transparent',
-        pixelRatio,
+      return await this.renderer.renderToBlob([isolated], {
         width: element.width,
         height: element.height,
-        style: {
-          transform: 'scale(1)',
-          transformOrigin: 'top left'
-        }
+        outputWidth: element.width * pixelRatio,
+        outputHeight: element.height * pixelRatio
       });
-
-      document.body.removeChild(tempContainer);
-
-      const response = await fetch(dataUrl);
-      return response.blob();
     } catch (error) {
-      document.body.removeChild(tempContainer);
       console.error(`Failed to export isolated shape ${element.name}:`, error);
       throw new Error(`Failed to export shape: ${element.name}`);
     }
   }
+
+  /**
+   * Release images decoded while exporting a batch of shapes
+   */
+  finish() {
+    this.renderer.clearImageCache();
+  }
 }
@@ -0,0 +1,501 @@
+import { DesignElement } from '../types/design';
+import { BackgroundConfig, getLinearAngle, getRadialPosition, hexToRgba } from '../types/background';
+import { parseColor } from '../utils/animationEngine';
+import { buildLinePath, getAllLinePoints, getLineBounds, getLinePoints, getTrimRange, getVisibleArrowheads } from '../utils/linePath';
+import {
+  TextStyle,
+  clampBorderRadius,
+  getArrowheadSize,
+  getCssGradientLine,
+  getFarthestCornerRadius,
+  layoutText
+} from '../utils/sceneLayout';
+
+export interface SvgExportOptions {
+  width: number;   // artboard size, used as the viewBox
+  height: number;
+  outputWidth?: number;
+  outputHeight?: number;
+  background?: BackgroundConfig;
+}
+
+interface GradientStop {
+  color: string;
+  position: number; // percent
+}
+
+const fmt = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const attrs = (values: Record<string, string | number | undefined | null>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => ` ${key}="${escapeXml(typeof value === 'number' ? fmt(value) : String(value))}"`)
+    .join('');
+
+/**
+ * Split a CSS color into an SVG paint and opacity; many design tools ignore rgba() in SVG
+ */
+const paint = (property: 'fill' | 'stroke' | 'stop' | 'flood', color: string | undefined) => {
+  const colorKey = property === 'stop' || property === 'flood' ? `${property}-color` : property;
+  const opacityKey = `${property}-opacity`;
+
+  if (!color || color === 'transparent' || color === 'none') {
+    return property === 'fill' || property === 'stroke' ? { [colorKey]: 'none' } : { [colorKey]: '#000000', [opacityKey]: '0' };
+  }
+
+  const rgba = parseColor(color);
+  if (!rgba) return { [colorKey]: color };
+
+  const hex = `#${[rgba.r, rgba.g, rgba.b].map(n => Math.round(n).toString(16).padStart(2, '0')).join('')}`;
+  return rgba.a < 1 ? { [colorKey]: hex, [opacityKey]: fmt(rgba.a) } : { [colorKey]: hex };
+};
+
+let measureContext: OffscreenCanvasRenderingContext2D | null | undefined;
+
+const measureTextWidth = (text: string, style: TextStyle): number => {
+  if (measureContext === undefined) {
+    measureContext = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(1, 1).getContext('2d')
+      : null;
+  }
+  if (!measureContext) {
+    // Rough average glyph width when no canvas is available
+    return text.length * style.fontSize * 0.55;
+  }
+  measureContext.font = style.font;
+  return measureContext.measureText(text).width;
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Exports the scene graph as standalone SVG markup
+ * Walks DesignElements directly instead of rasterizing the DOM, so shapes,
+ * text and paths stay editable in other design tools
+ */
+export class SvgExporter {
+  private defs: string[] = [];
+  private usedIds = new Set<string>();
+
+  buildSvg(elements: DesignElement[], options: SvgExportOptions): string {
+    this.defs = [];
+    this.usedIds = new Set();
+
+    const { width, height } = options;
+    const background = options.background ? this.renderBackground(options.background, width, height) : '';
+    const body = elements.map(element => this.renderElement(element)).join('');
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"${attrs({
+        width: options.outputWidth || width,
+        height: options.outputHeight || height,
+        viewBox: `0 0 ${fmt(width)} ${fmt(height)}`
+      })}>`,
+      this.defs.length > 0 ? `<defs>${this.defs.join('')}</defs>` : '',
+      background,
+      body,
+      '</svg>'
+    ].join('');
+  }
+
+  /**
+   * Build the SVG as a file, embedding blob: and remote images as data URIs first
+   */
+  async exportSvg(elements: DesignElement[], options: SvgExportOptions): Promise<Blob> {
+    const embedded = await this.embedImages(elements);
+    const markup = this.buildSvg(embedded, options);
+    return new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${markup}`], { type: 'image/svg+xml' });
+  }
+
+  private async embedImages(elements: DesignElement[]): Promise<DesignElement[]> {
+    return Promise.all(elements.map(async element => {
+      let result = element;
+
+      if (element.imageData && !element.imageData.startsWith('data:')) {
+        try {
+          const response = await fetch(element.imageData);
+          result = { ...result, imageData: await blobToDataUrl(await response.blob()) };
+        } catch (error) {
+          console.warn(`Could not embed image for ${element.name}:`, error);
+        }
+      }
+
+      if (element.children) {
+        result = { ...result, children: await this.embedImages(element.children) };
+      }
+
+      return result;
+    }));
+  }
+
+  private uniqueId(base: string): string {
+    const slug = base.trim().replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'element';
+    const start = /^[A-Za-z_]/.test(slug) ? slug : `_${slug}`;
+    let id = start;
+    for (let n = 2; this.usedIds.has(id); n++) {
+      id = `${start}-${n}`;
+    }
+    this.usedIds.add(id);
+    return id;
+  }
+
+  private addGradientDef(
+    type: 'linear' | 'radial',
+    stops: GradientStop[],
+    geometry: Record<string, number>
+  ): string {
+    const id = this.uniqueId(`gradient-${type}`);
+    const tag = type === 'linear' ? 'linearGradient' : 'radialGradient';
+    const stopMarkup = [...stops]
+      .sort((a, b) => a.position - b.position)
+      .map(stop => `<stop${attrs({ offset: `${fmt(stop.position)}%`, ...paint('stop', stop.color) })}/>`)
+      .join('');
+
+    this.defs.push(`<${tag}${attrs({ id, gradientUnits: 'userSpaceOnUse', ...geometry })}>${stopMarkup}</${tag}>`);
+    return `url(#${id})`;
+  }
+
+  private addCssLinearGradient(stops: GradientStop[], angle: number, width: number, height: number) {
+    return this.addGradientDef('linear', stops, getCssGradientLine(angle, width, height));
+  }
+
+  private addCssRadialGradient(stops: GradientStop[], cx: number, cy: number, width: number, height: number) {
+    return this.addGradientDef('radial', stops, { cx, cy, r: getFarthestCornerRadius(cx, cy, width, height) });
+  }
+
+  private getElementFill(element: DesignElement) {
+    const colors = element.gradientColors;
+    if (!element.gradientEnabled || !colors || colors.length < 2) {
+      return paint('fill', element.fill);
+    }
+
+    const stops = colors.map(gc => ({ color: gc.color, position: gc.position }));
+    const fill = element.gradientType === 'radial'
+      ? this.addCssRadialGradient(stops, element.width / 2, element.height / 2, element.width, element.height)
+      : this.addCssLinearGradient(stops, element.gradientAngle || 45, element.width, element.height);
+    return { fill };
+  }
+
+  private getShadowFilter(element: DesignElement): string | undefined {
+    const shadow = element.shadow;
+    if (!shadow || shadow.blur <= 0) return undefined;
+
+    const id = this.uniqueId(`shadow-${element.name}`);
+    // CSS blur radius is roughly twice the Gaussian standard deviation
+    this.defs.push(
+      `<filter${attrs({ id, x: '-50%', y: '-50%', width: '200%', height: '200%' })}>` +
+      `<feDropShadow${attrs({ dx: shadow.x, dy: shadow.y, stdDeviation: shadow.blur / 2, ...paint('flood', shadow.color) })}/>` +
+      '</filter>'
+    );
+    return `url(#${id})`;
+  }
+
+  /**
+   * Element transform: move to the element origin, then rotate and scale around
+   * the local center (cx, cy) like the CSS transform on the canvas
+   */
+  private getTransform(element: DesignElement, cx: number, cy: number): string {
+    const parts = [`translate(${fmt(element.x)} ${fmt(element.y)})`];
+    const scaleX = element.scaleX ?? 1;
+    const scaleY = element.scaleY ?? 1;
+
+    if (element.rotation || scaleX !== 1 || scaleY !== 1) {
+      parts.push(`translate(${fmt(cx)} ${fmt(cy)})`);
+      if (element.rotation) parts.push(`rotate(${fmt(element.rotation)})`);
+      if (scaleX !== 1 || scaleY !== 1) parts.push(`scale(${fmt(scaleX)} ${fmt(scaleY)})`);
+      parts.push(`translate(${fmt(-cx)} ${fmt(-cy)})`);
+    }
+
+    return parts.join(' ');
+  }
+
+  private renderElement(element: DesignElement): string {
+    if (!element.visible) return '';
+
+    if (element.type === 'group') {
+      // Children are positioned in the group's box; its transform and opacity carry down to them
+      const children = (element.children || []).map(child => this.renderElement(child)).join('');
+      return `<g${attrs({
+        id: this.uniqueId(element.name),
+        transform: this.getTransform(element, element.width / 2, element.height / 2),
+        opacity: element.opacity < 1 ? element.opacity : undefined
+      })}>${children}</g>`;
+    }
+
+    if (element.type === 'line') {
+      return this.renderLine(element);
+    }
+
+    let content: string;
+    switch (element.type) {
+      case 'rectangle':
+        content = this.renderBox(element, element.borderRadius);
+        break;
+      case 'circle':
+        content = this.renderEllipse(element);
+        break;
+      case 'text':
+        content = this.renderText(element);
+        break;
+      case 'button':
+        content = this.renderBox(element, element.borderRadius) + this.renderText(element);
+        break;
+      case 'chat-bubble':
+        content = this.renderBox(element, element.borderRadius) + this.renderText(element);
+        break;
+      case 'chat-frame':
+        content = this.renderBox(element, element.borderRadius) + this.renderNotch(element);
+        break;
+      case 'image':
+        content = this.renderImage(element);
+        break;
+      default:
+        // The canvas has no renderer for the remaining UI types either
+        return '';
+    }
+
+    return `<g${attrs({
+      id: this.uniqueId(element.name),
+      transform: this.getTransform(element, element.width / 2, element.height / 2),
+      opacity: element.opacity < 1 ? element.opacity : undefined,
+      filter: this.getShadowFilter(element)
+    })}>${content}</g>`;
+  }
+
+  // Borders are drawn inside the box, matching border-box sizing on the canvas
+  private renderBox(element: DesignElement, borderRadius: number): string {
+    const { width, height, strokeWidth } = element;
+    const radius = clampBorderRadius(borderRadius, width, height);
+    let markup = `<rect${attrs({ width, height, rx: radius || undefined, ...this.getElementFill(element) })}/>`;
+
+    if (strokeWidth > 0) {
+      const inset = strokeWidth / 2;
+      markup += `<rect${attrs({
+        x: inset,
+        y: inset,
+        width: Math.max(0, width - strokeWidth),
+        height: Math.max(0, height - strokeWidth),
+        rx: radius > inset ? radius - inset : undefined,
+        fill: 'none',
+        ...paint('stroke', element.stroke),
+        'stroke-width': strokeWidth
+      })}/>`;
+    }
+
+    return markup;
+  }
+
+  private renderEllipse(element: DesignElement): string {
+    const { width, height, strokeWidth } = element;
+    let markup = `<ellipse${attrs({ cx: width / 2, cy: height / 2, rx: width / 2, ry: height / 2, ...this.getElementFill(element) })}/>`;
+
+    if (strokeWidth > 0) {
+      markup += `<ellipse${attrs({
+        cx: width / 2,
+        cy: height / 2,
+        rx: Math.max(0, (width - strokeWidth) / 2),
+        ry: Math.max(0, (height - strokeWidth) / 2),
+        fill: 'none',
+        ...paint('stroke', element.stroke),
+        'stroke-width': strokeWidth
+      })}/>`;
+    }
+
+    return markup;
+  }
+
+  // Top notch of the chat frame: 40% wide, 20px tall, rounded bottom corners
+  private renderNotch(element: DesignElement): string {
+    const w = element.width * 0.4;
+    const x = (element.width - w) / 2;
+    const r = Math.min(12, w / 2, 20);
+    const d = `M ${fmt(x)} 0 H ${fmt(x + w)} V ${fmt(20 - r)} A ${fmt(r)} ${fmt(r)} 0 0 1 ${fmt(x + w - r)} 20 ` +
+      `H ${fmt(x + r)} A ${fmt(r)} ${fmt(r)} 0 0 1 ${fmt(x)} ${fmt(20 - r)} Z`;
+    return `<path${attrs({ d, ...this.getElementFill(element) })}/>`;
+  }
+
+  private renderImage(element: DesignElement): string {
+    if (!element.imageData) return '';
+
+    const { width, height } = element;
+    const radius = clampBorderRadius(element.borderRadius, width, height);
+    let clipPath: string | undefined;
+
+    if (radius > 0) {
+      const id = this.uniqueId(`clip-${element.name}`);
+      this.defs.push(`<clipPath${attrs({ id })}><rect${attrs({ width, height, rx: radius })}/></clipPath>`);
+      clipPath = `url(#${id})`;
+    }
+
+    return `<image${attrs({
+      width,
+      height,
+      preserveAspectRatio: 'none',
+      href: element.imageData,
+      'xlink:href': element.imageData,
+      'clip-path': clipPath
+    })}/>`;
+  }
+
+  private renderText(element: DesignElement): string {
+    const layout = layoutText(element, measureTextWidth);
+    if (!layout) return '';
+
+    const { lines, align, x, firstLineY, style } = layout;
+    const anchor = align === 'center' ? 'middle' : align === 'right' ? 'end' : 'start';
+    const family = style.fontFamily.includes(' ') && !/["',]/.test(style.fontFamily) ? `'${style.fontFamily}'` : style.fontFamily;
+
+    const tspans = lines
+      .map((line, i) => `<tspan${attrs({ x, y: firstLineY + i * style.lineHeight })}>${escapeXml(line)}</tspan>`)
+      .join('');
+
+    return `<text${attrs({
+      'font-family': family,
+      'font-size': style.fontSize,
+      'font-weight': style.fontWeight !== 'normal' ? style.fontWeight : undefined,
+      'font-style': style.fontStyle !== 'normal' ? style.fontStyle : undefined,
+      'letter-spacing': style.letterSpacing || undefined,
+      'word-spacing': element.wordSpacing || undefined,
+      'text-decoration': element.textDecoration && element.textDecoration !== 'none' ? element.textDecoration : undefined,
+      'text-anchor': anchor,
+      'dominant-baseline': 'central',
+      'xml:space': 'preserve',
+      ...paint('fill', element.textColor || '#000000')
+    })}>${tspans}</text>`;
+  }
+
+  private addArrowheadMarker(element: DesignElement, position: 'start' | 'end'): string {
+    const id = this.uniqueId(`arrow-${position}-${element.name}`);
+    const size = getArrowheadSize(element);
+    const color = paint('fill', element.stroke);
+    const outline = { ...paint('stroke', element.stroke), 'stroke-width': 1 };
+    let marker: { width: number; height: number; refX: number; shape: string };
+
+    switch (element.arrowheadType || 'triangle') {
+      case 'circle':
+        marker = {
+          width: size * 2,
+          height: size * 2,
+          refX: size,
+          shape: `<circle${attrs({ cx: size, cy: size, r: size * 0.8, ...color, ...outline })}/>`
+        };
+        break;
+      case 'diamond':
+        marker = {
+          width: size * 2,
+          height: size * 2,
+          refX: size,
+          shape: `<polygon${attrs({ points: `${fmt(size)},0 ${fmt(size * 2)},${fmt(size)} ${fmt(size)},${fmt(size * 2)} 0,${fmt(size)}`, ...color, ...outline })}/>`
+        };
+        break;
+      case 'bar':
+        marker = {
+          width: size,
+          height: size * 2,
+          refX: size / 2,
+          shape: `<rect${attrs({ width: size / 2, height: size * 2, ...color })}/>`
+        };
+        break;
+      default:
+        marker = {
+          width: size * 2,
+          height: size * 2,
+          refX: size * 1.5,
+          shape: `<polygon${attrs({ points: `0,0 0,${fmt(size * 2)} ${fmt(size * 2)},${fmt(size)}`, ...color, ...outline })}/>`
+        };
+    }
+
+    this.defs.push(`<marker${attrs({
+      id,
+      markerWidth: marker.width,
+      markerHeight: marker.height,
+      refX: marker.refX,
+      refY: size,
+      orient: 'auto',
+      markerUnits: 'strokeWidth'
+    })}>${marker.shape}</marker>`);
+    return `url(#${id})`;
+  }
+
+  private renderLine(element: DesignElement): string {
+    const points = getLinePoints(element);
+    const d = buildLinePath(element, points);
+    if (!d) return '';
+
+    // The canvas rotates lines around the center of their point bounds
+    const bounds = getLineBounds(getAllLinePoints(element));
+    const cx = (bounds.minX + bounds.maxX) / 2;
+    const cy = (bounds.minY + bounds.maxY) / 2;
+    const isFilled = element.lineType === 'pen' && element.closePath;
+    // With pathLength 1 the trim dash is measured in fractions of the path
+    const trim = getTrimRange(element);
+    const arrowheads = getVisibleArrowheads(element);
+
+    const path = `<path${attrs({
+      d,
+      ...(isFilled ? this.getElementFill(element) : { fill: 'none' }),
+      'fill-rule': isFilled && element.subpaths ? 'evenodd' : undefined,
+      ...paint('stroke', trim && trim.end <= trim.start ? 'none' : element.stroke),
+      'stroke-width': element.strokeWidth,
+      'stroke-linecap': element.lineCap || 'round',
+      'stroke-linejoin': element.lineJoin || 'round',
+      pathLength: trim ? 1 : undefined,
+      'stroke-dasharray': trim
+        ? `${trim.end - trim.start} 1`
+        : element.dashArray && element.dashArray.length > 0 ? element.dashArray.join(',') : undefined,
+      'stroke-dashoffset': trim ? -trim.start : undefined,
+      'marker-start': arrowheads.start ? this.addArrowheadMarker(element, 'start') : undefined,
+      'marker-end': arrowheads.end ? this.addArrowheadMarker(element, 'end') : undefined,
+      filter: this.getShadowFilter(element)
+    })}/>`;
+
+    return `<g${attrs({
+      id: this.uniqueId(element.name),
+      transform: this.getTransform(element, cx, cy),
+      opacity: element.opacity < 1 ? element.opacity : undefined
+    })}>${path}</g>`;
+  }
+
+  // Background layers stack like CSS backgrounds: the first layer is on top
+  private renderBackground(background: BackgroundConfig, width: number, height: number): string {
+    if (!background.enabled || background.layers.length === 0) return '';
+
+    return [...background.layers].reverse().map(layer => {
+      const stops = layer.colorStops.map(stop => ({
+        color: hexToRgba(stop.color, stop.opacity / 100),
+        position: stop.position
+      }));
+
+      let fill: Record<string, string>;
+      if (stops.length === 1) {
+        fill = paint('fill', stops[0].color);
+      } else if (layer.type === 'radial') {
+        const [px, py] = getRadialPosition(layer.radialType || 'center').split(' ').map(v => parseFloat(v) / 100);
+        fill = { fill: this.addCssRadialGradient(stops, px * width, py * height, width, height) };
+      } else {
+        fill = { fill: this.addCssLinearGradient(stops, getLinearAngle(layer.direction || 'top-to-bottom'), width, height) };
+      }
+
+      return `<rect${attrs({
+        width,
+        height,
+        ...fill,
+        style: layer.blendMode && layer.blendMode !== 'normal' ? `mix-blend-mode: ${layer.blendMode}` : undefined
+      })}/>`;
+    }).join('');
+  }
+}
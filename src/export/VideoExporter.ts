@@ -0,0 +1,227 @@
+import { WebMMuxer, WebMVideoCodec } from './WebMMuxer';
+
+export interface VideoEncodeOptions {
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  bitrate?: number;
+  // Produce the image for one frame; it is scaled to the output size
+  renderFrame: (frameIndex: number, time: number) => Promise<CanvasImageSource>;
+  onFrameEncoded?: (frameIndex: number) => void;
+}
+
+interface EncoderCandidate {
+  config: string;
+  codec: WebMVideoCodec;
+}
+
+const ENCODER_CANDIDATES: EncoderCandidate[] = [
+  { config: 'vp09.00.10.08', codec: 'V_VP9' },
+  { config: 'vp8', codec: 'V_VP8' }
+];
+
+const RECORDER_MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm'
+];
+
+// Force a keyframe every two seconds so the file stays seekable
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+// Pause rendering while the encoder has this many frames queued
+const MAX_ENCODE_QUEUE = 8;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// VP8/VP9 require even dimensions
+const toEvenSize = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+export class VideoExporter {
+  isSupported(): boolean {
+    return typeof VideoEncoder !== 'undefined' || typeof MediaRecorder !== 'undefined';
+  }
+
+  /**
+   * Render and encode timeline frames to a WebM blob
+   * Uses WebCodecs when available and falls back to MediaRecorder, which
+   * records in real time and is therefore slower and less exact
+   */
+  async encodeWebM(options: VideoEncodeOptions): Promise<Blob> {
+    if (options.frameCount <= 0) {
+      throw new Error('Nothing to render: the timeline is empty');
+    }
+
+    const width = toEvenSize(options.width);
+    const height = toEvenSize(options.height);
+    const bitrate = options.bitrate || this.estimateBitrate(width, height, options.fps);
+    const sized = { ...options, width, height, bitrate };
+
+    if (typeof VideoEncoder !== 'undefined') {
+      const candidate = await this.findEncoder(width, height, bitrate, options.fps);
+      if (candidate) {
+        return this.encodeWithWebCodecs(sized, candidate);
+      }
+    }
+
+    if (typeof MediaRecorder !== 'undefined') {
+      return this.encodeWithMediaRecorder(sized);
+    }
+
+    throw new Error('This browser cannot encode video. Try a recent version of Chrome, Edge or Firefox.');
+  }
+
+  estimateBitrate(width: number, height: number, fps: number): number {
+    // ~0.1 bits per pixel per frame, a reasonable quality for motion graphics
+    return Math.round(width * height * fps * 0.1);
+  }
+
+  private async findEncoder(
+    width: number,
+    height: number,
+    bitrate: number,
+    fps: number
+  ): Promise<EncoderCandidate | null> {
+    for (const candidate of ENCODER_CANDIDATES) {
+      try {
+        const support = await VideoEncoder.isConfigSupported({
+          codec: candidate.config,
+          width,
+          height,
+          bitrate,
+          framerate: fps
+        });
+        if (support.supported) return candidate;
+      } catch {
+        // Try the next codec
+      }
+    }
+    return null;
+  }
+
+  private createFrameCanvas(width: number, height: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { alpha: false });
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    return { canvas, ctx };
+  }
+
+  private drawFrame(ctx: CanvasRenderingContext2D, image: CanvasImageSource, width: number, height: number) {
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+  }
+
+  private async encodeWithWebCodecs(
+    options: VideoEncodeOptions & { bitrate: number },
+    candidate: EncoderCandidate
+  ): Promise<Blob> {
+    const { width, height, fps, frameCount, bitrate } = options;
+    const { canvas, ctx } = this.createFrameCanvas(width, height);
+    const muxer = new WebMMuxer({ width, height, codec: candidate.codec });
+    const frameDuration = 1000000 / fps; // microseconds
+    const keyFrameInterval = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SECONDS));
+
+    let encoderError: Error | null = null;
+    const encoder = new VideoEncoder({
+      output: (chunk) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        muxer.addFrame(data, chunk.timestamp / 1000, chunk.type === 'key');
+      },
+      error: (error) => {
+        encoderError = error instanceof Error ? error : new Error(String(error));
+      }
+    });
+
+    encoder.configure({
+      codec: candidate.config,
+      width,
+      height,
+      bitrate,
+      framerate: fps
+    });
+
+    try {
+      for (let i = 0; i < frameCount; i++) {
+        if (encoderError) throw encoderError;
+
+        const image = await options.renderFrame(i, i / fps);
+        this.drawFrame(ctx, image, width, height);
+
+        const frame = new VideoFrame(canvas, {
+          timestamp: Math.round(i * frameDuration),
+          duration: Math.round(frameDuration)
+        });
+        encoder.encode(frame, { keyFrame: i % keyFrameInterval === 0 });
+        frame.close();
+
+        while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+          await wait(5);
+        }
+
+        options.onFrameEncoded?.(i);
+      }
+
+      await encoder.flush();
+      if (encoderError) throw encoderError;
+    } finally {
+      if (encoder.state !== 'closed') {
+        encoder.close();
+      }
+    }
+
+    return muxer.finalize((frameCount * 1000) / fps);
+  }
+
+  private async encodeWithMediaRecorder(options: VideoEncodeOptions & { bitrate: number }): Promise<Blob> {
+    const { width, height, fps, frameCount, bitrate } = options;
+    const { canvas, ctx } = this.createFrameCanvas(width, height);
+    const stream = canvas.captureStream(0);
+    const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+    const mimeType = RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: bitrate });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    try {
+      for (let i = 0; i < frameCount; i++) {
+        const image = await options.renderFrame(i, i / fps);
+        this.drawFrame(ctx, image, width, height);
+
+        // Recording only runs while a frame is on screen, so slow renders do not stretch the video
+        if (recorder.state === 'inactive') {
+          recorder.start();
+        } else {
+          recorder.resume();
+        }
+        track.requestFrame();
+        await wait(1000 / fps);
+        recorder.pause();
+
+        options.onFrameEncoded?.(i);
+      }
+    } finally {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+      stream.getTracks().forEach(t => t.stop());
+    }
+
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+  }
+}
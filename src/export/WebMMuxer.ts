@@ -0,0 +1,199 @@
+/**
+ * Minimal WebM (Matroska) muxer for a single video track
+ * Collects encoded VP8/VP9 frames in memory and writes them as SimpleBlocks,
+ * starting a new cluster at every keyframe
+ */
+
+export type WebMVideoCodec = 'V_VP8' | 'V_VP9';
+
+export interface WebMMuxerOptions {
+  width: number;
+  height: number;
+  codec: WebMVideoCodec;
+}
+
+interface MuxedFrame {
+  data: Uint8Array;
+  timestamp: number; // milliseconds
+  keyFrame: boolean;
+}
+
+// Matroska element ids
+const EBML = [0x1a, 0x45, 0xdf, 0xa3];
+const EBML_VERSION = [0x42, 0x86];
+const EBML_READ_VERSION = [0x42, 0xf7];
+const EBML_MAX_ID_LENGTH = [0x42, 0xf2];
+const EBML_MAX_SIZE_LENGTH = [0x42, 0xf3];
+const DOC_TYPE = [0x42, 0x82];
+const DOC_TYPE_VERSION = [0x42, 0x87];
+const DOC_TYPE_READ_VERSION = [0x42, 0x85];
+const SEGMENT = [0x18, 0x53, 0x80, 0x67];
+const INFO = [0x15, 0x49, 0xa9, 0x66];
+const TIMECODE_SCALE = [0x2a, 0xd7, 0xb1];
+const MUXING_APP = [0x4d, 0x80];
+const WRITING_APP = [0x57, 0x41];
+const DURATION = [0x44, 0x89];
+const TRACKS = [0x16, 0x54, 0xae, 0x6b];
+const TRACK_ENTRY = [0xae];
+const TRACK_NUMBER = [0xd7];
+const TRACK_UID = [0x73, 0xc5];
+const TRACK_TYPE = [0x83];
+const FLAG_LACING = [0x9c];
+const CODEC_ID = [0x86];
+const VIDEO = [0xe0];
+const PIXEL_WIDTH = [0xb0];
+const PIXEL_HEIGHT = [0xba];
+const CLUSTER = [0x1f, 0x43, 0xb6, 0x75];
+const CLUSTER_TIMECODE = [0xe7];
+const SIMPLE_BLOCK = [0xa3];
+
+const VIDEO_TRACK_NUMBER = 1;
+const TRACK_TYPE_VIDEO = 1;
+
+// SimpleBlock timecodes are signed 16-bit offsets from the cluster timecode
+const MAX_CLUSTER_SPAN_MS = 32767;
+
+type EBMLData = Uint8Array | Uint8Array[];
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+// EBML variable-length size: the leading 1-bit marks how many bytes follow
+const encodeSize = (size: number): Uint8Array => {
+  for (let length = 1; length <= 8; length++) {
+    if (size < Math.pow(2, 7 * length) - 1) {
+      const bytes = new Uint8Array(length);
+      let value = size;
+      for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = value % 256;
+        value = Math.floor(value / 256);
+      }
+      bytes[0] |= 1 << (8 - length);
+      return bytes;
+    }
+  }
+  throw new Error(`EBML element too large: ${size} bytes`);
+};
+
+const encodeUInt = (value: number): Uint8Array => {
+  const bytes: number[] = [];
+  let remaining = Math.max(0, Math.floor(value));
+  do {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return new Uint8Array(bytes);
+};
+
+const encodeFloat = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const encodeString = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+const element = (id: number[], data: EBMLData): Uint8Array => {
+  const payload = Array.isArray(data) ? concatBytes(data) : data;
+  return concatBytes([new Uint8Array(id), encodeSize(payload.length), payload]);
+};
+
+const uintElement = (id: number[], value: number) => element(id, encodeUInt(value));
+
+export class WebMMuxer {
+  private options: WebMMuxerOptions;
+  private frames: MuxedFrame[] = [];
+
+  constructor(options: WebMMuxerOptions) {
+    this.options = options;
+  }
+
+  addFrame(data: Uint8Array, timestamp: number, keyFrame: boolean) {
+    if (this.frames.length === 0 && !keyFrame) {
+      throw new Error('A WebM stream must start with a keyframe');
+    }
+    this.frames.push({ data, timestamp: Math.max(0, Math.round(timestamp)), keyFrame });
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Write the container; duration is in milliseconds
+   */
+  finalize(duration: number): Blob {
+    const header = element(EBML, [
+      uintElement(EBML_VERSION, 1),
+      uintElement(EBML_READ_VERSION, 1),
+      uintElement(EBML_MAX_ID_LENGTH, 4),
+      uintElement(EBML_MAX_SIZE_LENGTH, 8),
+      element(DOC_TYPE, encodeString('webm')),
+      uintElement(DOC_TYPE_VERSION, 2),
+      uintElement(DOC_TYPE_READ_VERSION, 2)
+    ]);
+
+    const info = element(INFO, [
+      uintElement(TIMECODE_SCALE, 1000000), // timecodes in milliseconds
+      element(MUXING_APP, encodeString('FlashFX')),
+      element(WRITING_APP, encodeString('FlashFX')),
+      element(DURATION, encodeFloat(duration))
+    ]);
+
+    const tracks = element(TRACKS, [
+      element(TRACK_ENTRY, [
+        uintElement(TRACK_NUMBER, VIDEO_TRACK_NUMBER),
+        uintElement(TRACK_UID, VIDEO_TRACK_NUMBER),
+        uintElement(TRACK_TYPE, TRACK_TYPE_VIDEO),
+        uintElement(FLAG_LACING, 0),
+        element(CODEC_ID, encodeString(this.options.codec)),
+        element(VIDEO, [
+          uintElement(PIXEL_WIDTH, this.options.width),
+          uintElement(PIXEL_HEIGHT, this.options.height)
+        ])
+      ])
+    ]);
+
+    const segment = element(SEGMENT, [info, tracks, ...this.buildClusters()]);
+    return new Blob([header, segment], { type: 'video/webm' });
+  }
+
+  private buildClusters(): Uint8Array[] {
+    const clusters: Uint8Array[] = [];
+    let clusterStart = 0;
+    let blocks: Uint8Array[] = [];
+
+    const flush = () => {
+      if (blocks.length === 0) return;
+      clusters.push(element(CLUSTER, [uintElement(CLUSTER_TIMECODE, clusterStart), ...blocks]));
+      blocks = [];
+    };
+
+    this.frames.forEach(frame => {
+      if (blocks.length === 0 || frame.keyFrame || frame.timestamp - clusterStart > MAX_CLUSTER_SPAN_MS) {
+        flush();
+        clusterStart = frame.timestamp;
+      }
+      blocks.push(this.simpleBlock(frame, frame.timestamp - clusterStart));
+    });
+    flush();
+
+    return clusters;
+  }
+
+  private simpleBlock(frame: MuxedFrame, relativeTimecode: number): Uint8Array {
+    const header = new Uint8Array(4);
+    header[0] = 0x80 | VIDEO_TRACK_NUMBER;
+    new DataView(header.buffer).setInt16(1, relativeTimecode);
+    header[3] = frame.keyFrame ? 0x80 : 0;
+    return element(SIMPLE_BLOCK, [header, frame.data]);
+  }
+}
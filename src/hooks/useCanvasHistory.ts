@@ -1,57 +1,303 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { DesignElement } from '../types/design';
+import {
+  HistoryPatch,
+  applyPatch,
+  canMergePatches,
+  describePatch,
+  diffElements,
+  mergePatches
+} from '../utils/historyPatch';
 
 export interface CanvasState {
   elements: DesignElement[];
   selectedElements: string[];
 }
 
-export const useCanvasHistory = (initialState: CanvasState) => {
-  const [currentState, setCurrentState] = useState<CanvasState>(initialState);
-  const [undoStack, setUndoStack] = useState<CanvasState[]>([]);
-  const [redoStack, setRedoStack] = useState<CanvasState[]>([]);
-  const isApplyingHistory = useRef(false);
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  patch: HistoryPatch;
+  mergeKey?: string;
+}
+
+export interface HistoryOptions {
+  limit?: number; // maximum number of undo steps kept behind the current state
+  mergeWindow?: number; // ms within which matching updates coalesce into one entry
+}
+
+export interface PushOptions {
+  label?: string;
+  // Entries with the same key always coalesce; without one, updates to the same properties coalesce within mergeWindow
+  mergeKey?: string;
+}
+
+// One step on the active line of the history tree, oldest first
+export interface HistoryListItem {
+  entry: HistoryEntry;
+  status: 'past' | 'current' | 'future';
+  siblingIds: string[]; // alternative branches from the same parent, including this entry
+}
+
+export interface CanvasHistoryTimeline {
+  items: HistoryListItem[];
+  headId: string | null; // null when at the initial state
+  jumpTo: (entryId: string | null) => void;
+  // Jump to the latest state of the branch that starts at entryId
+  jumpToBranch: (entryId: string) => void;
+}
+
+interface HistoryNode {
+  entry: HistoryEntry;
+  parentId: string | null;
+}
+
+// Undo entries form a tree so that editing after an undo branches instead of discarding the redo future
+interface HistoryState {
+  current: CanvasState;
+  nodes: Record<string, HistoryNode>;
+  children: Record<string, string[]>; // keyed by parent id, ROOT for the initial state
+  activeChild: Record<string, string>; // the branch redo follows from each parent
+  headId: string | null;
+  // Whether the head entry may still absorb the next change; cleared by any navigation
+  canMerge: boolean;
+}
+
+const ROOT = '__root__';
+export const DEFAULT_HISTORY_LIMIT = 100;
+const DEFAULT_MERGE_WINDOW = 600;
+
+let entryCounter = 0;
+
+const getPath = (nodes: Record<string, HistoryNode>, id: string | null): string[] => {
+  const path: string[] = [];
+  for (let cursor = id; cursor !== null; cursor = nodes[cursor].parentId) {
+    path.unshift(cursor);
+  }
+  return path;
+};
+
+const getBranchTip = (state: HistoryState, id: string) => {
+  let tip = id;
+  while (state.activeChild[tip]) tip = state.activeChild[tip];
+  return tip;
+};
+
+/**
+ * Drop the oldest steps until the head is at most limit steps deep,
+ * along with any branches that split off before the new oldest step
+ */
+const pruneHistory = (state: HistoryState, limit: number): HistoryState => {
+  let path = getPath(state.nodes, state.headId);
+  if (path.length <= limit) return state;
+
+  const nodes = { ...state.nodes };
+  const children = { ...state.children };
+  const activeChild = { ...state.activeChild };
+
+  const removeSubtree = (id: string) => {
+    (children[id] || []).forEach(removeSubtree);
+    delete nodes[id];
+    delete children[id];
+    delete activeChild[id];
+  };
+
+  while (path.length > limit) {
+    const [oldest, next] = path;
+    (children[ROOT] || []).filter(id => id !== oldest).forEach(removeSubtree);
+    children[ROOT] = children[oldest] || [];
+    activeChild[ROOT] = next;
+    children[ROOT].forEach(id => {
+      nodes[id] = { ...nodes[id], parentId: null };
+    });
+    delete nodes[oldest];
+    delete children[oldest];
+    delete activeChild[oldest];
+    path = path.slice(1);
+  }
+
+  return { ...state, nodes, children, activeChild };
+};
+
+const moveHead = (state: HistoryState, targetId: string | null): HistoryState => {
+  if (targetId === state.headId || (targetId !== null && !state.nodes[targetId])) return state;
 
-  const pushToHistory = useCallback((newState: CanvasState) => {
-    if (isApplyingHistory.current) return;
-    
-    setUndoStack(prev => [...prev, currentState]);
-    setRedoStack([]); // Clear redo stack when new action is performed
-    setCurrentState(newState);
-  }, [currentState]);
+  const fromPath = getPath(state.nodes, state.headId);
+  const toPath = getPath(state.nodes, targetId);
+  let common = 0;
+  while (common < fromPath.length && common < toPath.length && fromPath[common] === toPath[common]) {
+    common++;
+  }
+
+  let elements = state.current.elements;
+  let selectedElements = state.current.selectedElements;
+
+  fromPath.slice(common).reverse().forEach(id => {
+    const { patch } = state.nodes[id].entry;
+    elements = applyPatch(elements, patch.ops, 'backward');
+    selectedElements = patch.selection.before;
+  });
+
+  const activeChild = { ...state.activeChild };
+  toPath.slice(common).forEach(id => {
+    const { patch } = state.nodes[id].entry;
+    elements = applyPatch(elements, patch.ops, 'forward');
+    selectedElements = patch.selection.after;
+    activeChild[state.nodes[id].parentId ?? ROOT] = id;
+  });
+
+  return {
+    ...state,
+    current: { elements, selectedElements },
+    activeChild,
+    headId: targetId,
+    canMerge: false
+  };
+};
+
+export const useCanvasHistory = (initialState: CanvasState, options: HistoryOptions = {}) => {
+  const limit = Math.max(1, options.limit ?? DEFAULT_HISTORY_LIMIT);
+  const mergeWindow = options.mergeWindow ?? DEFAULT_MERGE_WINDOW;
+
+  const [history, setHistory] = useState<HistoryState>({
+    current: initialState,
+    nodes: {},
+    children: {},
+    activeChild: {},
+    headId: null,
+    canMerge: false
+  });
+
+  const pushToHistory = useCallback((newState: CanvasState, pushOptions: PushOptions = {}) => {
+    const now = Date.now();
+
+    setHistory(prev => {
+      const ops = diffElements(prev.current.elements, newState.elements);
+
+      // Selection-only changes are not undoable steps
+      if (ops.length === 0) {
+        return { ...prev, current: newState };
+      }
+
+      const head = prev.headId ? prev.nodes[prev.headId] : null;
+      const top = head?.entry;
+      // A keyed gesture always coalesces, even when a tick changes fewer properties than the one before
+      const continuesGesture = top && prev.canMerge && !pushOptions.label && (
+        pushOptions.mergeKey
+          ? top.mergeKey === pushOptions.mergeKey
+          : !top.mergeKey && now - top.timestamp <= mergeWindow && canMergePatches(top.patch.ops, ops)
+      );
+
+      if (head && top && continuesGesture) {
+        const mergedOps = mergePatches(top.patch.ops, ops);
+        const nodes = { ...prev.nodes };
+
+        if (mergedOps.length === 0) {
+          // The gesture returned to where it started
+          const parentKey = head.parentId ?? ROOT;
+          const children = { ...prev.children, [parentKey]: prev.children[parentKey].filter(id => id !== top.id) };
+          const activeChild = { ...prev.activeChild };
+          delete nodes[top.id];
+          if (activeChild[parentKey] === top.id) delete activeChild[parentKey];
+          return { ...prev, current: newState, nodes, children, activeChild, headId: head.parentId, canMerge: false };
+        }
+
+        nodes[top.id] = {
+          ...head,
+          entry: {
+            ...top,
+            label: describePatch(mergedOps, newState.elements),
+            timestamp: now,
+            patch: { ops: mergedOps, selection: { ...top.patch.selection, after: newState.selectedElements } }
+          }
+        };
+        return { ...prev, current: newState, nodes };
+      }
+
+      const entry: HistoryEntry = {
+        id: `history-${now}-${entryCounter++}`,
+        label: pushOptions.label || describePatch(ops, newState.elements),
+        timestamp: now,
+        patch: {
+          ops,
+          selection: { before: prev.current.selectedElements, after: newState.selectedElements }
+        },
+        mergeKey: pushOptions.mergeKey
+      };
+      const parentKey = prev.headId ?? ROOT;
+
+      // The previous redo future stays reachable as a sibling branch
+      return pruneHistory({
+        current: newState,
+        nodes: { ...prev.nodes, [entry.id]: { entry, parentId: prev.headId } },
+        children: { ...prev.children, [parentKey]: [...(prev.children[parentKey] || []), entry.id] },
+        activeChild: { ...prev.activeChild, [parentKey]: entry.id },
+        headId: entry.id,
+        canMerge: true
+      }, limit);
+    });
+  }, [limit, mergeWindow]);
 
   const undo = useCallback(() => {
-    if (undoStack.length === 0) return;
-    
-    isApplyingHistory.current = true;
-    const previousState = undoStack[undoStack.length - 1];
-    setUndoStack(prev => prev.slice(0, -1));
-    setRedoStack(prev => [...prev, currentState]);
-    setCurrentState(previousState);
-    isApplyingHistory.current = false;
-  }, [undoStack, currentState]);
+    setHistory(prev => (prev.headId ? moveHead(prev, prev.nodes[prev.headId].parentId) : prev));
+  }, []);
 
   const redo = useCallback(() => {
-    if (redoStack.length === 0) return;
-    
-    isApplyingHistory.current = true;
-    const nextState = redoStack[redoStack.length - 1];
-    setRedoStack(prev => prev.slice(0, -1));
-    setUndoStack(prev => [...prev, currentState]);
-    setCurrentState(nextState);
-    isApplyingHistory.current = false;
-  }, [redoStack, currentState]);
-
-  const canUndo = undoStack.length > 0;
-  const canRedo = redoStack.length > 0;
+    setHistory(prev => {
+      const next = prev.activeChild[prev.headId ?? ROOT];
+      return next ? moveHead(prev, next) : prev;
+    });
+  }, []);
+
+  const jumpTo = useCallback((entryId: string | null) => {
+    setHistory(prev => moveHead(prev, entryId));
+  }, []);
+
+  const jumpToBranch = useCallback((entryId: string) => {
+    setHistory(prev => (prev.nodes[entryId] ? moveHead(prev, getBranchTip(prev, entryId)) : prev));
+  }, []);
+
+  // Replace the canvas without recording an undo step
+  const setCurrentState = useCallback((state: CanvasState) => {
+    setHistory(prev => ({ ...prev, current: state, canMerge: false }));
+  }, []);
+
+  const items = useMemo(() => {
+    const past = getPath(history.nodes, history.headId);
+    const future: string[] = [];
+    for (let cursor = history.activeChild[history.headId ?? ROOT]; cursor; cursor = history.activeChild[cursor]) {
+      future.push(cursor);
+    }
+
+    return [...past, ...future].map((id, index): HistoryListItem => ({
+      entry: history.nodes[id].entry,
+      status: index < past.length - 1 ? 'past' : index === past.length - 1 ? 'current' : 'future',
+      siblingIds: history.children[history.nodes[id].parentId ?? ROOT] || [id]
+    }));
+  }, [history.nodes, history.children, history.activeChild, history.headId]);
+
+  const timeline: CanvasHistoryTimeline = useMemo(() => ({
+    items,
+    headId: history.headId,
+    jumpTo,
+    jumpToBranch
+  }), [items, history.headId, jumpTo, jumpToBranch]);
+
+  const headEntry = history.headId ? history.nodes[history.headId].entry : null;
+  const redoId = history.activeChild[history.headId ?? ROOT];
+  const redoEntry = redoId ? history.nodes[redoId].entry : null;
 
   return {
-    currentState,
+    currentState: history.current,
     pushToHistory,
     undo,
     redo,
-    canUndo,
-    canRedo,
+    canUndo: headEntry !== null,
+    canRedo: redoEntry !== null,
+    undoLabel: headEntry?.label ?? null,
+    redoLabel: redoEntry?.label ?? null,
+    timeline,
     setCurrentState
   };
-};
\ No newline at end of file
+};
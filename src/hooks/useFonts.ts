@@ -21,14 +21,84 @@ const DEMO_GOOGLE_FONTS: GoogleFont[] = [
   { family: 'JetBrains Mono', variants: ['300', '400', '500'], subsets: ['latin'], category: 'monospace' },
 ];
 
+// Custom fonts are registered document-wide, so they are shared by every useFonts instance
+const customFontRegistry = new Map<string, CustomFont>();
+const registryListeners = new Set<(fonts: CustomFont[]) => void>();
+
+export const getCustomFonts = (): CustomFont[] => Array.from(customFontRegistry.values());
+
+const notifyRegistryListeners = () => {
+  const fonts = getCustomFonts();
+  registryListeners.forEach(listener => listener(fonts));
+};
+
+/**
+ * Load a font file into the document under the given family name
+ * A family that is already registered keeps its existing font
+ */
+export const registerCustomFont = async (family: string, file: Blob, format: string): Promise<CustomFont> => {
+  const existing = customFontRegistry.get(family);
+  if (existing) return existing;
+
+  const url = URL.createObjectURL(file);
+  try {
+    const fontFace = new FontFace(family, `url(${url})`, {
+      style: 'normal',
+      weight: '400'
+    });
+
+    await fontFace.load();
+    document.fonts.add(fontFace);
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+
+  const customFont: CustomFont = { family, url, format, file };
+  customFontRegistry.set(family, customFont);
+  notifyRegistryListeners();
+  return customFont;
+};
+
+const unregisterCustomFont = (family: string) => {
+  const customFont = customFontRegistry.get(family);
+  if (!customFont) return;
+
+  URL.revokeObjectURL(customFont.url);
+  customFontRegistry.delete(family);
+  notifyRegistryListeners();
+};
+
 export const useFonts = () => {
-  const [fontState, setFontState] = useState<FontState>({
-    googleFonts: DEMO_GOOGLE_FONTS,
-    customFonts: [],
-    loadedFonts: new Set(['Inter', 'Arial', 'Helvetica', 'Times New Roman', 'Georgia', 'Verdana']),
-    isLoading: false
+  const [fontState, setFontState] = useState<FontState>(() => {
+    const customFonts = getCustomFonts();
+    return {
+      googleFonts: DEMO_GOOGLE_FONTS,
+      customFonts,
+      loadedFonts: new Set([
+        'Inter', 'Arial', 'Helvetica', 'Times New Roman', 'Georgia', 'Verdana',
+        ...customFonts.map(font => font.family)
+      ]),
+      isLoading: false
+    };
   });
 
+  useEffect(() => {
+    const listener = (customFonts: CustomFont[]) => {
+      setFontState(prev => {
+        const loadedFonts = new Set(prev.loadedFonts);
+        prev.customFonts.forEach(font => loadedFonts.delete(font.family));
+        customFonts.forEach(font => loadedFonts.add(font.family));
+        return { ...prev, customFonts, loadedFonts };
+      });
+    };
+
+    registryListeners.add(listener);
+    return () => {
+      registryListeners.delete(listener);
+    };
+  }, []);
+
   const loadGoogleFont = useCallback(async (fontFamily: string, variants: string[] = ['400']) => {
     if (fontState.loadedFonts.has(fontFamily)) return;
 
@@ -63,31 +133,10 @@ export const useFonts = () => {
 
   const addCustomFont = useCallback(async (file: File) => {
     try {
-      const url = URL.createObjectURL(file);
       const fontFamily = file.name.replace(/\.(ttf|otf|woff|woff2)$/i, '');
       const format = file.name.split('.').pop()?.toLowerCase() || 'truetype';
 
-      // Create font face rule
-      const fontFace = new FontFace(fontFamily, `url(${url})`, {
-        style: 'normal',
-        weight: '400'
-      });
-
-      await fontFace.load();
-      document.fonts.add(fontFace);
-
-      const customFont: CustomFont = {
-        family: fontFamily,
-        url,
-        format: format === 'ttf' ? 'truetype' : format
-      };
-
-      setFontState(prev => ({
-        ...prev,
-        customFonts: [...prev.customFonts, customFont],
-        loadedFonts: new Set([...prev.loadedFonts, fontFamily])
-      }));
-
+      await registerCustomFont(fontFamily, file, format === 'ttf' ? 'truetype' : format === 'otf' ? 'opentype' : format);
       return fontFamily;
     } catch (error) {
       console.error('Failed to load custom font:', error);
@@ -96,21 +145,7 @@ export const useFonts = () => {
   }, []);
 
   const removeCustomFont = useCallback((fontFamily: string) => {
-    setFontState(prev => {
-      const customFont = prev.customFonts.find(f => f.family === fontFamily);
-      if (customFont) {
-        URL.revokeObjectURL(customFont.url);
-      }
-
-      const newLoadedFonts = new Set(prev.loadedFonts);
-      newLoadedFonts.delete(fontFamily);
-
-      return {
-        ...prev,
-        customFonts: prev.customFonts.filter(f => f.family !== fontFamily),
-        loadedFonts: newLoadedFonts
-      };
-    });
+    unregisterCustomFont(fontFamily);
   }, []);
 
   const getAllFonts = useCallback(() => {
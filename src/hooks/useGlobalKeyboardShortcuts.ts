@@ -1,6 +1,7 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { DesignElement } from '../types/design';
 import { createShapeAtCenter, CanvasViewport } from '../utils/canvasUtils';
+import { PlaybackState } from './usePlayback';
 
 interface GlobalKeyboardShortcutsProps {
   onAddElement: (element: DesignElement) => void;
@@ -20,6 +21,8 @@ interface GlobalKeyboardShortcutsProps {
   onNudge: (direction: 'up' | 'down' | 'left' | 'right', amount: number) => void;
   zoom?: number;
   setZoom?: (zoom: number) => void;
+  // Only passed while Animate mode is active; Space and arrow keys then drive playback
+  playback?: PlaybackState;
 }
 
 export const useGlobalKeyboardShortcuts = ({
@@ -40,6 +43,7 @@ export const useGlobalKeyboardShortcuts = ({
   onNudge,
   zoom,
   setZoom,
+  playback,
 }: GlobalKeyboardShortcutsProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -218,6 +222,27 @@ export const useGlobalKeyboardShortcuts = ({
       e.preventDefault();
     }
 
+    // Transport shortcuts take precedence over nudging while animating
+    if (playback && !isModifierPressed && !altKey) {
+      switch (key) {
+        case ' ':
+          playback.togglePlay();
+          return;
+        case 'ArrowLeft':
+          playback.stepFrames(shiftKey ? -playback.fps : -1);
+          return;
+        case 'ArrowRight':
+          playback.stepFrames(shiftKey ? playback.fps : 1);
+          return;
+        case 'ArrowUp':
+          playback.goToStart();
+          return;
+        case 'ArrowDown':
+          playback.goToEnd();
+          return;
+      }
+    }
+
     // Shape Creation Shortcuts (only when no modifiers are pressed)
     if (!isModifierPressed && !shiftKey && !altKey) {
       switch (key.toLowerCase()) {
@@ -325,7 +350,8 @@ export const useGlobalKeyboardShortcuts = ({
     setSnapEnabled,
     onNudge,
     zoom,
-    setZoom
+    setZoom,
+    playback
   ]);
 
   useEffect(() => {
@@ -0,0 +1,182 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { LoopRange } from '../types/timeline';
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+
+// Shortest loop region that still plays back, in seconds
+const MIN_LOOP_LENGTH = 0.01;
+
+interface UsePlaybackOptions {
+  duration: number;
+  fps: number;
+}
+
+export interface PlaybackState {
+  currentTime: number;
+  duration: number;
+  fps: number;
+  isPlaying: boolean;
+  speed: number;
+  loopEnabled: boolean;
+  loopRange: LoopRange | null;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  seek: (time: number) => void;
+  stepFrames: (frames: number) => void;
+  goToStart: () => void;
+  goToEnd: () => void;
+  setSpeed: (speed: number) => void;
+  setLoopEnabled: (enabled: boolean) => void;
+  setLoopRange: (range: LoopRange | null) => void;
+}
+
+const snapToFrame = (time: number, fps: number) => Math.round(time * fps) / fps;
+
+/**
+ * Timeline playback controller
+ * Advances the playhead on requestAnimationFrame, quantized to the project fps,
+ * so the preview only re-renders when a new frame is reached
+ */
+export const usePlayback = ({ duration, fps }: UsePlaybackOptions): PlaybackState => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeedState] = useState(1);
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [loopRange, setLoopRangeState] = useState<LoopRange | null>(null);
+
+  // Latest values for the animation frame loop
+  const timeRef = useRef(0);
+  const speedRef = useRef(speed);
+  const anchorRef = useRef({ wallTime: 0, time: 0 });
+  const playbackRangeRef = useRef<LoopRange>({ start: 0, end: duration });
+  const loopEnabledRef = useRef(loopEnabled);
+
+  // With looping on, playback wraps inside the loop range (or the whole timeline when unset)
+  playbackRangeRef.current = loopEnabled && loopRange
+    ? loopRange
+    : { start: 0, end: duration };
+  loopEnabledRef.current = loopEnabled;
+
+  const commitTime = useCallback((time: number) => {
+    timeRef.current = time;
+    setCurrentTime(time);
+  }, []);
+
+  // Restart wall-clock measurement from the current playhead
+  const reanchor = useCallback(() => {
+    anchorRef.current = { wallTime: performance.now(), time: timeRef.current };
+  }, []);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId = 0;
+    reanchor();
+
+    const tick = (now: number) => {
+      const anchor = anchorRef.current;
+      const { start, end } = playbackRangeRef.current;
+      let time = anchor.time + ((now - anchor.wallTime) / 1000) * speedRef.current;
+
+      if (time >= end) {
+        if (loopEnabledRef.current && end - start >= MIN_LOOP_LENGTH) {
+          time = start + ((time - start) % (end - start));
+          anchorRef.current = { wallTime: now, time };
+        } else {
+          commitTime(end);
+          setIsPlaying(false);
+          return;
+        }
+      }
+
+      // Only publish whole frames; sub-frame ticks would re-render the same image
+      const frameTime = Math.floor(time * fps + 1e-6) / fps;
+      if (frameTime !== timeRef.current) {
+        commitTime(frameTime);
+      }
+
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, fps, reanchor, commitTime]);
+
+  const play = useCallback(() => {
+    const { start, end } = playbackRangeRef.current;
+    // Rewind when starting from the end or from outside the loop region
+    if (timeRef.current >= end || (loopEnabledRef.current && timeRef.current < start)) {
+      commitTime(start);
+    }
+    setIsPlaying(true);
+  }, [commitTime]);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    if (isPlaying) {
+      pause();
+    } else {
+      play();
+    }
+  }, [isPlaying, play, pause]);
+
+  const seek = useCallback((time: number) => {
+    commitTime(Math.max(0, Math.min(duration, time)));
+    reanchor();
+  }, [duration, commitTime, reanchor]);
+
+  const stepFrames = useCallback((frames: number) => {
+    setIsPlaying(false);
+    seek(snapToFrame(timeRef.current, fps) + frames / fps);
+  }, [fps, seek]);
+
+  const goToStart = useCallback(() => {
+    seek(playbackRangeRef.current.start);
+  }, [seek]);
+
+  const goToEnd = useCallback(() => {
+    setIsPlaying(false);
+    seek(playbackRangeRef.current.end);
+  }, [seek]);
+
+  const setSpeed = useCallback((value: number) => {
+    if (!(value > 0)) return;
+    reanchor();
+    speedRef.current = value;
+    setSpeedState(value);
+  }, [reanchor]);
+
+  const setLoopRange = useCallback((range: LoopRange | null) => {
+    if (!range) {
+      setLoopRangeState(null);
+      return;
+    }
+    const start = Math.max(0, Math.min(range.start, range.end));
+    const end = Math.min(duration, Math.max(range.start, range.end));
+    setLoopRangeState(end - start >= MIN_LOOP_LENGTH ? { start, end } : null);
+  }, [duration]);
+
+  return {
+    currentTime,
+    duration,
+    fps,
+    isPlaying,
+    speed,
+    loopEnabled,
+    loopRange,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    stepFrames,
+    goToStart,
+    goToEnd,
+    setSpeed,
+    setLoopEnabled,
+    setLoopRange
+  };
+};
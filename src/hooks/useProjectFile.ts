@@ -1,11 +1,10 @@
 import { useState, useCallback } from 'react';
-import { DesignElement } from '../types/design';
-import { ProjectCanvas, LoadProjectResult, SaveProjectOptions } from '../types/projectFile';
+import { LoadedProject, LoadProjectResult, SaveProjectOptions } from '../types/projectFile';
 import { ProjectFileService } from '../services/ProjectFileService';
-import { Animation } from '../types/project';
+import { registerCustomFont } from './useFonts';
 
 export interface UseProjectFileOptions {
-  onProjectLoaded?: (elements: DesignElement[], canvas: ProjectCanvas) => void;
+  onProjectLoaded?: (project: LoadedProject) => void;
 }
 
 export function useProjectFile(options?: UseProjectFileOptions) {
@@ -31,24 +30,51 @@ export function useProjectFile(options?: UseProjectFileOptions) {
     [projectService]
   );
 
+  // Register fonts and hand the project to the editor
+  const openProject = useCallback(
+    async (result: LoadProjectResult): Promise<LoadProjectResult> => {
+      if (!result.success || !result.data) return result;
+
+      const project = projectService.openProject(result.data);
+
+      // Fonts are registered before the elements that use them are rendered
+      const fontWarnings: string[] = [];
+      await Promise.all(project.fonts.map(async (font) => {
+        try {
+          await registerCustomFont(font.family, font.data, font.format);
+        } catch (error) {
+          fontWarnings.push(`Failed to load font ${font.family}: ${error}`);
+        }
+      }));
+
+      if (options?.onProjectLoaded) {
+        options.onProjectLoaded(project);
+      }
+
+      setCurrentProjectName(project.name);
+
+      return fontWarnings.length > 0
+        ? { ...result, warnings: [...(result.warnings || []), ...fontWarnings] }
+        : result;
+    },
+    [projectService, options]
+  );
+
+  /**
+   * Read a project file and open it, unless the integrity check found problems;
+   * those results are returned for review and opened with openProject
+   */
   const loadProject = useCallback(
     async (file: File): Promise<LoadProjectResult> => {
       setIsLoading(true);
       try {
         const result = await projectService.loadProject(file);
 
-        if (result.success && result.data) {
-          const elements = Object.values(result.data.shapes);
-          const canvas = result.data.canvas;
-
-          if (options?.onProjectLoaded) {
-            options.onProjectLoaded(elements, canvas);
-          }
-
-          setCurrentProjectName(result.data.manifest.name);
+        if (result.integrity && result.integrity.issues.length > 0) {
+          return result;
         }
 
-        return result;
+        return await openProject(result);
       } catch (error) {
         console.error('Failed to load project:', error);
         throw error;
@@ -56,12 +82,13 @@ export function useProjectFile(options?: UseProjectFileOptions) {
         setIsLoading(false);
       }
     },
-    [projectService, options]
+    [projectService, openProject]
   );
 
   return {
     saveProject,
     loadProject,
+    openProject,
     currentProjectName,
     setCurrentProjectName,
     isSaving,
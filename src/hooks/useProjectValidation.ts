@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from 'react';
 import { createProjectValidator, validateProjectSize, validateElementsCount, sanitizeAssetUrl } from '../utils/projectSchema';
+import { formatMigrationReport, migrateProjectJson } from '../utils/projectMigrations';
 import { ProjectFile, ProjectValidationError, ProjectApplyResult } from '../types/project';
 
 interface ProjectValidationHook {
@@ -40,7 +41,22 @@ export const useProjectValidation = (): ProjectValidationHook => {
         return { success: false, errors: [sizeError] };
       }
 
-      // Step 3: Schema validation with AJV
+      // Step 3: Upgrade files saved with an older schema version
+      const migrationWarnings: string[] = [];
+      try {
+        const { project: migrated, report } = migrateProjectJson(parsed);
+        parsed = migrated;
+        migrationWarnings.push(...formatMigrationReport(report));
+      } catch (error) {
+        const versionError: ProjectValidationError = {
+          path: 'schemaVersion',
+          message: error instanceof Error ? error.message : 'Unsupported schema version'
+        };
+        setLastValidationErrors([versionError]);
+        return { success: false, errors: [versionError] };
+      }
+
+      // Step 4: Schema validation with AJV
       const validator = validatorRef.current;
       const isValid = validator(parsed);
       
@@ -57,9 +73,9 @@ export const useProjectValidation = (): ProjectValidationHook => {
 
       const project = parsed as ProjectFile;
 
-      // Step 4: Business logic validation
+      // Step 5: Business logic validation
       const businessErrors: ProjectValidationError[] = [];
-      const warnings: string[] = [];
+      const warnings: string[] = [...migrationWarnings];
 
       // Validate elements count
       if (!validateElementsCount(project)) {
@@ -128,7 +144,8 @@ export const useProjectValidation = (): ProjectValidationHook => {
       return {
         success: true,
         warnings: warnings.length > 0 ? warnings : undefined,
-        changesSummary: `Project validated successfully - ${elementIds.length} elements, ${Object.keys(project.animations?.byId || {}).length} animations`
+        changesSummary: `Project validated successfully - ${elementIds.length} elements, ${Object.keys(project.animations?.byId || {}).length} animations`,
+        project
       };
 
     } catch (error) {
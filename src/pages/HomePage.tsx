@@ -256,7 +256,7 @@ export const HomePage: React.FC = () => {
     const result = await projectFileService.loadProject(file);
 
     if (result.success && result.data) {
-      const elements = Object.values(result.data.shapes);
+      const { elements } = projectFileService.toLoadedProject(result.data);
       const newProject = {
         name: result.data.manifest.name,
         data: {
@@ -0,0 +1,56 @@
+import { PipelineError, PipelineStage } from '../types/aiPipeline';
+import { AIProvider, AIProviderSettings, createDefaultAIProviderSettings } from '../types/aiProvider';
+import { ChatCompletionsProvider } from './ChatCompletionsProvider';
+import { MockAIProvider } from './MockAIProvider';
+
+const STORAGE_KEY = 'flashfx_ai_provider_settings';
+
+export class AIProviderService {
+  static loadSettings(): AIProviderSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        return { ...createDefaultAIProviderSettings(), ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('[AI] Failed to load provider settings:', error);
+    }
+    return createDefaultAIProviderSettings();
+  }
+
+  static saveSettings(settings: AIProviderSettings): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('[AI] Failed to save provider settings:', error);
+    }
+  }
+
+  static createProvider(settings: AIProviderSettings): AIProvider {
+    switch (settings.kind) {
+      case 'mock':
+        return new MockAIProvider();
+      case 'openai-compatible':
+        return new ChatCompletionsProvider(settings);
+    }
+  }
+
+  // The provider for the settings currently saved
+  static getProvider(): AIProvider {
+    return this.createProvider(this.loadSettings());
+  }
+
+  static createPipelineError(
+    stage: PipelineStage,
+    error: unknown,
+    recoverable: boolean = false
+  ): PipelineError {
+    return {
+      stage,
+      message: error instanceof Error ? error.message : String(error),
+      details: error,
+      timestamp: new Date().toISOString(),
+      recoverable,
+    };
+  }
+}
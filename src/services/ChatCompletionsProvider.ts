@@ -0,0 +1,253 @@
+import {
+  EditContextElement,
+  ElementPatch,
+  HighLevelShape,
+  LowLevelShape,
+  ValidationResponse,
+} from '../types/aiPipeline';
+import { AIProvider, AIProviderSettings } from '../types/aiProvider';
+import { JSONValidator } from '../utils/jsonValidator';
+
+const VALIDATION_TIMEOUT_MS = 30000;
+const GENERATION_TIMEOUT_MS = 60000;
+const MAX_RETRIES = 3;
+const MAX_REPAIR_ROUNDS = 1;
+const MAX_REPORTED_ERRORS = 20;
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const VALIDATOR_PROMPT = `You screen requests for FlashFX, a design and motion graphics tool.
+Accept requests to create UI elements, shapes, text, layouts, diagrams or animations,
+and requests to change, restyle, move or align existing elements.
+Reject anything else. Reply with a single character: 1 to accept, 0 to reject.`;
+
+const HIGH_LEVEL_PROMPT = `You plan designs for FlashFX on a 3840x2160 pixel canvas.
+Break the request into basic elements and reply with only a JSON array, no prose.
+Each item: {"type": "rectangle" | "circle" | "text" | "line" | "button", "positionX": number, "positionY": number, "width": number, "height": number, "content": string}
+positionX and positionY are the top-left corner in canvas pixels. content is the label of text and button elements; omit it otherwise.`;
+
+const LOW_LEVEL_PROMPT = `You style a single FlashFX element from a design plan.
+Reply with only a JSON object, no prose, in this shape:
+{"name": string, "version": "1.0", "timestamp": ISO 8601 string, "shapeType": "rectangle" | "circle" | "text" | "line" | "button",
+ "settings": {
+  "style": {"fillColor": hex, "strokeColor": hex, "strokeWidth": number, "opacity": 0-1, "borderRadius": number,
+            "useGradientFill": boolean, "gradientType": "linear" | "radial", "gradientColors": [{"color": hex, "position": 0-100}], "gradientAngle": number},
+  "dimensions": {"width": number, "height": number},
+  "scale": {"x": number, "y": number, "uniform": boolean},
+  "rotation": {"angle": number},
+  "text": {"content": string, "fontSize": number, "fontWeight": string, "fontFamily": string, "textColor": hex, "textAlign": "left" | "center" | "right", "verticalAlign": "top" | "middle" | "bottom"},
+  "line": {"lineType": "line" | "arrow", "arrowStart": boolean, "arrowEnd": boolean, "arrowheadType": "triangle" | "circle" | "bar" | "diamond", "arrowheadSize": number, "lineCap": "round" | "butt" | "square", "lineJoin": "round" | "bevel" | "miter", "dashArray": number[]}
+ }}
+Include "text" only for text and button elements and "line" only for lines. Match the style to the user's request.`;
+
+const EDIT_PROMPT = `You edit existing elements in FlashFX, a design tool with a 3840x2160 pixel canvas.
+You receive the user's request and the selected elements as JSON. x and y are the top-left corner in canvas pixels,
+colors are hex strings, opacity is 0-1, rotation is in degrees. Groups list their children in childIds.
+The x and y of an element with a parentId are in pixels relative to its group's top-left corner, not the canvas.
+Reply with only a JSON array, no prose, with one item per element that should change:
+{"elementId": string, "changes": {property: new value}, "reason": string}
+Only use properties that appear on the elements (plus "shadow": {"blur", "color", "x", "y"}), only include values that change,
+and never invent element ids. Reply with [] if nothing should change.`;
+
+/**
+ * Runs the pipeline against any API that implements OpenAI's /chat/completions endpoint
+ */
+export class ChatCompletionsProvider implements AIProvider {
+  readonly name: string;
+
+  constructor(private settings: AIProviderSettings) {
+    this.name = `${settings.model} @ ${settings.baseUrl}`;
+  }
+
+  private async complete(
+    messages: ChatMessage[],
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (signal?.aborted) {
+      throw new Error('Request cancelled by user');
+    }
+    if (!this.settings.apiKey) {
+      throw new Error('No API key configured (401). Add one in the AI settings or switch to the local mock.');
+    }
+
+    // Aborts on user cancel or when the stage takes too long
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      const response = await fetch(`${this.settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.settings.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.settings.model,
+          temperature: 0.4,
+          messages,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(
+          `AI API Error (${response.status}): ${errorData.error?.message || response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new Error('No text content in model response');
+      }
+      return content;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(signal?.aborted ? 'Request cancelled by user' : `Request timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Ask for JSON and check it with `validate`. When it fails, the errors go back to the model
+   * in the same conversation so it can fix just those fields.
+   * Returns the last reply with whatever errors remain after the repair rounds.
+   */
+  private async completeJSON(
+    systemPrompt: string,
+    userMessage: string,
+    validate: (data: unknown) => string[],
+    signal?: AbortSignal
+  ): Promise<{ data: unknown; errors: string[] }> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userMessage },
+    ];
+
+    for (let round = 0; ; round++) {
+      const response = await this.complete(messages, GENERATION_TIMEOUT_MS, signal);
+      const parsed = JSONValidator.parseJSON(response);
+      const errors = parsed.error ? [parsed.error] : validate(parsed.data);
+      if (errors.length === 0 || round >= MAX_REPAIR_ROUNDS) {
+        return { data: parsed.data, errors };
+      }
+
+      console.warn(`[AI] Response failed validation, requesting repair (round ${round + 1}/${MAX_REPAIR_ROUNDS}):`, errors);
+      messages.push(
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Your reply does not match the required JSON format. Fix only these problems and reply with the complete corrected JSON, nothing else:\n${errors.slice(0, MAX_REPORTED_ERRORS).map(error => `- ${error}`).join('\n')}`,
+        }
+      );
+    }
+  }
+
+  async validatePrompt(prompt: string, signal?: AbortSignal): Promise<ValidationResponse> {
+    console.log('[AI] Starting prompt validation...');
+
+    const response = await this.complete(
+      [{ role: 'system', content: VALIDATOR_PROMPT }, { role: 'user', content: prompt }],
+      VALIDATION_TIMEOUT_MS,
+      signal
+    );
+
+    const numericMatch = response.match(/[01]/);
+    return {
+      accepted: numericMatch ? numericMatch[0] === '1' : false,
+      rawResponse: response,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async generateHighLevelStructure(prompt: string, signal?: AbortSignal): Promise<HighLevelShape[]> {
+    console.log('[AI] Starting high-level structure generation...');
+
+    const { data, errors } = await this.completeJSON(
+      HIGH_LEVEL_PROMPT,
+      prompt,
+      (response) => JSONValidator.validateHighLevelArray(response).errors,
+      signal
+    );
+
+    // Shapes that are still invalid after the repair round are left out, never guessed at
+    const { validShapes: shapes } = JSONValidator.validateHighLevelArray(data);
+    if (shapes.length === 0) {
+      throw new Error(`High-level response failed validation: ${errors.slice(0, 5).join('; ')}`);
+    }
+    if (errors.length > 0) {
+      console.warn('[AI] Dropped invalid high-level shapes:', errors);
+    }
+
+    console.log(`[AI] Generated ${shapes.length} high-level shapes`);
+    return shapes;
+  }
+
+  async generateEdits(
+    prompt: string,
+    elements: EditContextElement[],
+    signal?: AbortSignal
+  ): Promise<ElementPatch[]> {
+    console.log(`[AI] Starting edit generation for ${elements.length} elements...`);
+
+    const message = `User Request: ${prompt}\n\nSelected elements: ${JSON.stringify(elements, null, 2)}`;
+    const { data, errors } = await this.completeJSON(
+      EDIT_PROMPT,
+      message,
+      (response) => (Array.isArray(response) ? [] : ['/: must be an array of element changes']),
+      signal
+    );
+    if (errors.length > 0) {
+      throw new Error(`Edit response failed validation: ${errors.join('; ')}`);
+    }
+    return data as ElementPatch[];
+  }
+
+  async generateLowLevelShape(
+    highLevelShape: HighLevelShape,
+    userPrompt: string,
+    signal?: AbortSignal
+  ): Promise<LowLevelShape> {
+    const message = `User Request: ${userPrompt}\n\nShape to detail: ${JSON.stringify(highLevelShape, null, 2)}`;
+
+    // Models sometimes wrap the single object in an array
+    const unwrap = (data: unknown) => (Array.isArray(data) && data.length === 1 ? data[0] : data);
+
+    for (let attempt = 0; ; attempt++) {
+      let result: { data: unknown; errors: string[] };
+      try {
+        result = await this.completeJSON(
+          LOW_LEVEL_PROMPT,
+          message,
+          (response) => JSONValidator.validateLowLevelShape(unwrap(response)).errors,
+          signal
+        );
+      } catch (error) {
+        // Network errors and timeouts get a fresh attempt; invalid output already had its repair round
+        if (signal?.aborted || attempt >= MAX_RETRIES) {
+          console.error('[AI] Low-level generation error:', error);
+          throw error;
+        }
+        console.log(`[AI] Retrying low-level generation (attempt ${attempt + 1}/${MAX_RETRIES})...`);
+        await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+        continue;
+      }
+
+      if (result.errors.length > 0) {
+        throw new Error(`Low-level response failed validation: ${result.errors.slice(0, 5).join('; ')}`);
+      }
+      return unwrap(result.data) as LowLevelShape;
+    }
+  }
+}
@@ -1,9 +1,38 @@
-import { GenerationPipeline, GenerationStageData } from '../types/aiPipeline';
+import { GenerationPipeline, GenerationStageData, LowLevelShape } from '../types/aiPipeline';
 
-const STORAGE_KEY = 'flashfx_ai_generations';
-const MAX_STORED_GENERATIONS = 20;
+const DB_NAME = 'FlashFXGenerations';
+const DB_VERSION = 1;
+const STORE_NAME = 'pipelines';
+const MAX_STORED_GENERATIONS = 500;
 
+// Where history lived before IndexedDB, and the fallback when IndexedDB is unavailable
+const LEGACY_STORAGE_KEY = 'flashfx_ai_generations';
+const MAX_LEGACY_GENERATIONS = 20;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const newestFirst = (a: GenerationPipeline, b: GenerationPipeline) =>
+  b.timestamp.localeCompare(a.timestamp);
+
+/**
+ * Generation history in IndexedDB. Every call goes through one queue, so the pipeline can fire
+ * updates without awaiting them and a later load still sees them.
+ */
 export class GenerationStorageService {
+  private static dbPromise: Promise<IDBDatabase | null> | null = null;
+  private static queue: Promise<unknown> = Promise.resolve();
+
   static generatePipelineId(): string {
     return `generation_pipeline_${Date.now()}`;
   }
@@ -19,87 +48,224 @@ export class GenerationStorageService {
     };
   }
 
-  static saveGenerationPipeline(pipeline: GenerationPipeline): void {
-    try {
-      const stored = this.loadAllGenerations();
-      const existingIndex = stored.findIndex(p => p.id === pipeline.id);
+  private static enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
 
-      if (existingIndex >= 0) {
-        stored[existingIndex] = pipeline;
-      } else {
-        stored.unshift(pipeline);
-      }
+  // Resolves to null when IndexedDB cannot be used, e.g. in private browsing
+  private static openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
 
-      const limited = stored.slice(0, MAX_STORED_GENERATIONS);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(limited));
+        request.onerror = () => {
+          console.warn('[Storage] IndexedDB unavailable, keeping generations in localStorage:', request.error);
+          resolve(null);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex('timestamp', 'timestamp');
+          }
+        };
+      }).then(async (db) => {
+        if (db) {
+          await this.migrateLegacyGenerations(db);
+          await this.pruneOldest(db);
+        }
+        return db;
+      });
+    }
+    return this.dbPromise;
+  }
 
-      console.log(`[Storage] Saved generation pipeline: ${pipeline.id}`);
+  // Moves history saved by earlier versions out of localStorage, once
+  private static async migrateLegacyGenerations(db: IDBDatabase): Promise<void> {
+    try {
+      const legacy = this.readLegacy();
+      if (legacy.length === 0) return;
+
+      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      legacy.forEach(pipeline => store.put(pipeline));
+      await transactionDone(transaction);
+
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      console.log(`[Storage] Moved ${legacy.length} generations to IndexedDB`);
     } catch (error) {
-      console.error('[Storage] Failed to save generation pipeline:', error);
+      console.error('[Storage] Failed to migrate generations from localStorage:', error);
     }
   }
 
-  static loadGenerationPipeline(pipelineId: string): GenerationPipeline | null {
+  // Keeps the newest MAX_STORED_GENERATIONS, walking the timestamp index from the oldest
+  private static async pruneOldest(db: IDBDatabase): Promise<void> {
     try {
-      const stored = this.loadAllGenerations();
-      const pipeline = stored.find(p => p.id === pipelineId);
-      return pipeline || null;
+      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      let excess = (await requestToPromise(store.count())) - MAX_STORED_GENERATIONS;
+      if (excess <= 0) return;
+
+      const cursorRequest = store.index('timestamp').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor && excess-- > 0) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      await transactionDone(transaction);
     } catch (error) {
-      console.error('[Storage] Failed to load generation pipeline:', error);
-      return null;
+      console.error('[Storage] Failed to clear old generations:', error);
     }
   }
 
-  static loadAllGenerations(): GenerationPipeline[] {
+  private static readLegacy(): GenerationPipeline[] {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
       if (!stored) return [];
 
       const parsed = JSON.parse(stored);
       return Array.isArray(parsed) ? parsed : [];
-    } catch (error) {
-      console.error('[Storage] Failed to load generations:', error);
+    } catch {
       return [];
     }
   }
 
-  static deleteGeneration(pipelineId: string): void {
-    try {
-      const stored = this.loadAllGenerations();
-      const filtered = stored.filter(p => p.id !== pipelineId);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
-      console.log(`[Storage] Deleted generation: ${pipelineId}`);
-    } catch (error) {
-      console.error('[Storage] Failed to delete generation:', error);
+  private static writeLegacy(pipelines: GenerationPipeline[]): void {
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(pipelines.slice(0, MAX_LEGACY_GENERATIONS)));
+  }
+
+  private static async readAll(): Promise<GenerationPipeline[]> {
+    const db = await this.openDatabase();
+    if (!db) return this.readLegacy().sort(newestFirst);
+
+    const store = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME);
+    const pipelines = await requestToPromise(store.getAll() as IDBRequest<GenerationPipeline[]>);
+    return pipelines.sort(newestFirst);
+  }
+
+  private static async read(pipelineId: string): Promise<GenerationPipeline | null> {
+    const db = await this.openDatabase();
+    if (!db) return this.readLegacy().find(p => p.id === pipelineId) || null;
+
+    const store = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME);
+    const pipeline = await requestToPromise(store.get(pipelineId) as IDBRequest<GenerationPipeline | undefined>);
+    return pipeline || null;
+  }
+
+  private static async write(pipeline: GenerationPipeline): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) {
+      const stored = this.readLegacy().filter(p => p.id !== pipeline.id);
+      this.writeLegacy([pipeline, ...stored].sort(newestFirst));
+      return;
     }
+
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    transaction.objectStore(STORE_NAME).put(pipeline);
+    await transactionDone(transaction);
   }
 
-  static clearOldGenerations(): void {
-    try {
-      const stored = this.loadAllGenerations();
-      const limited = stored.slice(0, MAX_STORED_GENERATIONS);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(limited));
-      console.log(`[Storage] Cleaned up old generations, keeping ${limited.length}`);
-    } catch (error) {
-      console.error('[Storage] Failed to clear old generations:', error);
+  private static async remove(pipelineIds: string[]): Promise<void> {
+    if (pipelineIds.length === 0) return;
+
+    const db = await this.openDatabase();
+    if (!db) {
+      this.writeLegacy(this.readLegacy().filter(p => !pipelineIds.includes(p.id)));
+      return;
     }
+
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    pipelineIds.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+  }
+
+  static saveGenerationPipeline(pipeline: GenerationPipeline): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        await this.write(pipeline);
+        console.log(`[Storage] Saved generation pipeline: ${pipeline.id}`);
+
+        // Each save may add a pipeline, so the cap is enforced here as well as on open
+        const db = await this.openDatabase();
+        if (db) await this.pruneOldest(db);
+      } catch (error) {
+        console.error('[Storage] Failed to save generation pipeline:', error);
+      }
+    });
+  }
+
+  static loadGenerationPipeline(pipelineId: string): Promise<GenerationPipeline | null> {
+    return this.enqueue(async () => {
+      try {
+        return await this.read(pipelineId);
+      } catch (error) {
+        console.error('[Storage] Failed to load generation pipeline:', error);
+        return null;
+      }
+    });
+  }
+
+  // Newest first
+  static loadAllGenerations(): Promise<GenerationPipeline[]> {
+    return this.enqueue(async () => {
+      try {
+        return await this.readAll();
+      } catch (error) {
+        console.error('[Storage] Failed to load generations:', error);
+        return [];
+      }
+    });
   }
 
-  static exportGeneration(pipelineId: string): string {
-    const pipeline = this.loadGenerationPipeline(pipelineId);
+  static deleteGeneration(pipelineId: string): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        await this.remove([pipelineId]);
+        console.log(`[Storage] Deleted generation: ${pipelineId}`);
+      } catch (error) {
+        console.error('[Storage] Failed to delete generation:', error);
+      }
+    });
+  }
+
+  static clearOldGenerations(): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const stored = await this.readAll();
+        await this.remove(stored.slice(MAX_STORED_GENERATIONS).map(p => p.id));
+        console.log(`[Storage] Cleaned up old generations, keeping ${Math.min(stored.length, MAX_STORED_GENERATIONS)}`);
+      } catch (error) {
+        console.error('[Storage] Failed to clear old generations:', error);
+      }
+    });
+  }
+
+  static async exportGeneration(pipelineId: string): Promise<string> {
+    const pipeline = await this.loadGenerationPipeline(pipelineId);
     if (!pipeline) {
       throw new Error('Generation not found');
     }
     return JSON.stringify(pipeline, null, 2);
   }
 
-  static getGenerationStats(): {
+  static async getGenerationStats(): Promise<{
     total: number;
     completed: number;
     failed: number;
     partial: number;
-  } {
-    const generations = this.loadAllGenerations();
+  }> {
+    const generations = await this.loadAllGenerations();
     return {
       total: generations.length,
       completed: generations.filter(g => g.status === 'complete').length,
@@ -108,51 +274,87 @@ export class GenerationStorageService {
     };
   }
 
-  static updatePipelineStage(
-    pipelineId: string,
-    stageData: Partial<GenerationStageData>
-  ): void {
-    const pipeline = this.loadGenerationPipeline(pipelineId);
-    if (!pipeline) {
-      console.warn(`[Storage] Pipeline ${pipelineId} not found for update`);
-      return;
+  /**
+   * Low-level shapes keyed by the index of their high-level shape. Stored shapes follow the
+   * high-level order with every index in failedIndices left out.
+   */
+  static getLowLevelShapesByIndex(pipeline: GenerationPipeline): Map<number, LowLevelShape> {
+    const result = new Map<number, LowLevelShape>();
+    const lowLevel = pipeline.stages.lowLevel;
+    const total = pipeline.stages.highLevel?.shapes.length ?? 0;
+    if (!lowLevel) return result;
+
+    const failed = new Set(lowLevel.failedIndices);
+    let next = 0;
+    for (let index = 0; index < total && next < lowLevel.shapes.length; index++) {
+      if (!failed.has(index)) {
+        result.set(index, lowLevel.shapes[next++]);
+      }
     }
+    return result;
+  }
 
-    pipeline.stages = {
-      ...pipeline.stages,
-      ...stageData,
-    };
+  // High-level indices still to generate when a partial pipeline is resumed
+  static getPendingIndices(pipeline: GenerationPipeline): number[] {
+    const shapes = pipeline.stages.highLevel?.shapes ?? [];
+    const generated = this.getLowLevelShapesByIndex(pipeline);
+    return shapes.map((_, index) => index).filter(index => !generated.has(index));
+  }
 
-    this.saveGenerationPipeline(pipeline);
+  static isResumable(pipeline: GenerationPipeline): boolean {
+    return pipeline.status === 'partial' && this.getPendingIndices(pipeline).length > 0;
   }
 
-  static updatePipelineStatus(
+  // Applies an in-place change to a stored pipeline; the queue keeps concurrent updates from overwriting each other
+  private static updatePipeline(
     pipelineId: string,
-    status: GenerationPipeline['status'],
-    metadata?: GenerationPipeline['metadata']
-  ): void {
-    const pipeline = this.loadGenerationPipeline(pipelineId);
-    if (!pipeline) {
-      console.warn(`[Storage] Pipeline ${pipelineId} not found for status update`);
-      return;
-    }
+    purpose: string,
+    update: (pipeline: GenerationPipeline) => void
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        const pipeline = await this.read(pipelineId);
+        if (!pipeline) {
+          console.warn(`[Storage] Pipeline ${pipelineId} not found for ${purpose}`);
+          return;
+        }
 
-    pipeline.status = status;
-    if (metadata) {
-      pipeline.metadata = metadata;
-    }
+        update(pipeline);
+        await this.write(pipeline);
+      } catch (error) {
+        console.error(`[Storage] Failed ${purpose} of pipeline ${pipelineId}:`, error);
+      }
+    });
+  }
 
-    this.saveGenerationPipeline(pipeline);
+  static updatePipelineStage(
+    pipelineId: string,
+    stageData: Partial<GenerationStageData>
+  ): Promise<void> {
+    return this.updatePipeline(pipelineId, 'update', pipeline => {
+      pipeline.stages = {
+        ...pipeline.stages,
+        ...stageData,
+      };
+    });
   }
 
-  static addPipelineError(pipelineId: string, error: GenerationPipeline['errorLog'][0]): void {
-    const pipeline = this.loadGenerationPipeline(pipelineId);
-    if (!pipeline) {
-      console.warn(`[Storage] Pipeline ${pipelineId} not found for error logging`);
-      return;
-    }
+  static updatePipelineStatus(
+    pipelineId: string,
+    status: GenerationPipeline['status'],
+    metadata?: GenerationPipeline['metadata']
+  ): Promise<void> {
+    return this.updatePipeline(pipelineId, 'status update', pipeline => {
+      pipeline.status = status;
+      if (metadata) {
+        pipeline.metadata = metadata;
+      }
+    });
+  }
 
-    pipeline.errorLog.push(error);
-    this.saveGenerationPipeline(pipeline);
+  static addPipelineError(pipelineId: string, error: GenerationPipeline['errorLog'][0]): Promise<void> {
+    return this.updatePipeline(pipelineId, 'error logging', pipeline => {
+      pipeline.errorLog.push(error);
+    });
   }
 }
@@ -0,0 +1,270 @@
+import {
+  EditContextElement,
+  ElementPatch,
+  HighLevelShape,
+  LowLevelShape,
+  ValidationResponse,
+} from '../types/aiPipeline';
+import { DesignElement } from '../types/design';
+import { AIProvider } from '../types/aiProvider';
+
+const CANVAS_WIDTH = 3840;
+const CANVAS_HEIGHT = 2160;
+const MAX_SHAPES = 12;
+
+const DESIGN_WORDS = [
+  'create', 'design', 'make', 'draw', 'generate', 'add', 'build', 'animate', 'animation',
+  'shape', 'button', 'circle', 'card', 'text', 'title', 'heading', 'label', 'line', 'arrow',
+  'rectangle', 'box', 'panel', 'layout', 'ui', 'interface', 'dashboard', 'chat', 'logo', 'banner',
+  'change', 'align', 'move', 'resize', 'rotate', 'rounded', 'color', 'bigger', 'smaller', 'hide', 'fade',
+];
+
+const COLOR_WORDS: Record<string, string> = {
+  red: '#EF4444', orange: '#F97316', yellow: '#EAB308', green: '#22C55E', teal: '#14B8A6',
+  blue: '#3B82F6', indigo: '#6366F1', purple: '#8B5CF6', pink: '#EC4899',
+  white: '#FFFFFF', black: '#000000', gray: '#6B7280', grey: '#6B7280',
+};
+
+// Plural prompt words that narrow an edit to one kind of element
+const TYPE_WORDS: Array<{ pattern: RegExp; types: DesignElement['type'][] }> = [
+  { pattern: /\bbuttons?\b/, types: ['button'] },
+  { pattern: /\bcircles?\b/, types: ['circle'] },
+  { pattern: /\bcards?\b|\brectangles?\b|\bbox(es)?\b|\bpanels?\b/, types: ['rectangle'] },
+  { pattern: /\blines?\b|\barrows?\b/, types: ['line'] },
+  { pattern: /\btexts?\b|\btitles?\b|\blabels?\b/, types: ['text'] },
+];
+
+// Prompt words mapped to the element they ask for, checked in order
+const SHAPE_WORDS: Array<{ pattern: RegExp; type: HighLevelShape['type'] }> = [
+  { pattern: /\bcircles?\b|\bdots?\b/, type: 'circle' },
+  { pattern: /\bbuttons?\b/, type: 'button' },
+  { pattern: /\blines?\b|\barrows?\b/, type: 'line' },
+  { pattern: /\btexts?\b|\btitles?\b|\bheadings?\b|\blabels?\b/, type: 'text' },
+  { pattern: /\bcards?\b|\brectangles?\b|\bbox(es)?\b|\bpanels?\b/, type: 'rectangle' },
+];
+
+const SIZES: Record<HighLevelShape['type'], { width: number; height: number }> = {
+  rectangle: { width: 480, height: 320 },
+  circle: { width: 240, height: 240 },
+  text: { width: 600, height: 96 },
+  line: { width: 480, height: 1 },
+  button: { width: 320, height: 96 },
+};
+
+const PALETTES = [
+  ['#3B82F6', '#1E40AF', '#93C5FD'],
+  ['#8B5CF6', '#5B21B6', '#C4B5FD'],
+  ['#EC4899', '#9D174D', '#F9A8D4'],
+  ['#10B981', '#065F46', '#6EE7B7'],
+  ['#F59E0B', '#92400E', '#FCD34D'],
+];
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * Offline stand-in for a model: the same prompt always produces the same design.
+ * Used when no API is configured and by automated runs of the chat pipeline.
+ */
+export class MockAIProvider implements AIProvider {
+  readonly name = 'Local mock';
+
+  constructor(private latencyMs: number = 0) {}
+
+  private async respond<T>(result: () => T, signal?: AbortSignal): Promise<T> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+    if (signal?.aborted) {
+      throw new Error('Request cancelled by user');
+    }
+    return result();
+  }
+
+  async validatePrompt(prompt: string, signal?: AbortSignal): Promise<ValidationResponse> {
+    return this.respond(() => {
+      const words = prompt.toLowerCase().match(/[a-z]+/g) || [];
+      const accepted = words.some(word => DESIGN_WORDS.includes(word));
+      return { accepted, rawResponse: accepted ? '1' : '0', timestamp: new Date().toISOString() };
+    }, signal);
+  }
+
+  async generateHighLevelStructure(prompt: string, signal?: AbortSignal): Promise<HighLevelShape[]> {
+    return this.respond(() => {
+      const text = prompt.toLowerCase();
+      const match = SHAPE_WORDS.find(({ pattern }) => pattern.test(text));
+      const count = Math.min(MAX_SHAPES, Math.max(1, Number(text.match(/\b(\d+)\b/)?.[1]) || 3));
+      const labels = Array.from(prompt.matchAll(/"([^"]+)"/g), m => m[1]);
+
+      // Without a recognised element, a card with a title and a button
+      const types: HighLevelShape['type'][] = match
+        ? Array(count).fill(match.type)
+        : ['rectangle', 'text', 'button'];
+
+      const columns = Math.min(types.length, 4);
+      const rows = Math.ceil(types.length / columns);
+      const cellWidth = 720;
+      const cellHeight = 480;
+      const originX = (CANVAS_WIDTH - columns * cellWidth) / 2;
+      const originY = (CANVAS_HEIGHT - rows * cellHeight) / 2;
+
+      return types.map((type, index): HighLevelShape => {
+        const { width, height } = SIZES[type];
+        const column = index % columns;
+        const row = Math.floor(index / columns);
+        const content = type === 'text'
+          ? labels[index] || (match ? `Text ${index + 1}` : 'Title')
+          : type === 'button' ? labels[index] || 'Click Me' : undefined;
+
+        return {
+          type,
+          positionX: Math.round(originX + column * cellWidth + (cellWidth - width) / 2),
+          positionY: Math.round(originY + row * cellHeight + (cellHeight - height) / 2),
+          width,
+          height,
+          content,
+        };
+      });
+    }, signal);
+  }
+
+  async generateEdits(
+    prompt: string,
+    elements: EditContextElement[],
+    signal?: AbortSignal
+  ): Promise<ElementPatch[]> {
+    return this.respond(() => {
+      const text = prompt.toLowerCase();
+      const typeMatch = TYPE_WORDS.find(({ pattern }) => pattern.test(text));
+      const matching = typeMatch ? elements.filter(el => typeMatch.types.includes(el.type)) : [];
+      const targets = matching.length > 0 ? matching : elements;
+
+      const color = Object.keys(COLOR_WORDS).find(word => new RegExp(`\\b${word}\\b`).test(text));
+      const rotation = text.match(/\brotate\b[^\d-]*(-?\d+)/);
+      const scale = /\b(bigger|larger)\b/.test(text) ? 1.25 : /\bsmaller\b/.test(text) ? 0.8 : 1;
+
+      const patches = targets.map((element): ElementPatch => {
+        const changes: Partial<DesignElement> = {};
+        const width = element.width ?? 0;
+        const height = element.height ?? 0;
+
+        if (color) {
+          if (element.type === 'text') changes.textColor = COLOR_WORDS[color];
+          else if (element.type === 'line') changes.stroke = COLOR_WORDS[color];
+          else changes.fill = COLOR_WORDS[color];
+        }
+        if (/\brounded\b|\bround corners\b/.test(text) && element.type !== 'circle' && element.type !== 'line') {
+          changes.borderRadius = Math.round(Math.min(width, height) / 4);
+        }
+        if (/\b(square|sharp) corners\b/.test(text)) changes.borderRadius = 0;
+        if (rotation) changes.rotation = Number(rotation[1]);
+        if (scale !== 1) {
+          changes.width = Math.round(width * scale);
+          changes.height = Math.round(height * scale);
+          changes.x = Math.round((element.x ?? 0) - (width * scale - width) / 2);
+          changes.y = Math.round((element.y ?? 0) - (height * scale - height) / 2);
+        }
+        if (/\b(fade|transparent|translucent)\b/.test(text)) changes.opacity = 0.5;
+        if (/\bhide\b/.test(text)) changes.visible = false;
+
+        return { elementId: element.id, changes, reason: `Matched "${prompt}"` };
+      });
+
+      if (/\balign\b/.test(text) && targets.length > 1) {
+        this.alignPatches(text, targets, patches);
+      }
+
+      return patches.filter(patch => Object.keys(patch.changes).length > 0);
+    }, signal);
+  }
+
+  // Aligns along the named edge, or along the axis the elements are already spread out on
+  private alignPatches(text: string, targets: EditContextElement[], patches: ElementPatch[]): void {
+    const xs = targets.map(el => el.x ?? 0);
+    const ys = targets.map(el => el.y ?? 0);
+    const edge = (['left', 'right', 'top', 'bottom', 'center', 'middle'] as const).find(word => text.includes(word))
+      ?? (Math.max(...xs) - Math.min(...xs) >= Math.max(...ys) - Math.min(...ys) ? 'top' : 'left');
+
+    const left = Math.min(...xs);
+    const top = Math.min(...ys);
+    const right = Math.max(...targets.map(el => (el.x ?? 0) + (el.width ?? 0)));
+    const bottom = Math.max(...targets.map(el => (el.y ?? 0) + (el.height ?? 0)));
+
+    targets.forEach((element, index) => {
+      const width = patches[index].changes.width ?? element.width ?? 0;
+      const height = patches[index].changes.height ?? element.height ?? 0;
+      const changes = patches[index].changes;
+      switch (edge) {
+        case 'left': changes.x = left; break;
+        case 'right': changes.x = right - width; break;
+        case 'top': changes.y = top; break;
+        case 'bottom': changes.y = bottom - height; break;
+        case 'center': changes.x = Math.round((left + right - width) / 2); break;
+        case 'middle': changes.y = Math.round((top + bottom - height) / 2); break;
+      }
+    });
+  }
+
+  async generateLowLevelShape(
+    highLevelShape: HighLevelShape,
+    userPrompt: string,
+    signal?: AbortSignal
+  ): Promise<LowLevelShape> {
+    return this.respond(() => {
+      const palette = PALETTES[hashString(userPrompt) % PALETTES.length];
+      const accent = palette[hashString(`${highLevelShape.positionX},${highLevelShape.positionY}`) % 2 === 0 ? 0 : 2];
+      const { type } = highLevelShape;
+
+      const shape: LowLevelShape = {
+        name: `${type.charAt(0).toUpperCase()}${type.slice(1)}${highLevelShape.content ? ` "${highLevelShape.content}"` : ''}`,
+        version: '1.0',
+        timestamp: new Date().toISOString(),
+        shapeType: type,
+        settings: {
+          style: {
+            fillColor: type === 'text' || type === 'line' ? 'transparent' : accent,
+            strokeColor: palette[1],
+            strokeWidth: type === 'line' ? 6 : type === 'text' ? 0 : 2,
+            opacity: 1,
+            borderRadius: type === 'button' ? 24 : type === 'rectangle' ? 16 : 0,
+          },
+          dimensions: { width: highLevelShape.width, height: highLevelShape.height },
+          scale: { x: 1, y: 1, uniform: true },
+          rotation: { angle: 0 },
+        },
+      };
+
+      if (type === 'text' || type === 'button') {
+        shape.settings.text = {
+          content: highLevelShape.content || 'Text',
+          fontSize: type === 'text' ? 56 : 32,
+          fontWeight: '600',
+          fontFamily: 'Inter',
+          textColor: type === 'text' ? palette[0] : '#FFFFFF',
+          textAlign: 'center',
+          verticalAlign: 'middle',
+        };
+      }
+
+      if (type === 'line') {
+        shape.settings.line = {
+          lineType: /\barrows?\b/.test(userPrompt.toLowerCase()) ? 'arrow' : 'line',
+          arrowStart: false,
+          arrowEnd: /\barrows?\b/.test(userPrompt.toLowerCase()),
+          arrowheadType: 'triangle',
+          arrowheadSize: 24,
+          lineCap: 'round',
+          lineJoin: 'round',
+          dashArray: [],
+        };
+      }
+
+      return shape;
+    }, signal);
+  }
+}
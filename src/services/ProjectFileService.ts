@@ -1,16 +1,22 @@
 import JSZip from 'jszip';
 import { v4 as uuidv4 } from 'uuid';
 import { DesignElement } from '../types/design';
-import { Animation } from '../types/project';
+import { Animation, ProjectChangeLogEntry, isHistoryCheckpoint } from '../types/project';
+import { TimelineClips } from '../types/timeline';
+import { getAllElementsFlat } from '../utils/groupUtils';
+import { pruneClips } from '../utils/clipUtils';
 import {
   ProjectManifest,
   ProjectCanvas,
   ProjectProperties,
   ShapeKeyframes,
+  ProjectHierarchy,
   AssetManifest,
   AssetReference,
   FontReference,
   ProjectFileStructure,
+  ProjectFont,
+  LoadedProject,
   LoadProjectResult,
   SaveProjectOptions,
 } from '../types/projectFile';
@@ -20,25 +26,80 @@ import {
   base64ToBlob,
   getFileExtension,
   getMimeTypeFromBase64,
+  getMimeTypeFromFilename,
   sanitizeFilename,
 } from '../utils/hashUtils';
+import {
+  CURRENT_SCHEMA_VERSION,
+  createMigrationReport,
+  formatMigrationReport,
+  getMigrationPath,
+  getNewerVersionMessage,
+  migrateArchivePart,
+  ProjectMigration,
+} from '../utils/projectMigrations';
+import { ProjectIntegrityChecker } from './ProjectIntegrityChecker';
+
+interface EncodedImage {
+  hash: string;
+  filename: string;
+  blob: Blob;
+}
+
+// Archive state kept between saves so unchanged files are not re-encoded
+interface SaveCache {
+  zip: JSZip;
+  shapes: Map<string, DesignElement>; // file path -> element it was written from
+  keyframes: Map<string, Animation[]>;
+}
+
+const describeError = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((id) => typeof id === 'string');
+
+const isProjectHierarchy = (value: unknown): value is ProjectHierarchy => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { order, groups } = value as Partial<ProjectHierarchy>;
+  return isIdList(order) &&
+    typeof groups === 'object' && groups !== null &&
+    Object.values(groups).every((group) => isIdList(group?.children));
+};
+
+const FONT_EXTENSIONS: Record<string, string> = {
+  truetype: 'ttf',
+  opentype: 'otf',
+  woff: 'woff',
+  woff2: 'woff2',
+};
 
 export class ProjectFileService {
-  private static readonly SCHEMA_VERSION = 1;
   private static readonly FILE_EXTENSION = '.ffxproj';
 
+  private identity: { projId: string; createdAt: string } | null = null;
+  private saveCache: SaveCache | null = null;
+  // Keyed by the image data URI, so an image is only decoded and hashed once
+  private imageCache = new Map<string, EncodedImage>();
+
   public async saveProject(options: SaveProjectOptions): Promise<Blob> {
-    const zip = new JSZip();
-    const projectId = uuidv4();
+    if (!this.identity) {
+      this.identity = { projId: options.projectId || uuidv4(), createdAt: new Date().toISOString() };
+    }
+    if (!this.saveCache) {
+      this.saveCache = { zip: new JSZip(), shapes: new Map(), keyframes: new Map() };
+    }
+    const { zip, shapes: savedShapes, keyframes: savedKeyframes } = this.saveCache;
     const now = new Date().toISOString();
+    const usedImages = new Set<string>();
 
-    const assetData = await this.extractAssets(options.elements);
+    const assetData = await this.extractAssets(options.elements, usedImages);
+    await this.addFonts(options.fonts || [], assetData.fonts, assetData.assetManifest);
 
     const manifest: ProjectManifest = {
-      schemaVersion: ProjectFileService.SCHEMA_VERSION,
-      proj_id: projectId,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      proj_id: this.identity.projId,
       name: options.projectName,
-      createdAt: now,
+      createdAt: this.identity.createdAt,
       updatedAt: now,
       author: options.userId ? {
         id: options.userId,
@@ -50,6 +111,9 @@ export class ProjectFileService {
         keyframes: '/keyframes',
         properties: '/properties',
         assets: '/assets',
+        timeline: '/timeline',
+        history: '/history',
+        hierarchy: '/hierarchy',
       },
       counts: {
         elements: options.elements.length,
@@ -75,6 +139,8 @@ export class ProjectFileService {
         gridSnap: options.properties?.editor?.gridSnap ?? options.canvas.grid.snap,
         showRulers: options.properties?.editor?.showRulers ?? false,
         showGrid: options.properties?.editor?.showGrid ?? options.canvas.grid.enabled,
+        grid: options.properties?.editor?.grid,
+        historyLimit: options.properties?.editor?.historyLimit,
       },
       metadata: {
         tags: options.properties?.metadata?.tags || [],
@@ -87,19 +153,33 @@ export class ProjectFileService {
 
     zip.file('properties/properties.json', JSON.stringify(properties, null, 2));
 
-    for (const element of options.elements) {
+    const { hierarchy, flat } = this.createHierarchy(options.elements);
+    zip.file('hierarchy/hierarchy.json', JSON.stringify(hierarchy, null, 2));
+
+    // Elements are immutable in the editor, so an unchanged reference means an unchanged file
+    const shapeFiles = new Set<string>();
+    for (const element of flat) {
+      const filename = `shapes/${sanitizeFilename(element.id)}.json`;
+      shapeFiles.add(filename);
+      if (savedShapes.get(filename) === element) continue;
+
+      // Children have files of their own; the hierarchy records where they go
+      const shape = { ...element };
+      delete shape.children;
       const updatedElement = await this.updateElementAssetReferences(
-        element,
+        shape,
         assetData.assetManifest
       );
-      const filename = `shapes/${sanitizeFilename(element.id)}.json`;
       zip.file(filename, JSON.stringify(updatedElement, null, 2));
+      savedShapes.set(filename, element);
     }
+    this.removeStaleFiles(zip, 'shapes/', shapeFiles, savedShapes);
 
+    const keyframeFiles = new Set<string>();
     if (options.animations) {
       const elementAnimations: Record<string, Animation[]> = {};
 
-      for (const [animId, animation] of Object.entries(options.animations)) {
+      for (const animation of Object.values(options.animations)) {
         const elementId = animation.elementId;
         if (!elementAnimations[elementId]) {
           elementAnimations[elementId] = [];
@@ -108,139 +188,360 @@ export class ProjectFileService {
       }
 
       for (const [elementId, animations] of Object.entries(elementAnimations)) {
+        const filename = `keyframes/${sanitizeFilename(elementId)}_keyframes.json`;
+        keyframeFiles.add(filename);
+        const saved = savedKeyframes.get(filename);
+        if (saved && saved.length === animations.length && saved.every((animation, i) => animation === animations[i])) {
+          continue;
+        }
+
         const keyframes: ShapeKeyframes = {
           elementId,
           animations,
         };
-        const filename = `keyframes/${sanitizeFilename(elementId)}_keyframes.json`;
         zip.file(filename, JSON.stringify(keyframes, null, 2));
+        savedKeyframes.set(filename, animations);
       }
     }
+    this.removeStaleFiles(zip, 'keyframes/', keyframeFiles, savedKeyframes);
+
+    if (options.clips) {
+      const elementIds = getAllElementsFlat(options.elements).map(el => el.id);
+      const clips = pruneClips(options.clips, elementIds);
+      zip.file('timeline/clips.json', JSON.stringify(clips, null, 2));
+    } else {
+      zip.remove('timeline/clips.json');
+    }
+
+    if (options.changeLog && options.changeLog.length > 0) {
+      const changeLog = await this.packChangeLog(options.changeLog, assetData.images, usedImages);
+      zip.file('history/changelog.json', JSON.stringify(changeLog, null, 2));
+    } else {
+      zip.remove('history/changelog.json');
+    }
 
     zip.file('assets/manifest.json', JSON.stringify(assetData.assetManifest, null, 2));
 
-    for (const [hash, blob] of Object.entries(assetData.images)) {
-      zip.file(`assets/images/${hash}`, blob);
+    // Asset files are named by content hash, so an existing file never needs rewriting
+    const assetFiles = new Set<string>();
+    const assetFolders = { images: assetData.images, fonts: assetData.fonts, videos: assetData.videos };
+    for (const [folder, blobs] of Object.entries(assetFolders)) {
+      for (const [filename, blob] of Object.entries(blobs)) {
+        const path = `assets/${folder}/${filename}`;
+        assetFiles.add(path);
+        if (!zip.file(path)) {
+          zip.file(path, blob);
+        }
+      }
     }
-
-    for (const [hash, blob] of Object.entries(assetData.fonts)) {
-      zip.file(`assets/fonts/${hash}`, blob);
+    for (const folder of Object.keys(assetFolders)) {
+      this.removeStaleFiles(zip, `assets/${folder}/`, assetFiles);
     }
 
-    for (const [hash, blob] of Object.entries(assetData.videos)) {
-      zip.file(`assets/videos/${hash}`, blob);
+    // Forget images that are no longer in the project
+    for (const imageData of this.imageCache.keys()) {
+      if (!usedImages.has(imageData)) {
+        this.imageCache.delete(imageData);
+      }
     }
 
     const blob = await zip.generateAsync({ type: 'blob' });
     return blob;
   }
 
+  /**
+   * Z-order of the top-level elements and of every group's children, plus all elements in tree order
+   */
+  private createHierarchy(elements: DesignElement[]): { hierarchy: ProjectHierarchy; flat: DesignElement[] } {
+    const hierarchy: ProjectHierarchy = { order: elements.map((element) => element.id), groups: {} };
+    const flat: DesignElement[] = [];
+
+    const visit = (element: DesignElement) => {
+      flat.push(element);
+      if (Array.isArray(element.children)) {
+        hierarchy.groups[element.id] = {
+          id: element.id,
+          name: element.name,
+          children: element.children.map((child) => child.id),
+        };
+        element.children.forEach(visit);
+      }
+    };
+    elements.forEach(visit);
+
+    return { hierarchy, flat };
+  }
+
+  /**
+   * Delete files under a folder that the current save did not produce
+   */
+  private removeStaleFiles(zip: JSZip, folder: string, keep: Set<string>, cache?: Map<string, unknown>): void {
+    const stale: string[] = [];
+    zip.forEach((path, file) => {
+      if (!file.dir && path.startsWith(folder) && !keep.has(path)) {
+        stale.push(path);
+      }
+    });
+    stale.forEach((path) => {
+      zip.remove(path);
+      cache?.delete(path);
+    });
+  }
+
+  /**
+   * Decode and hash an embedded image, reusing the result of earlier saves
+   */
+  private async encodeImage(imageData: string, usedImages: Set<string>): Promise<EncodedImage> {
+    usedImages.add(imageData);
+    const cached = this.imageCache.get(imageData);
+    if (cached) return cached;
+
+    const blob = await base64ToBlob(imageData);
+    const hash = await hashBlob(blob);
+    const mimeType = getMimeTypeFromBase64(imageData);
+    const encoded = { hash, blob, filename: `${hash}.${mimeType ? getFileExtension(mimeType) : 'png'}` };
+    this.imageCache.set(imageData, encoded);
+    return encoded;
+  }
+
+  /**
+   * Embed custom fonts, keyed by family in the asset manifest
+   */
+  private async addFonts(
+    projectFonts: ProjectFont[],
+    fonts: Record<string, Blob>,
+    assetManifest: AssetManifest
+  ): Promise<void> {
+    for (const font of projectFonts) {
+      const hash = await hashBlob(font.data);
+      const filename = `${hash}.${FONT_EXTENSIONS[font.format] || font.format}`;
+      fonts[filename] = font.data;
+      assetManifest.fonts[font.family] = {
+        hash,
+        filename,
+        family: font.family,
+        name: font.name,
+        format: font.format,
+      };
+    }
+  }
+
+  /**
+   * Flatten a loaded archive into the state the editor restores
+   */
+  public toLoadedProject(data: ProjectFileStructure): LoadedProject {
+    const animations: Record<string, Animation> = {};
+    for (const { animations: elementAnimations } of Object.values(data.keyframes)) {
+      for (const animation of elementAnimations) {
+        animations[animation.id] = animation;
+      }
+    }
+
+    const fonts: ProjectFont[] = [];
+    for (const [family, fontRef] of Object.entries(data.assetManifest.fonts)) {
+      const blob = data.assets.fonts[family];
+      if (blob) {
+        fonts.push({
+          family: fontRef.family,
+          name: fontRef.name,
+          format: fontRef.format || 'truetype',
+          data: blob,
+        });
+      }
+    }
+
+    return {
+      projectId: data.manifest.proj_id,
+      name: data.manifest.name,
+      elements: data.hierarchy.order.map((id) => data.shapes[id]).filter(Boolean),
+      canvas: data.canvas,
+      properties: data.properties,
+      animations,
+      clips: data.clips,
+      changeLog: data.changeLog,
+      fonts,
+    };
+  }
+
   public async loadProject(file: File): Promise<LoadProjectResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
+    const integrity = new ProjectIntegrityChecker();
 
     try {
       const zip = await JSZip.loadAsync(file);
 
-      const manifestFile = zip.file('manifest.json');
-      if (!manifestFile) {
-        errors.push('Missing manifest.json');
-        return { success: false, errors };
+      let savedManifest: ProjectManifest;
+      try {
+        savedManifest = await this.readJsonFile(zip, 'manifest.json');
+      } catch (err) {
+        // Without a manifest the version is unknown, so every migration runs
+        integrity.add('manifest', 'manifest.json', `Could not be read: ${describeError(err)}`, 'Rebuilt with a new project id');
+        savedManifest = this.createRecoveryManifest(file.name);
       }
 
-      const manifestContent = await manifestFile.async('string');
-      const manifest: ProjectManifest = JSON.parse(manifestContent);
-
-      if (manifest.schemaVersion > ProjectFileService.SCHEMA_VERSION) {
-        errors.push(
-          `Project was created with a newer version (schema v${manifest.schemaVersion}). Please update FlashFX.`
-        );
+      if (savedManifest.schemaVersion > CURRENT_SCHEMA_VERSION) {
+        errors.push(getNewerVersionMessage(savedManifest.schemaVersion));
         return { success: false, errors };
       }
 
-      const canvasFile = zip.file('canvas/canvas.json');
-      if (!canvasFile) {
-        errors.push('Missing canvas/canvas.json');
-        return { success: false, errors };
+      // Older files are upgraded part by part as they are read
+      const migrations = getMigrationPath(savedManifest.schemaVersion);
+      warnings.push(...formatMigrationReport(createMigrationReport(savedManifest.schemaVersion, migrations)));
+      const manifest: ProjectManifest = {
+        ...migrateArchivePart(migrations, 'manifest', savedManifest),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+      };
+
+      let canvas: ProjectCanvas;
+      try {
+        canvas = migrateArchivePart(migrations, 'canvas', await this.readJsonFile(zip, 'canvas/canvas.json'));
+      } catch (err) {
+        integrity.add('canvas', 'canvas/canvas.json', `Could not be read: ${describeError(err)}`, 'Using the default canvas');
+        canvas = this.getDefaultCanvas();
       }
-      const canvasContent = await canvasFile.async('string');
-      const canvas: ProjectCanvas = JSON.parse(canvasContent);
 
-      const propertiesFile = zip.file('properties/properties.json');
       let properties: ProjectProperties;
-      if (propertiesFile) {
-        const propertiesContent = await propertiesFile.async('string');
-        properties = JSON.parse(propertiesContent);
-      } else {
-        warnings.push('Missing properties.json, using defaults');
+      try {
+        properties = migrateArchivePart(
+          migrations,
+          'properties',
+          await this.readJsonFile(zip, 'properties/properties.json')
+        );
+      } catch (err) {
+        integrity.add('properties', 'properties/properties.json', `Could not be read: ${describeError(err)}`, 'Using default settings');
         properties = this.getDefaultProperties();
       }
 
-      const assetManifestFile = zip.file('assets/manifest.json');
-      let assetManifest: AssetManifest;
-      if (assetManifestFile) {
-        const assetManifestContent = await assetManifestFile.async('string');
-        assetManifest = JSON.parse(assetManifestContent);
-      } else {
-        warnings.push('Missing assets/manifest.json, no assets loaded');
-        assetManifest = { images: {}, fonts: {}, videos: {} };
+      const shapeFiles: JSZip.JSZipObject[] = [];
+      zip.folder('shapes')?.forEach((relativePath, shapeFile) => {
+        if (relativePath.endsWith('.json')) {
+          shapeFiles.push(shapeFile);
+        }
+      });
+
+      const savedShapes: DesignElement[] = [];
+      for (const shapeFile of shapeFiles) {
+        try {
+          savedShapes.push(migrateArchivePart(migrations, 'shape', JSON.parse(await shapeFile.async('string'))));
+        } catch (err) {
+          integrity.add('shapes', shapeFile.name, `Could not be read: ${describeError(err)}`);
+        }
+      }
+
+      // Since v3 every element has its own file and the hierarchy file puts them back in order;
+      // older archives nest children inside their group's file
+      let shapeTree = savedShapes;
+      if (zip.file('hierarchy/hierarchy.json') || savedManifest.schemaVersion >= 3) {
+        let hierarchy: ProjectHierarchy | null = null;
+        try {
+          const savedHierarchy = migrateArchivePart(
+            migrations,
+            'hierarchy',
+            await this.readJsonFile<unknown>(zip, 'hierarchy/hierarchy.json')
+          );
+          if (!isProjectHierarchy(savedHierarchy)) {
+            throw new Error('order or groups is malformed');
+          }
+          hierarchy = savedHierarchy;
+        } catch (err) {
+          integrity.add(
+            'shapes',
+            'hierarchy/hierarchy.json',
+            `Could not be read: ${describeError(err)}`,
+            'Groups rebuilt from parent references; stacking order may differ'
+          );
+        }
+        shapeTree = integrity.assembleHierarchy(savedShapes, hierarchy);
+      }
+      const verifiedShapes = integrity.verifyHierarchy(shapeTree);
+      if (manifest.counts && verifiedShapes.length < manifest.counts.elements) {
+        integrity.add(
+          'shapes',
+          'shapes/',
+          `Manifest lists ${manifest.counts.elements} elements but only ${verifiedShapes.length} could be loaded`
+        );
+      }
+
+      let savedChangeLog: ProjectChangeLogEntry[] = [];
+      try {
+        const changeLogData = await this.readJsonFile<ProjectChangeLogEntry[]>(zip, 'history/changelog.json', []);
+        savedChangeLog = Array.isArray(changeLogData) ? changeLogData : [];
+      } catch (err) {
+        integrity.add('history', 'history/changelog.json', `Could not be read: ${describeError(err)}`, 'Checkpoints dropped');
       }
 
+      // Shapes and checkpoints name their image files directly, which also covers gaps in the asset manifest
+      const referencedPaths = new Set<string>();
+      verifiedShapes.forEach((shape) => this.collectAssetPaths(shape, referencedPaths));
+      savedChangeLog.filter(isHistoryCheckpoint).forEach((entry) =>
+        entry.diff.elements.forEach((element) => this.collectAssetPaths(element, referencedPaths))
+      );
+
+      let savedAssetManifest: AssetManifest;
+      try {
+        savedAssetManifest = await this.readJsonFile(zip, 'assets/manifest.json');
+      } catch (err) {
+        integrity.add('assets', 'assets/manifest.json', `Could not be read: ${describeError(err)}`, 'Images are relinked from shape files');
+        savedAssetManifest = { images: {}, fonts: {}, videos: {} };
+      }
+      const assetManifest = await integrity.verifyAssets(zip, savedAssetManifest, referencedPaths);
+
       const loadedAssets = await this.loadAssets(zip, assetManifest);
 
       const shapes: Record<string, DesignElement> = {};
-      const shapesFolder = zip.folder('shapes');
-      if (shapesFolder) {
-        const shapeFiles: Array<{ name: string; file: JSZip.JSZipObject }> = [];
-        shapesFolder.forEach((relativePath, file) => {
-          if (relativePath.endsWith('.json')) {
-            shapeFiles.push({ name: relativePath, file });
-          }
-        });
-
-        for (const { file } of shapeFiles) {
-          try {
-            const shapeContent = await file.async('string');
-            const shape: DesignElement = JSON.parse(shapeContent);
-            const restoredShape = await this.restoreElementAssetReferences(
-              shape,
-              loadedAssets,
-              assetManifest
-            );
-            shapes[shape.id] = restoredShape;
-          } catch (err) {
-            warnings.push(`Failed to load shape from ${file.name}: ${err}`);
-          }
-        }
+      for (const shape of verifiedShapes) {
+        shapes[shape.id] = await this.restoreElementAssetReferences(
+          shape,
+          zip,
+          loadedAssets,
+          savedAssetManifest,
+          integrity
+        );
       }
 
-      const keyframes: Record<string, ShapeKeyframes> = {};
-      const keyframesFolder = zip.folder('keyframes');
-      if (keyframesFolder) {
-        const keyframeFiles: Array<{ name: string; file: JSZip.JSZipObject }> = [];
-        keyframesFolder.forEach((relativePath, file) => {
-          if (relativePath.endsWith('.json')) {
-            keyframeFiles.push({ name: relativePath, file });
-          }
-        });
+      const elementIds = new Set(getAllElementsFlat(verifiedShapes).map((el) => el.id));
 
-        for (const { file } of keyframeFiles) {
-          try {
-            const keyframeContent = await file.async('string');
-            const shapeKeyframes: ShapeKeyframes = JSON.parse(keyframeContent);
-            keyframes[shapeKeyframes.elementId] = shapeKeyframes;
-          } catch (err) {
-            warnings.push(`Failed to load keyframes from ${file.name}: ${err}`);
-          }
+      const keyframeFiles: JSZip.JSZipObject[] = [];
+      zip.folder('keyframes')?.forEach((relativePath, keyframeFile) => {
+        if (relativePath.endsWith('.json')) {
+          keyframeFiles.push(keyframeFile);
+        }
+      });
+
+      const savedKeyframes: Record<string, ShapeKeyframes> = {};
+      for (const keyframeFile of keyframeFiles) {
+        try {
+          const shapeKeyframes: ShapeKeyframes = migrateArchivePart(
+            migrations,
+            'keyframes',
+            JSON.parse(await keyframeFile.async('string'))
+          );
+          savedKeyframes[shapeKeyframes.elementId] = shapeKeyframes;
+        } catch (err) {
+          integrity.add('keyframes', keyframeFile.name, `Could not be read: ${describeError(err)}`);
         }
       }
+      const keyframes = integrity.verifyKeyframes(savedKeyframes, elementIds);
+
+      let clips: TimelineClips = {};
+      try {
+        clips = integrity.verifyClips(await this.readJsonFile(zip, 'timeline/clips.json', {}), elementIds);
+      } catch (err) {
+        integrity.add('timeline', 'timeline/clips.json', `Could not be read: ${describeError(err)}`, 'Every element shows for the whole timeline');
+      }
+
+      const changeLog = await this.unpackChangeLog(zip, savedChangeLog, migrations, integrity);
 
       const structure: ProjectFileStructure = {
         manifest,
         canvas,
         properties,
         shapes,
+        hierarchy: this.createHierarchy(verifiedShapes).hierarchy,
         keyframes,
+        clips,
+        changeLog,
         assets: loadedAssets,
         assetManifest,
       };
@@ -249,6 +550,7 @@ export class ProjectFileService {
         success: true,
         data: structure,
         warnings: warnings.length > 0 ? warnings : undefined,
+        integrity: integrity.getReport(),
       };
     } catch (err) {
       errors.push(`Failed to load project: ${err}`);
@@ -256,7 +558,54 @@ export class ProjectFileService {
     }
   }
 
-  private async extractAssets(elements: DesignElement[]): Promise<{
+  /**
+   * Make a loaded project the one later saves continue: same id, archive rebuilt from the loaded state
+   */
+  public openProject(data: ProjectFileStructure): LoadedProject {
+    this.identity = { projId: data.manifest.proj_id, createdAt: data.manifest.createdAt };
+    this.saveCache = null;
+    return this.toLoadedProject(data);
+  }
+
+  /**
+   * Parse a JSON file from the archive; a missing file throws unless a fallback is given
+   */
+  private async readJsonFile<T>(zip: JSZip, path: string, fallback?: T): Promise<T> {
+    const file = zip.file(path);
+    if (!file) {
+      if (fallback !== undefined) return fallback;
+      throw new Error('file is missing');
+    }
+    return JSON.parse(await file.async('string'));
+  }
+
+  private collectAssetPaths(element: DesignElement, paths: Set<string>): void {
+    if (element.type === 'image' && element.imageData?.startsWith('@asset:')) {
+      paths.add(`assets/${element.imageData.slice('@asset:'.length)}`);
+    }
+    element.children?.forEach((child) => this.collectAssetPaths(child, paths));
+  }
+
+  private createRecoveryManifest(fileName: string): ProjectManifest {
+    const now = new Date().toISOString();
+    return {
+      schemaVersion: 1,
+      proj_id: uuidv4(),
+      name: fileName.replace(/\.ffxproj$/i, ''),
+      createdAt: now,
+      updatedAt: now,
+      folders: {
+        canvas: '/canvas',
+        shapes: '/shapes',
+        keyframes: '/keyframes',
+        properties: '/properties',
+        assets: '/assets',
+      },
+      counts: { elements: 0, animations: 0, images: 0, fonts: 0, videos: 0 },
+    };
+  }
+
+  private async extractAssets(elements: DesignElement[], usedImages: Set<string>): Promise<{
     images: Record<string, Blob>;
     fonts: Record<string, Blob>;
     videos: Record<string, Blob>;
@@ -274,30 +623,25 @@ export class ProjectFileService {
     for (const element of elements) {
       if (element.type === 'image' && element.imageData) {
         try {
-          const blob = await base64ToBlob(element.imageData);
-          const hash = await hashBlob(blob);
-          const mimeType = getMimeTypeFromBase64(element.imageData);
-          const extension = mimeType ? getFileExtension(mimeType) : 'png';
-          const filename = `${hash}.${extension}`;
-
-          if (!images[filename]) {
-            images[filename] = blob;
-            assetManifest.images[element.id] = {
-              hash,
-              filename,
-              originalName: element.name || 'image',
-              width: element.originalWidth,
-              height: element.originalHeight,
-              format: extension,
-            };
-          }
+          const { hash, filename, blob } = await this.encodeImage(element.imageData, usedImages);
+
+          // Every element gets an entry so shared images are stored once but referenced by all
+          images[filename] = blob;
+          assetManifest.images[element.id] = {
+            hash,
+            filename,
+            originalName: element.name || 'image',
+            width: element.originalWidth,
+            height: element.originalHeight,
+            format: filename.slice(filename.lastIndexOf('.') + 1),
+          };
         } catch (err) {
           console.warn(`Failed to extract image from element ${element.id}:`, err);
         }
       }
 
       if (element.children) {
-        const childAssets = await this.extractAssets(element.children);
+        const childAssets = await this.extractAssets(element.children, usedImages);
         Object.assign(images, childAssets.images);
         Object.assign(fonts, childAssets.fonts);
         Object.assign(videos, childAssets.videos);
@@ -347,58 +691,68 @@ export class ProjectFileService {
     for (const [elementId, assetRef] of Object.entries(assetManifest.images)) {
       const file = zip.file(`assets/images/${assetRef.filename}`);
       if (file) {
-        const blob = await file.async('blob');
-        images[elementId] = blob;
+        images[elementId] = await this.readAssetBlob(file, assetRef.filename);
       }
     }
 
     for (const [elementId, fontRef] of Object.entries(assetManifest.fonts)) {
       const file = zip.file(`assets/fonts/${fontRef.filename}`);
       if (file) {
-        const blob = await file.async('blob');
-        fonts[elementId] = blob;
+        fonts[elementId] = await this.readAssetBlob(file, fontRef.filename);
       }
     }
 
     for (const [elementId, assetRef] of Object.entries(assetManifest.videos)) {
       const file = zip.file(`assets/videos/${assetRef.filename}`);
       if (file) {
-        const blob = await file.async('blob');
-        videos[elementId] = blob;
+        videos[elementId] = await this.readAssetBlob(file, assetRef.filename);
       }
     }
 
     return { images, fonts, videos };
   }
 
+  /**
+   * Zip entries carry no MIME type, so it is restored from the file extension
+   */
+  private async readAssetBlob(file: JSZip.JSZipObject, filename: string): Promise<Blob> {
+    const data = await file.async('arraybuffer');
+    return new Blob([data], { type: getMimeTypeFromFilename(filename) });
+  }
+
   private async restoreElementAssetReferences(
     element: DesignElement,
+    zip: JSZip,
     loadedAssets: {
       images: Record<string, Blob>;
       fonts: Record<string, Blob>;
       videos: Record<string, Blob>;
     },
-    assetManifest: AssetManifest
+    savedAssetManifest: AssetManifest,
+    integrity: ProjectIntegrityChecker
   ): Promise<DesignElement> {
     const restored = { ...element };
 
     if (restored.type === 'image' && restored.imageData?.startsWith('@asset:')) {
-      const blob = loadedAssets.images[element.id];
-      if (blob) {
-        const blobUrl = URL.createObjectURL(blob);
-        const reader = new FileReader();
-        const base64 = await new Promise<string>((resolve) => {
-          reader.onload = () => resolve(reader.result as string);
-          reader.readAsDataURL(blob);
-        });
-        restored.imageData = base64;
+      const path = `assets/${restored.imageData.slice('@asset:'.length)}`;
+      let blob: Blob | undefined = loadedAssets.images[element.id];
+      if (!blob) {
+        const file = zip.file(path);
+        if (file) {
+          blob = await this.readAssetBlob(file, path);
+          integrity.add('assets', element.id, 'Image is not listed in the asset manifest', `Relinked to ${path}`);
+        } else if (!savedAssetManifest.images[element.id]) {
+          // Files listed in the manifest were already reported as missing
+          integrity.add('assets', element.id, `Image file ${path} is missing`, 'Element kept without its image');
+        }
       }
+      restored.imageData = blob ? await this.blobToDataUrl(blob) : undefined;
     }
 
     if (restored.children) {
       restored.children = await Promise.all(
         restored.children.map((child) =>
-          this.restoreElementAssetReferences(child, loadedAssets, assetManifest)
+          this.restoreElementAssetReferences(child, zip, loadedAssets, savedAssetManifest, integrity)
         )
       );
     }
@@ -406,6 +760,121 @@ export class ProjectFileService {
     return restored;
   }
 
+  private blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  /**
+   * Move checkpoint snapshot images into the shared image assets, deduplicated by hash
+   */
+  private async packChangeLog(
+    changeLog: ProjectChangeLogEntry[],
+    images: Record<string, Blob>,
+    usedImages: Set<string>
+  ): Promise<ProjectChangeLogEntry[]> {
+    return Promise.all(changeLog.map(async (entry) => {
+      if (!isHistoryCheckpoint(entry)) return entry;
+      const elements = await Promise.all(
+        entry.diff.elements.map((element) => this.externalizeImages(element, images, usedImages))
+      );
+      return { ...entry, diff: { ...entry.diff, elements } };
+    }));
+  }
+
+  private async unpackChangeLog(
+    zip: JSZip,
+    changeLog: ProjectChangeLogEntry[],
+    migrations: ProjectMigration[],
+    integrity: ProjectIntegrityChecker
+  ): Promise<ProjectChangeLogEntry[]> {
+    return Promise.all(changeLog.map(async (entry) => {
+      if (!isHistoryCheckpoint(entry)) return entry;
+      const elements = await Promise.all(
+        entry.diff.elements.map((element) =>
+          this.internalizeImages(zip, migrateArchivePart(migrations, 'shape', element), entry, integrity)
+        )
+      );
+      return { ...entry, diff: { ...entry.diff, elements } };
+    }));
+  }
+
+  private async externalizeImages(
+    element: DesignElement,
+    images: Record<string, Blob>,
+    usedImages: Set<string>
+  ): Promise<DesignElement> {
+    const updated = { ...element };
+
+    if (updated.type === 'image' && updated.imageData?.startsWith('data:')) {
+      try {
+        const { filename, blob } = await this.encodeImage(updated.imageData, usedImages);
+        images[filename] = blob;
+        updated.imageData = `@asset:images/${filename}`;
+      } catch (err) {
+        console.warn(`Failed to extract checkpoint image from element ${element.id}:`, err);
+      }
+    }
+
+    if (updated.children) {
+      updated.children = await Promise.all(
+        updated.children.map((child) => this.externalizeImages(child, images, usedImages))
+      );
+    }
+
+    return updated;
+  }
+
+  private async internalizeImages(
+    zip: JSZip,
+    element: DesignElement,
+    checkpoint: ProjectChangeLogEntry,
+    integrity: ProjectIntegrityChecker
+  ): Promise<DesignElement> {
+    const restored = { ...element };
+
+    if (restored.type === 'image' && restored.imageData?.startsWith('@asset:')) {
+      const path = `assets/${restored.imageData.slice('@asset:'.length)}`;
+      const file = zip.file(path);
+      if (file) {
+        restored.imageData = await this.blobToDataUrl(await this.readAssetBlob(file, path));
+      } else {
+        integrity.add(
+          'history',
+          `${checkpoint.summary} / ${element.id}`,
+          `Checkpoint image ${path} is missing`,
+          'Element kept without its image'
+        );
+        restored.imageData = undefined;
+      }
+    }
+
+    if (restored.children) {
+      restored.children = await Promise.all(
+        restored.children.map((child) => this.internalizeImages(zip, child, checkpoint, integrity))
+      );
+    }
+
+    return restored;
+  }
+
+  private getDefaultCanvas(): ProjectCanvas {
+    return {
+      width: 3840,
+      height: 2160,
+      fps: 30,
+      unit: 'px',
+      grid: {
+        enabled: true,
+        size: 20,
+        snap: true,
+      },
+    };
+  }
+
   private getDefaultProperties(): ProjectProperties {
     return {
       defaultEasing: 'ease-in-out',
@@ -0,0 +1,265 @@
+import JSZip from 'jszip';
+import { DesignElement } from '../types/design';
+import { TimelineClips } from '../types/timeline';
+import {
+  AssetManifest,
+  IntegrityIssue,
+  IntegrityIssueArea,
+  IntegrityReport,
+  ProjectHierarchy,
+  ShapeKeyframes,
+} from '../types/projectFile';
+import { hashBlob } from '../utils/hashUtils';
+
+const ASSET_FOLDERS = ['images', 'fonts', 'videos'] as const;
+
+const isElementLike = (value: unknown): value is DesignElement =>
+  typeof value === 'object' && value !== null && typeof (value as { id?: unknown }).id === 'string';
+
+/**
+ * Verifies the parts of a project archive as they are read, repairing what it can
+ * and recording every problem so the user can review them before opening the project
+ */
+export class ProjectIntegrityChecker {
+  private issues: IntegrityIssue[] = [];
+  private checkedAssets = 0;
+
+  public add(area: IntegrityIssueArea, path: string, message: string, repair?: string): void {
+    this.issues.push({ area, path, message, repair });
+  }
+
+  public getReport(): IntegrityReport {
+    return { issues: [...this.issues], checkedAssets: this.checkedAssets };
+  }
+
+  /**
+   * Check every manifest entry against its file: missing files are dropped from the manifest,
+   * hash mismatches are reported, and files nothing refers to are reported as orphaned
+   * @param referencedPaths asset paths used directly by shapes and checkpoints
+   */
+  public async verifyAssets(
+    zip: JSZip,
+    assetManifest: AssetManifest,
+    referencedPaths: Set<string>
+  ): Promise<AssetManifest> {
+    const verified: AssetManifest = { images: {}, fonts: {}, videos: {} };
+    const hashes = new Map<string, string>(); // path -> computed hash, shared by duplicate entries
+    const listed = new Set<string>();
+
+    for (const folder of ASSET_FOLDERS) {
+      for (const [key, ref] of Object.entries(assetManifest[folder] || {})) {
+        const path = `assets/${folder}/${ref.filename}`;
+        const file = zip.file(path);
+        if (!file) {
+          this.add(
+            'assets',
+            path,
+            `File for ${folder === 'fonts' ? `font "${key}"` : `element ${key}`} is missing`,
+            folder === 'fonts'
+              ? 'Font skipped; text falls back to another font'
+              : folder === 'images' ? 'Element kept without its image' : 'Reference removed'
+          );
+          continue;
+        }
+
+        listed.add(path);
+        verified[folder][key] = ref;
+
+        if (!hashes.has(path)) {
+          hashes.set(path, await hashBlob(await file.async('blob')));
+          this.checkedAssets++;
+          if (hashes.get(path) !== ref.hash) {
+            this.add('assets', path, 'Contents do not match the recorded hash; the file is damaged or was edited', 'Loaded as is');
+          }
+        }
+      }
+    }
+
+    zip.forEach((path, file) => {
+      if (
+        !file.dir &&
+        ASSET_FOLDERS.some(folder => path.startsWith(`assets/${folder}/`)) &&
+        !listed.has(path) &&
+        !referencedPaths.has(path)
+      ) {
+        this.add('assets', path, 'File is not used by the project', 'Ignored; it is removed on the next save');
+      }
+    });
+
+    return verified;
+  }
+
+  /**
+   * Nest single-element shape files back into their groups in the order the hierarchy file gives.
+   * Without a readable hierarchy, groups are rebuilt from the elements' parentId references.
+   */
+  public assembleHierarchy(shapes: DesignElement[], hierarchy: ProjectHierarchy | null): DesignElement[] {
+    const source = hierarchy ?? this.hierarchyFromParents(shapes);
+    const byId = new Map<string, DesignElement>();
+    shapes.forEach(shape => {
+      if (!byId.has(shape.id)) byId.set(shape.id, shape);
+    });
+    const placed = new Set<string>();
+
+    const build = (id: string, parentId: string | undefined): DesignElement[] => {
+      const shape = byId.get(id);
+      if (!shape) {
+        this.add(
+          'shapes',
+          id,
+          `Listed ${parentId ? `in group ${parentId}` : 'in the stacking order'}, but its shape file is missing`,
+          'Removed'
+        );
+        return [];
+      }
+      if (placed.has(id)) {
+        this.add('shapes', id, 'Listed more than once in the hierarchy', 'Kept at its first position');
+        return [];
+      }
+      placed.add(id);
+
+      const group = source.groups[id];
+      return [group ? { ...shape, children: group.children.flatMap(childId => build(childId, id)) } : shape];
+    };
+
+    const elements = source.order.flatMap(id => build(id, undefined));
+
+    // Whatever could not be placed goes on top, groups first so their children stay nested
+    const listedAsChild = new Set(Object.values(source.groups).flatMap(group => group.children));
+    const unplaced = shapes.filter(shape => !placed.has(shape.id));
+    [
+      ...unplaced.filter(shape => !listedAsChild.has(shape.id)),
+      ...unplaced.filter(shape => listedAsChild.has(shape.id)),
+    ].forEach(shape => {
+      if (placed.has(shape.id)) return;
+      this.add('shapes', shape.id, 'Its place in the hierarchy could not be restored', 'Placed on top');
+      elements.push(...build(shape.id, undefined));
+    });
+
+    return elements;
+  }
+
+  private hierarchyFromParents(shapes: DesignElement[]): ProjectHierarchy {
+    const ids = new Set(shapes.map(shape => shape.id));
+    const hierarchy: ProjectHierarchy = { order: [], groups: {} };
+
+    shapes.forEach(shape => {
+      if (shape.type === 'group') {
+        hierarchy.groups[shape.id] = { id: shape.id, name: shape.name, children: [] };
+      }
+    });
+    shapes.forEach(shape => {
+      if (shape.parentId && ids.has(shape.parentId)) {
+        if (!hierarchy.groups[shape.parentId]) {
+          hierarchy.groups[shape.parentId] = { id: shape.parentId, children: [] };
+        }
+        hierarchy.groups[shape.parentId].children.push(shape.id);
+      } else {
+        hierarchy.order.push(shape.id);
+      }
+    });
+
+    return hierarchy;
+  }
+
+  /**
+   * Make parentId references follow the element tree and drop malformed or duplicate elements
+   */
+  public verifyHierarchy(elements: DesignElement[]): DesignElement[] {
+    const seen = new Set<string>();
+
+    const visit = (element: DesignElement, parentId: string | undefined): DesignElement => {
+      let result = element;
+
+      // Children without a parent reference are fine; only a reference that disagrees with the tree is dangling
+      if (element.parentId !== undefined && element.parentId !== parentId) {
+        this.add(
+          'shapes',
+          element.id,
+          `Refers to parent ${element.parentId}, but is ${parentId ? `inside ${parentId}` : 'not in a group'}`,
+          parentId ? `Parent set to ${parentId}` : 'Parent reference removed'
+        );
+        result = { ...result, parentId };
+      }
+
+      if (element.type === 'group' && !Array.isArray(element.children)) {
+        this.add('shapes', element.id, 'Group has no children list', 'Treated as an empty group');
+        result = { ...result, children: [] };
+      }
+
+      const original = result.children;
+      if (Array.isArray(original)) {
+        const children = visitList(original, element.id);
+        if (children.length !== original.length || children.some((child, i) => child !== original[i])) {
+          result = { ...result, children };
+        }
+      }
+
+      return result;
+    };
+
+    const visitList = (list: unknown[], parentId: string | undefined): DesignElement[] => {
+      const result: DesignElement[] = [];
+      list.forEach((item, index) => {
+        if (!isElementLike(item)) {
+          this.add('shapes', parentId ? `${parentId}.children[${index}]` : `shapes[${index}]`, 'Element has no id', 'Removed');
+          return;
+        }
+        if (seen.has(item.id)) {
+          this.add('shapes', item.id, 'Another element already uses this id', 'Duplicate removed');
+          return;
+        }
+        seen.add(item.id);
+        result.push(visit(item, parentId));
+      });
+      return result;
+    };
+
+    return visitList(elements, undefined);
+  }
+
+  /**
+   * Drop animations whose element no longer exists and re-point the rest at their file's element
+   */
+  public verifyKeyframes(
+    keyframes: Record<string, ShapeKeyframes>,
+    elementIds: Set<string>
+  ): Record<string, ShapeKeyframes> {
+    const verified: Record<string, ShapeKeyframes> = {};
+
+    for (const [elementId, shapeKeyframes] of Object.entries(keyframes)) {
+      if (!elementIds.has(elementId)) {
+        this.add('keyframes', elementId, 'Animations belong to an element that is not in the project', 'Removed');
+        continue;
+      }
+
+      const animations = (Array.isArray(shapeKeyframes.animations) ? shapeKeyframes.animations : [])
+        .filter((animation, index) => {
+          const valid = typeof animation?.id === 'string' && Array.isArray(animation.keyframes);
+          if (!valid) {
+            this.add('keyframes', `${elementId}[${index}]`, 'Animation is missing its id or keyframes', 'Removed');
+          }
+          return valid;
+        })
+        .map(animation => {
+          if (animation.elementId === elementId) return animation;
+          this.add('keyframes', animation.id, `Stored with ${elementId} but targets ${animation.elementId}`, `Now targets ${elementId}`);
+          return { ...animation, elementId };
+        });
+
+      verified[elementId] = { elementId, animations };
+    }
+
+    return verified;
+  }
+
+  public verifyClips(clips: TimelineClips, elementIds: Set<string>): TimelineClips {
+    return Object.fromEntries(
+      Object.entries(clips).filter(([clipId, clip]) => {
+        if (elementIds.has(clip.elementId)) return true;
+        this.add('timeline', clipId, `Clip belongs to missing element ${clip.elementId}`, 'Removed');
+        return false;
+      })
+    );
+  }
+}
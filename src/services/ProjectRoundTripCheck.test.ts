@@ -0,0 +1,100 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { DesignElement } from '../types/design';
+import { SaveProjectOptions } from '../types/projectFile';
+import { ProjectRoundTripCheck } from './ProjectRoundTripCheck';
+
+// 1x1 transparent PNG
+const PIXEL_PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const createElement = (overrides: Partial<DesignElement> & Pick<DesignElement, 'id' | 'type' | 'name'>): DesignElement => ({
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  rotation: 0,
+  opacity: 1,
+  locked: false,
+  visible: true,
+  fill: '#3b82f6',
+  stroke: '#000000',
+  strokeWidth: 0,
+  borderRadius: 0,
+  shadow: { blur: 0, color: '#000000', x: 0, y: 0 },
+  ...overrides
+});
+
+const createFixture = (): SaveProjectOptions => {
+  const title = createElement({
+    id: 'title', type: 'text', name: 'Title', x: 20, y: 10, width: 400, height: 60, parentId: 'card',
+    text: 'Hello', fontSize: 48, fontFamily: 'Brand Sans', textColor: '#ffffff'
+  });
+  const path = createElement({
+    id: 'path', type: 'line', name: 'Path', parentId: 'card', lineType: 'pen', closePath: false,
+    points: [{ x: 0, y: 0 }, { x: 120, y: 40, smooth: true, handleIn: { x: -30, y: 0 }, handleOut: { x: 30, y: 0 } }]
+  });
+  const card = createElement({
+    id: 'card', type: 'group', name: 'Card', x: 200, y: 150, width: 500, height: 300, children: [title, path]
+  });
+  const photo = createElement({
+    id: 'photo', type: 'image', name: 'Photo', x: 900, y: 400, imageData: PIXEL_PNG, originalWidth: 1, originalHeight: 1
+  });
+  const photoCopy = createElement({
+    id: 'photo-copy', type: 'image', name: 'Photo Copy', x: 1100, y: 400, imageData: PIXEL_PNG, originalWidth: 1, originalHeight: 1
+  });
+
+  return {
+    projectName: 'Round Trip Fixture',
+    projectId: 'proj_round_trip',
+    elements: [card, photo, photoCopy],
+    canvas: {
+      width: 3840,
+      height: 2160,
+      fps: 24,
+      unit: 'px',
+      grid: { enabled: true, size: 40, snap: false },
+      zoom: 0.5,
+      pan: { x: 12, y: -8 }
+    },
+    properties: {
+      defaultEasing: 'ease-out',
+      exportDefaults: { format: 'mp4', quality: 0.8 },
+      editor: { gridSnap: false, showRulers: true, showGrid: true, historyLimit: 200 },
+      metadata: { tags: ['fixture'], description: 'Every part of an archive', thumbnail: null, protected: false, versionLabel: 'v2.0' }
+    },
+    animations: {
+      fade: {
+        id: 'fade', type: 'opacity', elementId: 'photo', duration: 1.5, delay: 0.25,
+        keyframes: [{ time: 0, value: 0 }, { time: 1.5, value: 1, easing: 'ease-in' }]
+      },
+      spin: {
+        id: 'spin', type: 'rotate', elementId: 'title', duration: 2, loop: 3,
+        keyframes: [{ time: 0, value: 0 }, { time: 2, value: 360 }]
+      },
+      tint: {
+        id: 'tint', type: 'color', elementId: 'title', property: 'textColor', duration: 1,
+        keyframes: [{ time: 0, value: '#ffffff' }, { time: 1, value: '#ff0000' }]
+      }
+    },
+    clips: {
+      'clip-photo': { id: 'clip-photo', elementId: 'photo', start: 0.5, duration: 4, locked: false, muted: false },
+      'clip-card': { id: 'clip-card', elementId: 'card', start: 0, duration: 6, locked: true, muted: true }
+    },
+    changeLog: [],
+    fonts: [{
+      family: 'Brand Sans',
+      name: 'BrandSans-Regular.woff2',
+      format: 'woff2',
+      data: new Blob([new Uint8Array([0x77, 0x4f, 0x46, 0x32, 0, 1, 2, 3, 255])], { type: 'font/woff2' })
+    }]
+  };
+};
+
+describe('ProjectRoundTripCheck', () => {
+  it('loads a saved project back unchanged', async () => {
+    const report = await new ProjectRoundTripCheck().run(createFixture());
+
+    expect(report.differences).toEqual([]);
+    expect(report.lossless).toBe(true);
+  });
+});
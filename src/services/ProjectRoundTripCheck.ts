@@ -0,0 +1,141 @@
+import { Animation } from '../types/project';
+import { LoadedProject, ProjectFont, SaveProjectOptions } from '../types/projectFile';
+import { getAllElementsFlat } from '../utils/groupUtils';
+import { pruneClips } from '../utils/clipUtils';
+import { ProjectFileService } from './ProjectFileService';
+
+export interface RoundTripReport {
+  lossless: boolean;
+  differences: string[]; // one line per value that did not survive, as 'path: expected …, got …'
+  warnings: string[];
+}
+
+const MAX_DIFFERENCES = 50;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const formatValue = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text && text.length > 60 ? `${text.slice(0, 57)}...` : String(text);
+};
+
+/**
+ * Saves a project to an .ffxproj archive, opens it again and reports every value that changed on the way.
+ * ProjectRoundTripCheck.test.ts runs it over a fixture project that uses every part of the archive.
+ */
+export class ProjectRoundTripCheck {
+  private differences: string[] = [];
+
+  public async run(options: SaveProjectOptions): Promise<RoundTripReport> {
+    this.differences = [];
+    const service = new ProjectFileService();
+
+    const blob = await service.saveProject(options);
+    const file = new File([blob], `${options.projectName}.ffxproj`);
+    const result = await service.loadProject(file);
+
+    if (!result.success || !result.data) {
+      return { lossless: false, differences: result.errors || ['Project failed to load'], warnings: [] };
+    }
+
+    result.integrity?.issues.forEach(issue => {
+      this.differences.push(`integrity: ${issue.path}: ${issue.message}`);
+    });
+
+    const loaded = service.toLoadedProject(result.data);
+    await this.compareProject(options, loaded);
+
+    return {
+      lossless: this.differences.length === 0,
+      differences: this.differences.slice(0, MAX_DIFFERENCES),
+      warnings: result.warnings || []
+    };
+  }
+
+  private async compareProject(options: SaveProjectOptions, loaded: LoadedProject): Promise<void> {
+    this.compare('name', options.projectName, loaded.name);
+    if (options.projectId) {
+      this.compare('projectId', options.projectId, loaded.projectId);
+    }
+
+    // Arrays compare by position, so this also checks the stacking order inside every group
+    this.compare('elements', options.elements, loaded.elements);
+    this.compare('canvas', options.canvas, loaded.canvas);
+    this.compare('properties', options.properties || {}, loaded.properties);
+
+    const animations = options.animations || {};
+    this.compare('animations', animations, loaded.animations);
+    // Only the order within an element is meaningful; archives group animations per element
+    this.compare('animationOrder', this.orderByElement(animations), this.orderByElement(loaded.animations));
+
+    const elementIds = getAllElementsFlat(options.elements).map(el => el.id);
+    this.compare('clips', options.clips ? pruneClips(options.clips, elementIds) : {}, loaded.clips);
+    this.compare('changeLog', options.changeLog || [], loaded.changeLog);
+
+    await this.compareFonts(options.fonts || [], loaded.fonts);
+  }
+
+  private async compareFonts(expected: ProjectFont[], actual: ProjectFont[]): Promise<void> {
+    const loadedFonts = new Map(actual.map(font => [font.family, font]));
+
+    for (const font of expected) {
+      const path = `fonts.${font.family}`;
+      const loaded = loadedFonts.get(font.family);
+      if (!loaded) {
+        this.differences.push(`${path}: missing after load`);
+        continue;
+      }
+      this.compare(`${path}.name`, font.name, loaded.name);
+      this.compare(`${path}.format`, font.format, loaded.format);
+
+      const [before, after] = await Promise.all([font.data.arrayBuffer(), loaded.data.arrayBuffer()]);
+      const beforeBytes = new Uint8Array(before);
+      const afterBytes = new Uint8Array(after);
+      if (beforeBytes.length !== afterBytes.length || beforeBytes.some((byte, i) => byte !== afterBytes[i])) {
+        this.differences.push(`${path}.data: font file contents differ`);
+      }
+    }
+  }
+
+  private orderByElement(animations: Record<string, Animation>): Record<string, string[]> {
+    const order: Record<string, string[]> = {};
+    for (const animation of Object.values(animations)) {
+      if (!order[animation.elementId]) {
+        order[animation.elementId] = [];
+      }
+      order[animation.elementId].push(animation.id);
+    }
+    return order;
+  }
+
+  /**
+   * Deep comparison of what was saved with what was loaded. Undefined values are skipped
+   * since JSON does not store them; missing fields filled with defaults on load are allowed.
+   */
+  private compare(path: string, expected: unknown, actual: unknown): void {
+    if (expected === undefined || Object.is(expected, actual)) return;
+
+    if (Array.isArray(expected)) {
+      if (!Array.isArray(actual) || actual.length !== expected.length) {
+        this.differences.push(`${path}: expected ${formatValue(expected)}, got ${formatValue(actual)}`);
+        return;
+      }
+      expected.forEach((item, i) => this.compare(`${path}[${i}]`, item, actual[i]));
+      return;
+    }
+
+    if (isPlainObject(expected)) {
+      if (!isPlainObject(actual)) {
+        this.differences.push(`${path}: expected ${formatValue(expected)}, got ${formatValue(actual)}`);
+        return;
+      }
+      for (const [key, value] of Object.entries(expected)) {
+        this.compare(`${path}.${key}`, value, actual[key]);
+      }
+      return;
+    }
+
+    this.differences.push(`${path}: expected ${formatValue(expected)}, got ${formatValue(actual)}`);
+  }
+}
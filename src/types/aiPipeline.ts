@@ -1,9 +1,12 @@
+import { DesignElement } from './design';
+
 export type PipelineStage =
   | 'idle'
   | 'validating'
   | 'high-level'
   | 'low-level'
   | 'placing'
+  | 'editing'
   | 'complete'
   | 'error';
 
@@ -81,6 +84,34 @@ export interface LowLevelShape {
   settings: LowLevelShapeSettings;
 }
 
+// A selected element as sent to the model: editable properties plus its place in the hierarchy
+export type EditContextElement = Partial<DesignElement> & {
+  id: string;
+  type: DesignElement['type'];
+  childIds?: string[];
+};
+
+// Property changes proposed for one existing element
+export interface ElementPatch {
+  elementId: string;
+  changes: Partial<DesignElement>;
+  reason?: string;
+}
+
+export interface ElementPropertyDiff {
+  property: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ElementEditDiff {
+  elementId: string;
+  elementName: string;
+  properties: ElementPropertyDiff[];
+}
+
+export type EditPreviewStatus = 'pending' | 'applied' | 'discarded';
+
 export interface GenerationProgress {
   current: number;
   total: number;
@@ -118,6 +149,13 @@ export interface GenerationStageData {
     failed: number[];
     timestamp: string;
   };
+  edit?: {
+    contextElementIds: string[];
+    patches: ElementPatch[];
+    rejected: string[];          // why proposed changes were dropped
+    status: EditPreviewStatus;
+    timestamp: string;
+  };
 }
 
 export interface GenerationPipeline {
@@ -133,17 +171,3 @@ export interface GenerationPipeline {
     processingTimeMs: number;
   };
 }
-
-export interface OpenAIThreadMessage {
-  role: 'user' | 'assistant';
-  content: string;
-}
-
-export interface OpenAIRunStatus {
-  id: string;
-  status: 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled' | 'expired' | 'requires_action';
-  error?: {
-    code: string;
-    message: string;
-  };
-}
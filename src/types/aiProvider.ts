@@ -0,0 +1,47 @@
+import {
+  EditContextElement,
+  ElementPatch,
+  HighLevelShape,
+  LowLevelShape,
+  ValidationResponse
+} from './aiPipeline';
+
+// One backend for the three stages of the design generation pipeline
+export interface AIProvider {
+  readonly name: string;
+  validatePrompt(prompt: string, signal?: AbortSignal): Promise<ValidationResponse>;
+  generateHighLevelStructure(prompt: string, signal?: AbortSignal): Promise<HighLevelShape[]>;
+  generateLowLevelShape(
+    highLevelShape: HighLevelShape,
+    userPrompt: string,
+    signal?: AbortSignal
+  ): Promise<LowLevelShape>;
+  // Property changes for existing elements; the result is sanitized by AIEditPatcher before use
+  generateEdits(
+    prompt: string,
+    elements: EditContextElement[],
+    signal?: AbortSignal
+  ): Promise<ElementPatch[]>;
+}
+
+export type AIProviderKind = 'openai-compatible' | 'mock';
+
+// Chosen at runtime in the AI settings panel and kept in localStorage, never in the build
+export interface AIProviderSettings {
+  kind: AIProviderKind;
+  baseUrl: string;               // chat completions API root, e.g. https://api.openai.com/v1
+  apiKey: string;
+  model: string;
+}
+
+export const AI_PROVIDER_LABELS: Record<AIProviderKind, string> = {
+  'openai-compatible': 'OpenAI-compatible API',
+  mock: 'Local mock (offline)'
+};
+
+export const createDefaultAIProviderSettings = (): AIProviderSettings => ({
+  kind: 'openai-compatible',
+  baseUrl: 'https://api.openai.com/v1',
+  apiKey: '',
+  model: 'gpt-4o-mini'
+});
@@ -8,6 +8,8 @@ export interface DesignElement {
   height: number;
   rotation: number;
   opacity: number;
+  scaleX?: number; // animated scale around the element center, defaults to 1
+  scaleY?: number;
   locked: boolean;
   visible: boolean;
   
@@ -44,7 +46,17 @@ export interface DesignElement {
   
   // Line properties (for line elements)
   lineType?: 'line' | 'arrow' | 'pen';
-  points?: Array<{ x: number; y: number; smooth?: boolean; radius?: number }>;
+  // handleIn/handleOut are Bezier control points relative to the anchor; broken lets them point independently
+  points?: Array<{
+    x: number;
+    y: number;
+    smooth?: boolean;
+    radius?: number;
+    handleIn?: { x: number; y: number };
+    handleOut?: { x: number; y: number };
+    broken?: boolean;
+  }>;
+  subpaths?: Array<Array<{ x: number; y: number }>>; // further closed contours of a pen path, e.g. holes; filled even-odd
   cornerRadius?: number; // Global corner radius for line connections
   pointCornerRadii?: number[]; // Per-point corner radius values
   arrowStart?: boolean;
@@ -70,6 +82,11 @@ export interface DesignElement {
   children?: DesignElement[];
   parentId?: string;
 
+  // Motion path: the element's center follows a line element, progress runs 0 to 1 along it
+  motionPathId?: string;
+  motionProgress?: number;
+  motionAutoOrient?: boolean; // adds the path's direction of travel to the rotation
+
   // Image properties (for image elements)
   imageData?: string; // base64 or blob URL
   originalWidth?: number;
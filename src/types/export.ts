@@ -0,0 +1,116 @@
+export type VideoResolution = '4k' | '2k' | '1080p' | '720p';
+
+export type VideoFrameRate = 120 | 60 | 30 | 24;
+
+// Project-wide output settings; frameRate is also the timeline playback rate
+export interface VideoSettings {
+  resolution: VideoResolution;
+  frameRate: VideoFrameRate;
+}
+
+export const VIDEO_RESOLUTIONS: Record<VideoResolution, { width: number; height: number; label: string }> = {
+  '4k': { width: 3840, height: 2160, label: '4K (3840 × 2160)' },
+  '2k': { width: 2560, height: 1440, label: '2K (2560 × 1440)' },
+  '1080p': { width: 1920, height: 1080, label: '1080p (1920 × 1080)' },
+  '720p': { width: 1280, height: 720, label: '720p (1280 × 720)' }
+};
+
+export const VIDEO_FRAME_RATES: VideoFrameRate[] = [120, 60, 30, 24];
+
+export const createDefaultVideoSettings = (): VideoSettings => ({
+  resolution: '1080p',
+  frameRate: 30
+});
+
+export type ExportImageFormat = 'png' | 'jpeg';
+
+// How the artboard fills an explicit size with a different aspect ratio
+export type ExportFit = 'contain' | 'cover' | 'stretch';
+
+// A named image output: a scale of the artboard or an explicit pixel size
+export interface ExportPreset {
+  id: string;
+  name: string;
+  scale?: number;
+  width?: number;
+  height?: number;
+  fit?: ExportFit;
+  format: ExportImageFormat;
+  quality: number; // 0-1, JPEG only
+  fileNamePattern: string;
+}
+
+// Tokens available in ExportPreset.fileNamePattern
+export const EXPORT_FILENAME_TOKENS = ['{project}', '{preset}', '{width}', '{height}', '{scale}'] as const;
+
+export const createDefaultExportPresets = (): ExportPreset[] => [
+  { id: 'preset-1x', name: '1x', scale: 1, format: 'png', quality: 0.95, fileNamePattern: '{project}@{scale}x' },
+  { id: 'preset-2x', name: '2x', scale: 2, format: 'png', quality: 0.95, fileNamePattern: '{project}@{scale}x' },
+  { id: 'preset-3x', name: '3x', scale: 3, format: 'png', quality: 0.95, fileNamePattern: '{project}@{scale}x' },
+  {
+    id: 'preset-instagram-post',
+    name: 'Instagram Post',
+    width: 1080,
+    height: 1080,
+    fit: 'cover',
+    format: 'jpeg',
+    quality: 0.92,
+    fileNamePattern: '{project}_{preset}'
+  },
+  {
+    id: 'preset-instagram-story',
+    name: 'Instagram Story',
+    width: 1080,
+    height: 1920,
+    fit: 'cover',
+    format: 'jpeg',
+    quality: 0.92,
+    fileNamePattern: '{project}_{preset}'
+  },
+  {
+    id: 'preset-x-post',
+    name: 'X Post',
+    width: 1600,
+    height: 900,
+    fit: 'cover',
+    format: 'jpeg',
+    quality: 0.92,
+    fileNamePattern: '{project}_{preset}'
+  }
+];
+
+/**
+ * Output size of a preset for an artboard; a single explicit side keeps the aspect ratio
+ */
+export const getPresetSize = (preset: ExportPreset, canvasWidth: number, canvasHeight: number) => {
+  if (preset.width && preset.height) {
+    return { width: Math.round(preset.width), height: Math.round(preset.height) };
+  }
+  if (preset.width) {
+    return { width: Math.round(preset.width), height: Math.round(preset.width * canvasHeight / canvasWidth) };
+  }
+  if (preset.height) {
+    return { width: Math.round(preset.height * canvasWidth / canvasHeight), height: Math.round(preset.height) };
+  }
+  const scale = preset.scale || 1;
+  return { width: Math.round(canvasWidth * scale), height: Math.round(canvasHeight * scale) };
+};
+
+/**
+ * File name for a preset's output, with tokens filled in and unsafe characters replaced
+ */
+export const formatPresetFileName = (
+  preset: ExportPreset,
+  values: { project: string; width: number; height: number }
+): string => {
+  const name = (preset.fileNamePattern || '{project}_{preset}')
+    .replace(/\{project\}/g, values.project)
+    .replace(/\{preset\}/g, preset.name)
+    .replace(/\{width\}/g, String(values.width))
+    .replace(/\{height\}/g, String(values.height))
+    .replace(/\{scale\}/g, String(preset.scale ?? 1))
+    .replace(/[\\/:*?"<>|]+/g, '_')
+    .replace(/\s+/g, '_')
+    .trim();
+  return `${name || preset.id}.${preset.format === 'jpeg' ? 'jpg' : 'png'}`;
+};
@@ -9,6 +9,7 @@ export interface CustomFont {
   family: string;
   url: string;
   format: string;
+  file?: Blob; // original font data, embedded when a project using it is saved
 }
 
 export interface FontState {
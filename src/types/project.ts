@@ -1,22 +1,34 @@
 import { DesignElement } from './design';
 import { BackgroundConfig } from './background';
 
+export type AnimationType = 'opacity' | 'transform' | 'scale' | 'rotate' | 'color' | 'trim' | 'motionPath';
+
+// A single keyframe; easing applies to the segment that starts at this keyframe
+export interface AnimationKeyframe {
+  time: number;                  // seconds, relative to the animation start (after delay)
+  value: any;
+  easing?: string;
+}
+
 // Animation interface (referenced in ProjectFile)
 export interface Animation {
   id: string;
   name?: string;
-  type: 'opacity' | 'transform' | 'scale' | 'rotate' | 'color';
+  type: AnimationType;
   elementId: string;
-  keyframes: Array<{
-    time: number;
-    value: any;
-    easing?: string;
-  }>;
+  property?: 'fill' | 'stroke' | 'textColor'; // target of 'color' animations, defaults to fill
+  keyframes: AnimationKeyframe[];
   duration: number;
   delay?: number;
   loop?: boolean | number;
 }
 
+// Editable animation state, mirrors ProjectFile.animations
+export interface ProjectAnimations {
+  byId: Record<string, Animation>;
+  order: string[];
+}
+
 // Project JSON schema - exact TypeScript interfaces for validation
 export interface ProjectFile {
   proj_id: string;               // stable project id
@@ -84,6 +96,31 @@ export interface ProjectChangeLogEntry {
   diff?: any;
 }
 
+// A named canvas snapshot pinned from the History panel; summary holds its name
+export interface HistoryCheckpoint extends ProjectChangeLogEntry {
+  diff: {
+    type: 'checkpoint';
+    historyEntryId?: string; // undo entry it was pinned on, only meaningful in the session that made it
+    elements: DesignElement[];
+    selectedElements: string[];
+  };
+}
+
+export const createHistoryCheckpoint = (
+  name: string,
+  elements: DesignElement[],
+  selectedElements: string[],
+  historyEntryId?: string
+): HistoryCheckpoint => ({
+  id: `checkpoint-${Date.now()}`,
+  ts: new Date().toISOString(),
+  summary: name,
+  diff: { type: 'checkpoint', historyEntryId, elements, selectedElements }
+});
+
+export const isHistoryCheckpoint = (entry: ProjectChangeLogEntry): entry is HistoryCheckpoint =>
+  entry.diff?.type === 'checkpoint' && Array.isArray(entry.diff.elements);
+
 export interface ProjectValidationError {
   path: string;
   message: string;
@@ -95,4 +132,5 @@ export interface ProjectApplyResult {
   errors?: ProjectValidationError[];
   warnings?: string[];
   changesSummary?: string;
+  project?: ProjectFile; // the validated project, upgraded to the current schema version
 }
\ No newline at end of file
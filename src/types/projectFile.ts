@@ -1,6 +1,9 @@
 import { DesignElement } from './design';
-import { Animation } from './project';
+import { Animation, ProjectChangeLogEntry } from './project';
 import { BackgroundConfig } from './background';
+import { TimelineClips } from './timeline';
+import { ExportPreset, VideoSettings } from './export';
+import type { GridSettings } from '../hooks/useGridSystem';
 
 export interface ProjectManifest {
   schemaVersion: number;
@@ -18,6 +21,9 @@ export interface ProjectManifest {
     keyframes: string;
     properties: string;
     assets: string;
+    timeline?: string;
+    history?: string;
+    hierarchy?: string;
   };
   counts: {
     elements: number;
@@ -48,12 +54,16 @@ export interface ProjectProperties {
   exportDefaults: {
     format: 'webm' | 'mp4' | 'png';
     quality: number;
+    presets?: ExportPreset[]; // image outputs rendered together by batch export
+    video?: VideoSettings;
   };
   autosaveIntervalMs: number;
   editor: {
     gridSnap: boolean;
     showRulers: boolean;
     showGrid: boolean;
+    grid?: GridSettings;
+    historyLimit?: number; // undo steps kept while editing
   };
   metadata: {
     tags: string[];
@@ -64,6 +74,12 @@ export interface ProjectProperties {
   };
 }
 
+// Stacking order and group membership; since v3 each shape file holds one element without its children
+export interface ProjectHierarchy {
+  order: string[]; // top-level ids in z-order (first = bottom, last = top)
+  groups: Record<string, { id: string; name?: string; children: string[] }>; // child ids in z-order
+}
+
 export interface ShapeKeyframes {
   elementId: string;
   animations: Animation[];
@@ -83,6 +99,15 @@ export interface FontReference {
   filename: string;
   family: string;
   name: string;
+  format?: string; // FontFace format, e.g. 'truetype' or 'woff2'
+}
+
+// A custom font embedded in the archive so the project renders the same elsewhere
+export interface ProjectFont {
+  family: string;
+  name: string;
+  format: string;
+  data: Blob;
 }
 
 export interface AssetManifest {
@@ -95,8 +120,11 @@ export interface ProjectFileStructure {
   manifest: ProjectManifest;
   canvas: ProjectCanvas;
   properties: ProjectProperties;
-  shapes: Record<string, DesignElement>;
+  shapes: Record<string, DesignElement>; // top-level elements with their children nested
+  hierarchy: ProjectHierarchy;
   keyframes: Record<string, ShapeKeyframes>;
+  clips: TimelineClips;
+  changeLog: ProjectChangeLogEntry[];
   assets: {
     images: Record<string, Blob>;
     fonts: Record<string, Blob>;
@@ -105,19 +133,60 @@ export interface ProjectFileStructure {
   assetManifest: AssetManifest;
 }
 
+// Everything an opened project restores into the editor
+export interface LoadedProject {
+  projectId: string;
+  name: string;
+  elements: DesignElement[];
+  canvas: ProjectCanvas;
+  properties: ProjectProperties;
+  animations: Record<string, Animation>;
+  clips: TimelineClips;
+  changeLog: ProjectChangeLogEntry[];
+  fonts: ProjectFont[];
+}
+
+export type IntegrityIssueArea =
+  | 'manifest'
+  | 'canvas'
+  | 'properties'
+  | 'shapes'
+  | 'keyframes'
+  | 'timeline'
+  | 'history'
+  | 'assets';
+
+// A problem found while verifying an archive
+export interface IntegrityIssue {
+  area: IntegrityIssueArea;
+  path: string;          // archive file or element id the issue concerns
+  message: string;
+  repair?: string;       // what was done about it; absent when the data could not be recovered
+}
+
+export interface IntegrityReport {
+  issues: IntegrityIssue[];
+  checkedAssets: number; // asset files whose hashes were verified
+}
+
 export interface LoadProjectResult {
   success: boolean;
   data?: ProjectFileStructure;
   errors?: string[];
   warnings?: string[];
+  integrity?: IntegrityReport; // results with issues are opened only after the user reviews them
 }
 
 export interface SaveProjectOptions {
   projectName: string;
+  projectId?: string; // proj_id for the first save; later saves keep the id already in use
   elements: DesignElement[];
   canvas: ProjectCanvas;
   properties?: Partial<ProjectProperties>;
   animations?: Record<string, Animation>;
+  clips?: TimelineClips;
+  changeLog?: ProjectChangeLogEntry[];
+  fonts?: ProjectFont[];
   userId?: string | null;
   userName?: string | null;
 }
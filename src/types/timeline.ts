@@ -0,0 +1,17 @@
+// A clip is an in/out range on a layer's track; the layer is only visible inside its clips
+export interface TimelineClip {
+  id: string;
+  elementId: string;
+  start: number;     // seconds
+  duration: number;  // seconds
+  locked: boolean;
+  muted: boolean;    // muted clips keep their range but hide the layer
+}
+
+export type TimelineClips = Record<string, TimelineClip>;
+
+// Playback loop region on the timeline, in seconds
+export interface LoopRange {
+  start: number;
+  end: number;
+}
@@ -0,0 +1,228 @@
+import { DesignElement } from '../types/design';
+import {
+  EditContextElement,
+  ElementEditDiff,
+  ElementPatch,
+  ElementPropertyDiff,
+} from '../types/aiPipeline';
+import { COLOR_PATTERN as COLOR_PATTERN_SOURCE } from './aiResponseSchema';
+
+type PropertyKind = 'number' | 'color' | 'string' | 'boolean' | 'enum';
+
+interface PropertyRule {
+  kind: PropertyKind;
+  min?: number;
+  max?: number;
+  values?: readonly string[];
+}
+
+// Properties the AI may change; anything else in a response is dropped
+const EDITABLE_PROPERTIES: Partial<Record<keyof DesignElement, PropertyRule>> = {
+  name: { kind: 'string' },
+  x: { kind: 'number' },
+  y: { kind: 'number' },
+  width: { kind: 'number', min: 1 },
+  height: { kind: 'number', min: 1 },
+  rotation: { kind: 'number', min: -360, max: 360 },
+  opacity: { kind: 'number', min: 0, max: 1 },
+  scaleX: { kind: 'number', min: 0 },
+  scaleY: { kind: 'number', min: 0 },
+  visible: { kind: 'boolean' },
+  fill: { kind: 'color' },
+  stroke: { kind: 'color' },
+  strokeWidth: { kind: 'number', min: 0 },
+  borderRadius: { kind: 'number', min: 0 },
+  gradientEnabled: { kind: 'boolean' },
+  gradientType: { kind: 'enum', values: ['linear', 'radial'] },
+  gradientAngle: { kind: 'number', min: -360, max: 360 },
+  text: { kind: 'string' },
+  fontSize: { kind: 'number', min: 1 },
+  fontWeight: { kind: 'string' },
+  fontFamily: { kind: 'string' },
+  fontStyle: { kind: 'enum', values: ['normal', 'italic', 'oblique'] },
+  textTransform: { kind: 'enum', values: ['none', 'uppercase', 'lowercase', 'capitalize'] },
+  textAlign: { kind: 'enum', values: ['left', 'center', 'right'] },
+  verticalAlign: { kind: 'enum', values: ['top', 'middle', 'bottom'] },
+  textColor: { kind: 'color' },
+  letterSpacing: { kind: 'number' },
+  lineHeight: { kind: 'number', min: 0 },
+  textDecoration: { kind: 'enum', values: ['none', 'underline', 'line-through', 'overline'] },
+  arrowStart: { kind: 'boolean' },
+  arrowEnd: { kind: 'boolean' },
+  arrowheadType: { kind: 'enum', values: ['triangle', 'circle', 'bar', 'diamond'] },
+  arrowheadSize: { kind: 'number', min: 0 },
+  lineCap: { kind: 'enum', values: ['round', 'butt', 'square'] },
+  lineJoin: { kind: 'enum', values: ['round', 'bevel', 'miter'] },
+  trimStart: { kind: 'number', min: 0, max: 1 },
+  trimEnd: { kind: 'number', min: 0, max: 1 },
+  motionProgress: { kind: 'number', min: 0, max: 1 },
+  motionAutoOrient: { kind: 'boolean' },
+};
+
+const COLOR_PATTERN = new RegExp(COLOR_PATTERN_SOURCE, 'i');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export class AIEditPatcher {
+  /**
+   * The part of an element the model needs to see: editable properties, never image data
+   */
+  static toEditContext(element: DesignElement): EditContextElement {
+    const context: EditContextElement = { id: element.id, type: element.type };
+    const target = context as Record<string, unknown>;
+
+    for (const key of Object.keys(EDITABLE_PROPERTIES) as Array<keyof DesignElement>) {
+      if (element[key] !== undefined) {
+        target[key] = element[key];
+      }
+    }
+    if (element.shadow) context.shadow = element.shadow;
+    if (element.gradientColors) context.gradientColors = element.gradientColors;
+    if (element.parentId) context.parentId = element.parentId;
+    if (element.children) context.childIds = element.children.map(child => child.id);
+
+    return context;
+  }
+
+  /**
+   * Check a raw model response against the elements that were sent.
+   * Unknown elements and properties, locked elements, invalid values and no-op changes are dropped.
+   */
+  static sanitizePatches(
+    data: unknown,
+    elements: DesignElement[]
+  ): { patches: ElementPatch[]; rejected: string[] } {
+    const rejected: string[] = [];
+    if (!Array.isArray(data)) {
+      return { patches: [], rejected: ['Response is not a list of element changes'] };
+    }
+
+    const byId = new Map(elements.map(element => [element.id, element]));
+    const merged = new Map<string, ElementPatch>();
+
+    data.forEach((item, index) => {
+      if (!isRecord(item) || typeof item.elementId !== 'string' || !isRecord(item.changes)) {
+        rejected.push(`Change ${index + 1} has no elementId or changes`);
+        return;
+      }
+
+      const element = byId.get(item.elementId);
+      if (!element) {
+        rejected.push(`Change ${index + 1} targets ${item.elementId}, which is not selected`);
+        return;
+      }
+      if (element.locked) {
+        rejected.push(`${element.name} is locked`);
+        return;
+      }
+
+      const changes = this.sanitizeChanges(item.changes, element, rejected);
+      if (Object.keys(changes).length === 0) return;
+
+      // Several entries for the same element are combined, later values win
+      const existing = merged.get(element.id);
+      merged.set(element.id, {
+        elementId: element.id,
+        changes: { ...existing?.changes, ...changes },
+        reason: typeof item.reason === 'string' ? item.reason : existing?.reason,
+      });
+    });
+
+    return { patches: Array.from(merged.values()), rejected };
+  }
+
+  private static sanitizeChanges(
+    raw: Record<string, unknown>,
+    element: DesignElement,
+    rejected: string[]
+  ): Partial<DesignElement> {
+    const changes: Record<string, unknown> = {};
+
+    for (const [property, value] of Object.entries(raw)) {
+      const sanitized = this.sanitizeValue(property, value, element);
+      if (sanitized === undefined) {
+        rejected.push(`${element.name}: ${property} ${JSON.stringify(value)} is not an editable value`);
+        continue;
+      }
+      if (!isEqual(sanitized, element[property as keyof DesignElement])) {
+        changes[property] = sanitized;
+      }
+    }
+
+    return changes as Partial<DesignElement>;
+  }
+
+  private static sanitizeValue(property: string, value: unknown, element: DesignElement): unknown {
+    if (property === 'shadow') {
+      if (!isRecord(value)) return undefined;
+      const shadow = { ...element.shadow };
+      for (const key of ['blur', 'x', 'y'] as const) {
+        if (typeof value[key] === 'number' && Number.isFinite(value[key])) shadow[key] = value[key] as number;
+      }
+      if (typeof value.color === 'string') shadow.color = value.color;
+      return shadow;
+    }
+
+    if (property === 'gradientColors') {
+      if (!Array.isArray(value) || value.length < 2) return undefined;
+      const stops = value.filter(
+        (stop): stop is { color: string; position: number } =>
+          isRecord(stop) && typeof stop.color === 'string' && COLOR_PATTERN.test(stop.color) && typeof stop.position === 'number'
+      );
+      if (stops.length !== value.length) return undefined;
+      return stops.map((stop, index) => ({
+        color: stop.color,
+        position: Math.min(100, Math.max(0, stop.position)),
+        id: `gradient-${element.id}-${index}`,
+      }));
+    }
+
+    const rule = EDITABLE_PROPERTIES[property as keyof DesignElement];
+    if (!rule) return undefined;
+
+    switch (rule.kind) {
+      case 'number': {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+        let result = value;
+        if (rule.min !== undefined) result = Math.max(rule.min, result);
+        if (rule.max !== undefined) result = Math.min(rule.max, result);
+        return result;
+      }
+      case 'color':
+        return typeof value === 'string' && COLOR_PATTERN.test(value.trim()) ? value.trim() : undefined;
+      case 'string':
+        return typeof value === 'string' ? value : undefined;
+      case 'boolean':
+        return typeof value === 'boolean' ? value : undefined;
+      case 'enum':
+        return typeof value === 'string' && rule.values?.includes(value) ? value : undefined;
+    }
+  }
+
+  /**
+   * Before and after values of every changed property, for the preview
+   */
+  static diff(patches: ElementPatch[], elements: DesignElement[]): ElementEditDiff[] {
+    const byId = new Map(elements.map(element => [element.id, element]));
+
+    return patches.flatMap(patch => {
+      const element = byId.get(patch.elementId);
+      if (!element) return [];
+
+      const properties: ElementPropertyDiff[] = Object.entries(patch.changes).map(([property, after]) => ({
+        property,
+        before: element[property as keyof DesignElement],
+        after,
+      }));
+      return [{ elementId: element.id, elementName: element.name, properties }];
+    });
+  }
+
+  // Updates keyed by element id, in the form the canvas applies in one step
+  static toUpdates(patches: ElementPatch[]): Record<string, Partial<DesignElement>> {
+    return Object.fromEntries(patches.map(patch => [patch.elementId, patch.changes]));
+  }
+}
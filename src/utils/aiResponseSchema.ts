@@ -0,0 +1,174 @@
+import Ajv, { ErrorObject, JSONSchemaType } from 'ajv';
+import { HighLevelShape, LowLevelShape, LowLevelShapeSettings } from '../types/aiPipeline';
+
+// Hex, rgb(a), hsl(a) or transparent
+export const COLOR_PATTERN = '^(#[0-9a-fA-F]{3,8}|rgba?\\([^)]+\\)|hsla?\\([^)]+\\)|transparent)$';
+
+const HIGH_LEVEL_TYPES: HighLevelShape['type'][] = ['rectangle', 'circle', 'text', 'line', 'button'];
+
+// AJV-compatible JSON Schema for one element of the high-level breakdown
+export const highLevelShapeSchema: JSONSchemaType<HighLevelShape> = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: HIGH_LEVEL_TYPES },
+    positionX: { type: 'number' },
+    positionY: { type: 'number' },
+    width: { type: 'number', exclusiveMinimum: 0, default: 100 },
+    height: { type: 'number', minimum: 0, default: 100 },
+    content: { type: 'string', nullable: true }
+  },
+  required: ['type', 'positionX', 'positionY', 'width', 'height'],
+  additionalProperties: true
+};
+
+export const highLevelResponseSchema: JSONSchemaType<HighLevelShape[]> = {
+  type: 'array',
+  items: highLevelShapeSchema,
+  minItems: 1
+};
+
+const lowLevelSettingsSchema: JSONSchemaType<LowLevelShapeSettings> = {
+  type: 'object',
+  properties: {
+    style: {
+      type: 'object',
+      properties: {
+        fillColor: { type: 'string', pattern: COLOR_PATTERN },
+        strokeColor: { type: 'string', pattern: COLOR_PATTERN },
+        strokeWidth: { type: 'number', minimum: 0, default: 2 },
+        opacity: { type: 'number', minimum: 0, maximum: 1, default: 1 },
+        borderRadius: { type: 'number', minimum: 0, default: 0 },
+        useGradientFill: { type: 'boolean', nullable: true },
+        gradientType: { type: 'string', enum: ['linear', 'radial'], nullable: true },
+        gradientColors: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              color: { type: 'string', pattern: COLOR_PATTERN },
+              position: { type: 'number', minimum: 0, maximum: 100 }
+            },
+            required: ['color', 'position']
+          },
+          minItems: 2,
+          nullable: true
+        },
+        gradientAngle: { type: 'number', nullable: true }
+      },
+      required: ['fillColor', 'strokeColor', 'strokeWidth', 'opacity', 'borderRadius']
+    },
+    dimensions: {
+      type: 'object',
+      properties: {
+        width: { type: 'number', exclusiveMinimum: 0 },
+        height: { type: 'number', minimum: 0 }
+      },
+      required: ['width', 'height']
+    },
+    scale: {
+      type: 'object',
+      properties: {
+        x: { type: 'number', exclusiveMinimum: 0, default: 1 },
+        y: { type: 'number', exclusiveMinimum: 0, default: 1 },
+        uniform: { type: 'boolean', default: true }
+      },
+      required: ['x', 'y', 'uniform'],
+      default: { x: 1, y: 1, uniform: true }
+    },
+    rotation: {
+      type: 'object',
+      properties: {
+        angle: { type: 'number', default: 0 }
+      },
+      required: ['angle'],
+      default: { angle: 0 }
+    },
+    timing: {
+      type: 'object',
+      properties: {
+        startTime: { type: 'number', minimum: 0 },
+        endTime: { type: 'number', minimum: 0 }
+      },
+      required: ['startTime', 'endTime'],
+      nullable: true
+    },
+    text: {
+      type: 'object',
+      properties: {
+        content: { type: 'string' },
+        fontSize: { type: 'number', exclusiveMinimum: 0, default: 16 },
+        fontWeight: { type: 'string', default: '400' },
+        fontFamily: { type: 'string', default: 'Inter' },
+        textColor: { type: 'string', pattern: COLOR_PATTERN, default: '#FFFFFF' },
+        textAlign: { type: 'string', enum: ['left', 'center', 'right'], default: 'center' },
+        verticalAlign: { type: 'string', enum: ['top', 'middle', 'bottom'], default: 'middle' }
+      },
+      required: ['content', 'fontSize', 'fontWeight', 'fontFamily', 'textColor', 'textAlign', 'verticalAlign'],
+      nullable: true
+    },
+    line: {
+      type: 'object',
+      properties: {
+        lineType: { type: 'string', enum: ['line', 'arrow', 'pen'], default: 'line' },
+        arrowStart: { type: 'boolean', default: false },
+        arrowEnd: { type: 'boolean', default: false },
+        arrowheadType: { type: 'string', enum: ['triangle', 'circle', 'bar', 'diamond'], default: 'triangle' },
+        arrowheadSize: { type: 'number', minimum: 0, default: 12 },
+        lineCap: { type: 'string', enum: ['round', 'butt', 'square'], default: 'round' },
+        lineJoin: { type: 'string', enum: ['round', 'bevel', 'miter'], default: 'round' },
+        dashArray: { type: 'array', items: { type: 'number', minimum: 0 }, default: [] }
+      },
+      required: ['lineType', 'arrowStart', 'arrowEnd', 'arrowheadType', 'arrowheadSize', 'lineCap', 'lineJoin', 'dashArray'],
+      nullable: true
+    }
+  },
+  required: ['style', 'dimensions', 'scale', 'rotation']
+};
+
+// AJV-compatible JSON Schema for the detailed specification of one shape
+export const lowLevelShapeSchema: JSONSchemaType<LowLevelShape> = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', default: '' },
+    version: { type: 'string', default: '1.0' },
+    timestamp: { type: 'string', default: '' },
+    shapeType: { type: 'string', minLength: 1 },
+    settings: lowLevelSettingsSchema
+  },
+  required: ['name', 'version', 'timestamp', 'shapeType', 'settings']
+};
+
+// Missing optional fields are filled from the schema defaults while validating
+const ajv = new Ajv({
+  allErrors: true,
+  verbose: true,
+  strictSchema: false,
+  useDefaults: true
+});
+
+export const validateHighLevelShapeSchema = ajv.compile(highLevelShapeSchema);
+export const validateHighLevelResponseSchema = ajv.compile(highLevelResponseSchema);
+export const validateLowLevelShapeSchema = ajv.compile(lowLevelShapeSchema);
+
+/**
+ * One line per problem as 'path: message (got value)', precise enough to send back to the model
+ * @param basePath prefix for the paths, e.g. '/2' when validating one item of an array
+ */
+export const formatSchemaErrors = (errors: ErrorObject[] | null | undefined, basePath = ''): string[] => {
+  return (errors || []).map(error => {
+    let path = `${basePath}${error.instancePath}`;
+    let message = error.message || 'is invalid';
+
+    if (error.keyword === 'required') {
+      path = `${path}/${error.params.missingProperty}`;
+      message = 'is required';
+    } else if (error.keyword === 'enum') {
+      message = `must be one of ${(error.params.allowedValues as unknown[]).join(', ')}`;
+    } else if (error.keyword === 'pattern' && error.params.pattern === COLOR_PATTERN) {
+      message = 'must be a color such as #3B82F6, rgba(0, 0, 0, 0.5) or transparent';
+    }
+
+    const got = error.keyword === 'required' ? '' : ` (got ${JSON.stringify(error.data)?.slice(0, 40)})`;
+    return `${path || '/'}: ${message}${got}`;
+  });
+};
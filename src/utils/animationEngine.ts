@@ -0,0 +1,345 @@
+import { DesignElement } from '../types/design';
+import { Animation, AnimationKeyframe, AnimationType } from '../types/project';
+import { getEasing, DEFAULT_EASING } from './easing';
+import { applyMotionPaths } from './motionPath';
+
+export interface AnimationEvaluationOptions {
+  defaultEasing?: string;
+}
+
+export type AnimationCollection = Record<string, Animation> | Animation[];
+
+interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+const clampUnit = (value: number) => Math.max(0, Math.min(1, value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const parseColor = (color: string): RGBA | null => {
+  const value = color.trim().toLowerCase();
+
+  if (value === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  const hex = value.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.split('').map(d => d + d).join('');
+    }
+    if (digits.length !== 6 && digits.length !== 8) return null;
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+    };
+  }
+
+  const rgb = value.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgb) {
+    return {
+      r: Number(rgb[1]),
+      g: Number(rgb[2]),
+      b: Number(rgb[3]),
+      a: rgb[4] !== undefined ? Number(rgb[4]) : 1
+    };
+  }
+
+  return null;
+};
+
+export const formatColor = ({ r, g, b, a }: RGBA): string => {
+  const channel = (n: number) => Math.round(Math.max(0, Math.min(255, n)));
+  if (a >= 1) {
+    return `#${[r, g, b].map(n => channel(n).toString(16).padStart(2, '0')).join('')}`;
+  }
+  return `rgba(${channel(r)}, ${channel(g)}, ${channel(b)}, ${Math.round(Math.max(0, a) * 1000) / 1000})`;
+};
+
+/**
+ * Interpolate two keyframe values
+ * Numbers are blended linearly, colors per channel and objects per numeric key;
+ * anything else holds the start value until the segment ends
+ */
+export const interpolateValue = (from: unknown, to: unknown, t: number): unknown => {
+  if (typeof from === 'number' && typeof to === 'number') {
+    return lerp(from, to, t);
+  }
+
+  if (typeof from === 'string' && typeof to === 'string') {
+    const fromColor = parseColor(from);
+    const toColor = parseColor(to);
+    if (fromColor && toColor) {
+      return formatColor({
+        r: lerp(fromColor.r, toColor.r, t),
+        g: lerp(fromColor.g, toColor.g, t),
+        b: lerp(fromColor.b, toColor.b, t),
+        a: lerp(fromColor.a, toColor.a, t)
+      });
+    }
+  }
+
+  if (isRecord(from) && isRecord(to)) {
+    const result: Record<string, unknown> = { ...from };
+    Object.keys(to).forEach(key => {
+      result[key] = key in from ? interpolateValue(from[key], to[key], t) : to[key];
+    });
+    return result;
+  }
+
+  return t >= 1 ? to : from;
+};
+
+export const sortKeyframes = (keyframes: AnimationKeyframe[]): AnimationKeyframe[] =>
+  [...keyframes].sort((a, b) => a.time - b.time);
+
+/**
+ * Length of one animation cycle in seconds
+ * Falls back to the last keyframe time when duration is missing
+ */
+export const getAnimationCycleDuration = (animation: Animation): number => {
+  const lastKeyframeTime = animation.keyframes.reduce((max, kf) => Math.max(max, kf.time), 0);
+  return animation.duration > 0 ? animation.duration : lastKeyframeTime;
+};
+
+const getIterationCount = (animation: Animation): number => {
+  if (animation.loop === true) return Infinity;
+  if (typeof animation.loop === 'number' && animation.loop > 0) return animation.loop;
+  return 1;
+};
+
+/**
+ * Map a global timeline time to a time local to one animation cycle
+ * Applies delay and loop; holds the final state once all iterations finish
+ */
+export const getLocalAnimationTime = (animation: Animation, time: number): number => {
+  const cycle = getAnimationCycleDuration(animation);
+  const local = time - (animation.delay || 0);
+
+  if (local <= 0 || cycle <= 0) return 0;
+
+  const iterations = getIterationCount(animation);
+  if (local >= cycle * iterations) return cycle;
+
+  const cycleTime = local % cycle;
+  // Land exactly on the cycle end rather than wrapping to 0 at iteration boundaries
+  return cycleTime === 0 ? cycle : cycleTime;
+};
+
+/**
+ * Evaluate the raw keyframe value of an animation at a global time
+ */
+export const evaluateAnimationValue = (
+  animation: Animation,
+  time: number,
+  options: AnimationEvaluationOptions = {}
+): unknown => {
+  if (animation.keyframes.length === 0) return undefined;
+
+  const keyframes = sortKeyframes(animation.keyframes);
+  const localTime = getLocalAnimationTime(animation, time);
+
+  if (localTime <= keyframes[0].time) return keyframes[0].value;
+
+  const last = keyframes[keyframes.length - 1];
+  if (localTime >= last.time) return last.value;
+
+  const nextIndex = keyframes.findIndex(kf => kf.time > localTime);
+  const from = keyframes[nextIndex - 1];
+  const to = keyframes[nextIndex];
+  const span = to.time - from.time;
+  const progress = span > 0 ? (localTime - from.time) / span : 1;
+  const easing = getEasing(from.easing, options.defaultEasing || DEFAULT_EASING);
+
+  return interpolateValue(from.value, to.value, easing(progress));
+};
+
+const TRANSFORM_KEYS = ['x', 'y', 'rotation', 'scaleX', 'scaleY'] as const;
+
+/**
+ * Translate an animation value into the DesignElement properties it drives
+ */
+export const animationValueToProperties = (
+  animation: Animation,
+  value: unknown
+): Partial<DesignElement> => {
+  if (value === undefined || value === null) return {};
+
+  switch (animation.type) {
+    case 'opacity':
+      return typeof value === 'number' ? { opacity: clampUnit(value) } : {};
+
+    case 'rotate':
+      return typeof value === 'number' ? { rotation: value } : {};
+
+    case 'scale':
+      if (typeof value === 'number') return { scaleX: value, scaleY: value };
+      if (isRecord(value)) {
+        const updates: Partial<DesignElement> = {};
+        if (typeof value.x === 'number') updates.scaleX = value.x;
+        if (typeof value.y === 'number') updates.scaleY = value.y;
+        return updates;
+      }
+      return {};
+
+    case 'transform': {
+      if (!isRecord(value)) return {};
+      const updates: Partial<DesignElement> = {};
+      TRANSFORM_KEYS.forEach(key => {
+        const component = value[key];
+        if (typeof component === 'number') updates[key] = component;
+      });
+      if (typeof value.scale === 'number') {
+        updates.scaleX = value.scale;
+        updates.scaleY = value.scale;
+      }
+      return updates;
+    }
+
+    case 'color':
+      return typeof value === 'string' ? { [animation.property || 'fill']: value } : {};
+
+    case 'trim': {
+      if (!isRecord(value)) return {};
+      const updates: Partial<DesignElement> = {};
+      if (typeof value.start === 'number') updates.trimStart = clampUnit(value.start);
+      if (typeof value.end === 'number') updates.trimEnd = clampUnit(value.end);
+      return updates;
+    }
+
+    case 'motionPath':
+      return typeof value === 'number' ? { motionProgress: clampUnit(value) } : {};
+
+    default:
+      return {};
+  }
+};
+
+/**
+ * Read the value an animation of the given type would drive from an element
+ * Inverse of animationValueToProperties; used to seed new keyframes
+ */
+export const elementToAnimationValue = (
+  element: DesignElement,
+  type: AnimationType,
+  property: Animation['property'] = 'fill'
+): unknown => {
+  switch (type) {
+    case 'opacity':
+      return element.opacity;
+    case 'rotate':
+      return element.rotation;
+    case 'scale':
+      return { x: element.scaleX ?? 1, y: element.scaleY ?? 1 };
+    case 'transform':
+      return { x: element.x, y: element.y };
+    case 'color':
+      return element[property] || '#000000';
+    case 'trim':
+      return { start: element.trimStart ?? 0, end: element.trimEnd ?? 1 };
+    case 'motionPath':
+      return element.motionProgress ?? 0;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Evaluate an animation at a global time as element property updates
+ */
+export const evaluateAnimation = (
+  animation: Animation,
+  time: number,
+  options: AnimationEvaluationOptions = {}
+): Partial<DesignElement> => {
+  return animationValueToProperties(animation, evaluateAnimationValue(animation, time, options));
+};
+
+const toAnimationList = (animations: AnimationCollection): Animation[] =>
+  Array.isArray(animations) ? animations : Object.values(animations);
+
+/**
+ * Group animations by the element they target, preserving their order
+ */
+export const indexAnimationsByElement = (
+  animations: AnimationCollection
+): Record<string, Animation[]> => {
+  const index: Record<string, Animation[]> = {};
+  toAnimationList(animations).forEach(animation => {
+    if (!index[animation.elementId]) {
+      index[animation.elementId] = [];
+    }
+    index[animation.elementId].push(animation);
+  });
+  return index;
+};
+
+/**
+ * Compute an element's animated state; later animations win on shared properties
+ */
+export const getAnimatedElement = (
+  element: DesignElement,
+  animations: Animation[],
+  time: number,
+  options: AnimationEvaluationOptions = {}
+): DesignElement => {
+  if (animations.length === 0) return element;
+
+  const updates = animations.reduce<Partial<DesignElement>>(
+    (acc, animation) => ({ ...acc, ...evaluateAnimation(animation, time, options) }),
+    {}
+  );
+
+  return Object.keys(updates).length > 0 ? { ...element, ...updates } : element;
+};
+
+/**
+ * Compute the animated state of a whole element tree at a given time, then place motion path followers
+ * Elements without animations are returned by reference so callers can memoize
+ */
+export const applyAnimations = (
+  elements: DesignElement[],
+  animations: AnimationCollection,
+  time: number,
+  options: AnimationEvaluationOptions = {}
+): DesignElement[] => {
+  const byElement = indexAnimationsByElement(animations);
+  if (Object.keys(byElement).length === 0) return applyMotionPaths(elements);
+
+  const applyToList = (list: DesignElement[]): DesignElement[] =>
+    list.map(element => {
+      let animated = getAnimatedElement(element, byElement[element.id] || [], time, options);
+      if (animated.children) {
+        const children = applyToList(animated.children);
+        if (children.some((child, i) => child !== animated.children![i])) {
+          animated = { ...animated, children };
+        }
+      }
+      return animated;
+    });
+
+  return applyMotionPaths(applyToList(elements));
+};
+
+/**
+ * Time at which every finite animation has finished, in seconds
+ * Infinitely looping animations contribute a single cycle
+ */
+export const getAnimationsEndTime = (animations: AnimationCollection): number => {
+  return toAnimationList(animations).reduce((max, animation) => {
+    const iterations = getIterationCount(animation);
+    const cycle = getAnimationCycleDuration(animation);
+    const end = (animation.delay || 0) + cycle * (Number.isFinite(iterations) ? iterations : 1);
+    return Math.max(max, end);
+  }, 0);
+};
@@ -0,0 +1,147 @@
+import { DesignElement } from '../types/design';
+import { TimelineClip, TimelineClips } from '../types/timeline';
+
+// Clips shorter than one frame at 120fps are not worth keeping after a split or trim
+export const MIN_CLIP_DURATION = 1 / 120;
+
+export const getDefaultClipId = (elementId: string) => `clip-${elementId}`;
+
+/**
+ * The implicit clip of a layer that has no stored clips: visible for the whole timeline
+ */
+export const createDefaultClip = (elementId: string, duration: number): TimelineClip => ({
+  id: getDefaultClipId(elementId),
+  elementId,
+  start: 0,
+  duration,
+  locked: false,
+  muted: false
+});
+
+export const getElementClips = (clips: TimelineClips, elementId: string): TimelineClip[] => {
+  return Object.values(clips)
+    .filter(clip => clip.elementId === elementId)
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Clips of a layer as shown on its track, falling back to the implicit full-length clip
+ */
+export const getTrackClips = (clips: TimelineClips, elementId: string, duration: number): TimelineClip[] => {
+  const stored = getElementClips(clips, elementId);
+  return stored.length > 0 ? stored : [createDefaultClip(elementId, duration)];
+};
+
+/**
+ * Time at which the last stored clip ends, in seconds
+ */
+export const getClipsEndTime = (clips: TimelineClips): number => {
+  return Object.values(clips).reduce((max, clip) => Math.max(max, clip.start + clip.duration), 0);
+};
+
+/**
+ * Whether a layer is visible at a time; layers without clips are always active
+ * Clips end exclusively, except one that reaches timelineEnd so the final frame still shows it
+ */
+export const isElementActiveAt = (
+  clips: TimelineClips,
+  elementId: string,
+  time: number,
+  timelineEnd = Infinity
+): boolean => {
+  const elementClips = getElementClips(clips, elementId);
+  if (elementClips.length === 0) return true;
+  return elementClips.some(clip => {
+    const end = clip.start + clip.duration;
+    return !clip.muted && time >= clip.start && (time < end || (end >= timelineEnd && time <= end));
+  });
+};
+
+/**
+ * Hide every element (and group child) whose clips do not cover the given time
+ */
+export const applyClipVisibility = (
+  elements: DesignElement[],
+  clips: TimelineClips,
+  time: number,
+  timelineEnd = Infinity
+): DesignElement[] => {
+  if (Object.keys(clips).length === 0) return elements;
+
+  return elements.map(element => {
+    if (!isElementActiveAt(clips, element.id, time, timelineEnd)) {
+      return element.visible ? { ...element, visible: false } : element;
+    }
+    if (element.children) {
+      const children = applyClipVisibility(element.children, clips, time, timelineEnd);
+      return children.some((child, i) => child !== element.children![i]) ? { ...element, children } : element;
+    }
+    return element;
+  });
+};
+
+export const putClip = (clips: TimelineClips, clip: TimelineClip): TimelineClips => ({
+  ...clips,
+  [clip.id]: clip
+});
+
+/**
+ * Move a clip to a new start time, never before 0
+ */
+export const moveClip = (clips: TimelineClips, clip: TimelineClip, start: number): TimelineClips => {
+  if (clip.locked) return clips;
+  return putClip(clips, { ...clip, start: Math.max(0, start) });
+};
+
+/**
+ * Trim a clip's in or out point; the opposite edge stays where it is
+ */
+export const trimClip = (
+  clips: TimelineClips,
+  clip: TimelineClip,
+  edge: 'start' | 'end',
+  time: number
+): TimelineClips => {
+  if (clip.locked) return clips;
+  const end = clip.start + clip.duration;
+
+  if (edge === 'start') {
+    const start = Math.max(0, Math.min(time, end - MIN_CLIP_DURATION));
+    return putClip(clips, { ...clip, start, duration: end - start });
+  }
+
+  const newEnd = Math.max(time, clip.start + MIN_CLIP_DURATION);
+  return putClip(clips, { ...clip, duration: newEnd - clip.start });
+};
+
+/**
+ * Split a clip in two at a time inside it; returns the clips unchanged otherwise
+ */
+export const splitClip = (clips: TimelineClips, clip: TimelineClip, time: number): TimelineClips => {
+  if (clip.locked) return clips;
+  const end = clip.start + clip.duration;
+  if (time - clip.start < MIN_CLIP_DURATION || end - time < MIN_CLIP_DURATION) return clips;
+
+  const second: TimelineClip = {
+    ...clip,
+    id: `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    start: time,
+    duration: end - time
+  };
+
+  return putClip(putClip(clips, { ...clip, duration: time - clip.start }), second);
+};
+
+export const removeClip = (clips: TimelineClips, clipId: string): TimelineClips => {
+  const next = { ...clips };
+  delete next[clipId];
+  return next;
+};
+
+/**
+ * Drop clips whose layer no longer exists
+ */
+export const pruneClips = (clips: TimelineClips, elementIds: string[]): TimelineClips => {
+  const ids = new Set(elementIds);
+  return Object.fromEntries(Object.entries(clips).filter(([, clip]) => ids.has(clip.elementId)));
+};
@@ -0,0 +1,42 @@
+export type SettledTask<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; reason: unknown }
+  | { status: 'skipped' }; // never started because the signal aborted first
+
+export interface ConcurrencyOptions<R> {
+  signal?: AbortSignal;
+  onStart?: (index: number) => void;
+  onSettled?: (index: number, result: SettledTask<R>) => void;
+}
+
+/**
+ * Run worker over every item with at most `limit` calls in flight. A failing item does not stop
+ * the others; once the signal aborts, no new items start and the running ones are awaited.
+ * Results keep the order of items.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  options: ConcurrencyOptions<R> = {}
+): Promise<SettledTask<R>[]> => {
+  const results: SettledTask<R>[] = items.map(() => ({ status: 'skipped' }));
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length && !options.signal?.aborted) {
+      const index = next++;
+      options.onStart?.(index);
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+      options.onSettled?.(index, results[index]);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+};
@@ -0,0 +1,142 @@
+export type EasingFunction = (t: number) => number;
+
+const clamp01 = (t: number) => Math.max(0, Math.min(1, t));
+
+/**
+ * Build a CSS-style cubic-bezier timing function (x1, y1, x2, y2)
+ * Solves the curve parameter for x with Newton steps and a bisection fallback
+ */
+export const cubicBezier = (x1: number, y1: number, x2: number, y2: number): EasingFunction => {
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const sampleDerivativeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  const solveX = (x: number) => {
+    let s = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(s) - x;
+      if (Math.abs(error) < 1e-6) return s;
+      const derivative = sampleDerivativeX(s);
+      if (Math.abs(derivative) < 1e-6) break;
+      s -= error / derivative;
+    }
+
+    let low = 0;
+    let high = 1;
+    s = x;
+    while (low < high) {
+      const value = sampleX(s);
+      if (Math.abs(value - x) < 1e-6) return s;
+      if (x > value) low = s;
+      else high = s;
+      if (high - low < 1e-7) break;
+      s = (low + high) / 2;
+    }
+    return s;
+  };
+
+  return (t: number) => {
+    const x = clamp01(t);
+    if (x === 0 || x === 1) return x;
+    return sampleY(solveX(x));
+  };
+};
+
+const BACK_OVERSHOOT = 1.70158;
+
+const bounceOut: EasingFunction = (t) => {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+  if (t < 1 / d1) return n1 * t * t;
+  if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+  if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+  return n1 * (t -= 2.625 / d1) * t + 0.984375;
+};
+
+// Canonical easing names, in the camelCase form used by ProjectFile.settings.defaultEasing
+export const EASINGS: Record<string, EasingFunction> = {
+  linear: (t) => t,
+  step: (t) => (t < 1 ? 0 : 1),
+  ease: cubicBezier(0.25, 0.1, 0.25, 1),
+  easeIn: cubicBezier(0.42, 0, 1, 1),
+  easeOut: cubicBezier(0, 0, 0.58, 1),
+  easeInOut: cubicBezier(0.42, 0, 0.58, 1),
+  easeInQuad: (t) => t * t,
+  easeOutQuad: (t) => 1 - (1 - t) * (1 - t),
+  easeInOutQuad: (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInCubic: (t) => t * t * t,
+  easeOutCubic: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeInQuart: (t) => t * t * t * t,
+  easeOutQuart: (t) => 1 - Math.pow(1 - t, 4),
+  easeInOutQuart: (t) => (t < 0.5 ? 8 * t * t * t * t : 1 - Math.pow(-2 * t + 2, 4) / 2),
+  easeInSine: (t) => 1 - Math.cos((t * Math.PI) / 2),
+  easeOutSine: (t) => Math.sin((t * Math.PI) / 2),
+  easeInOutSine: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeInExpo: (t) => (t === 0 ? 0 : Math.pow(2, 10 * t - 10)),
+  easeOutExpo: (t) => (t === 1 ? 1 : 1 - Math.pow(2, -10 * t)),
+  easeInOutExpo: (t) => {
+    if (t === 0 || t === 1) return t;
+    return t < 0.5 ? Math.pow(2, 20 * t - 10) / 2 : (2 - Math.pow(2, -20 * t + 10)) / 2;
+  },
+  easeInBack: (t) => (BACK_OVERSHOOT + 1) * t * t * t - BACK_OVERSHOOT * t * t,
+  easeOutBack: (t) => 1 + (BACK_OVERSHOOT + 1) * Math.pow(t - 1, 3) + BACK_OVERSHOOT * Math.pow(t - 1, 2),
+  easeInOutBack: (t) => {
+    const c2 = BACK_OVERSHOOT * 1.525;
+    return t < 0.5
+      ? (Math.pow(2 * t, 2) * ((c2 + 1) * 2 * t - c2)) / 2
+      : (Math.pow(2 * t - 2, 2) * ((c2 + 1) * (t * 2 - 2) + c2) + 2) / 2;
+  },
+  easeInElastic: (t) => {
+    if (t === 0 || t === 1) return t;
+    return -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * ((2 * Math.PI) / 3));
+  },
+  easeOutElastic: (t) => {
+    if (t === 0 || t === 1) return t;
+    return Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1;
+  },
+  easeInBounce: (t) => 1 - bounceOut(1 - t),
+  easeOutBounce: bounceOut,
+  easeInOutBounce: (t) => (t < 0.5 ? (1 - bounceOut(1 - 2 * t)) / 2 : (1 + bounceOut(2 * t - 1)) / 2)
+};
+
+export const EASING_NAMES = Object.keys(EASINGS);
+
+export const DEFAULT_EASING = 'easeInOut';
+
+// Lookup table that accepts both 'easeInOutCubic' and CSS-style 'ease-in-out-cubic' spellings
+const normalizedEasings: Record<string, EasingFunction> = Object.fromEntries(
+  Object.entries(EASINGS).map(([name, fn]) => [name.toLowerCase(), fn])
+);
+
+const CUBIC_BEZIER_PATTERN = /^cubic-bezier\(\s*([-\d.]+)\s*,\s*([-\d.]+)\s*,\s*([-\d.]+)\s*,\s*([-\d.]+)\s*\)$/i;
+
+/**
+ * Resolve an easing name to its timing function
+ * Unknown names fall back to the provided default, then to linear
+ */
+export const getEasing = (name?: string, fallback: string = DEFAULT_EASING): EasingFunction => {
+  if (name) {
+    const bezier = name.trim().match(CUBIC_BEZIER_PATTERN);
+    if (bezier) {
+      const [x1, y1, x2, y2] = bezier.slice(1).map(Number);
+      return cubicBezier(clamp01(x1), y1, clamp01(x2), y2);
+    }
+
+    const key = name.replace(/[-_\s]/g, '').toLowerCase();
+    if (normalizedEasings[key]) return normalizedEasings[key];
+  }
+
+  if (fallback && fallback !== name) {
+    return getEasing(fallback, '');
+  }
+
+  return EASINGS.linear;
+};
@@ -1,8 +1,82 @@
 import { DesignElement } from '../types/design';
 
+// Children of a group are stored in its local space: the group moves them to (x, y), then rotates
+// and scales them around its center, the same transform a single element gets on the canvas.
+
+type Point = { x: number; y: number };
+
+/**
+ * Point in the group's parent space for a point in the group's local space
+ */
+export const toParentPoint = (group: DesignElement, point: Point): Point => {
+  const angle = (group.rotation * Math.PI) / 180;
+  const dx = (point.x - group.width / 2) * (group.scaleX ?? 1);
+  const dy = (point.y - group.height / 2) * (group.scaleY ?? 1);
+  return {
+    x: group.x + group.width / 2 + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: group.y + group.height / 2 + dx * Math.sin(angle) + dy * Math.cos(angle)
+  };
+};
+
+/**
+ * Point in the group's local space for a point in its parent space
+ */
+export const toLocalPoint = (group: DesignElement, point: Point): Point => {
+  const angle = (-group.rotation * Math.PI) / 180;
+  const dx = point.x - group.x - group.width / 2;
+  const dy = point.y - group.y - group.height / 2;
+  return {
+    x: group.width / 2 + (dx * Math.cos(angle) - dy * Math.sin(angle)) / (group.scaleX || 1),
+    y: group.height / 2 + (dx * Math.sin(angle) + dy * Math.cos(angle)) / (group.scaleY || 1)
+  };
+};
+
+/**
+ * A movement on the canvas expressed in the local space inside the given groups, outermost first
+ */
+export const toLocalDelta = (ancestors: DesignElement[], dx: number, dy: number): Point =>
+  ancestors.reduce((delta, group) => {
+    const angle = (-group.rotation * Math.PI) / 180;
+    return {
+      x: (delta.x * Math.cos(angle) - delta.y * Math.sin(angle)) / (group.scaleX || 1),
+      y: (delta.x * Math.sin(angle) + delta.y * Math.cos(angle)) / (group.scaleY || 1)
+    };
+  }, { x: dx, y: dy });
+
+/**
+ * Groups containing the element, outermost first; empty for top-level or unknown elements
+ */
+export const getAncestors = (elements: DesignElement[], elementId: string): DesignElement[] => {
+  const path: DesignElement[] = [];
+
+  const visit = (list: DesignElement[]): boolean => {
+    for (const element of list) {
+      if (element.id === elementId) return true;
+      if (element.children) {
+        path.push(element);
+        if (visit(element.children)) return true;
+        path.pop();
+      }
+    }
+    return false;
+  };
+
+  return visit(elements) ? path : [];
+};
+
+// Replaces the list the parent holds its children in, or the top-level list without a parent
+const replaceSiblings = (
+  elements: DesignElement[],
+  parent: DesignElement | null,
+  siblings: DesignElement[]
+): DesignElement[] => (parent ? updateElementInGroup(elements, parent.id, { children: siblings }) : siblings);
+
 export const createGroup = (elements: DesignElement[], selectedIds: string[]): DesignElement[] => {
-  const selectedElements = elements.filter(el => selectedIds.includes(el.id));
-  
+  // Only siblings can be grouped; the group takes the place of the topmost one
+  const parent = findParentGroup(elements, selectedIds[0]);
+  const siblings = parent?.children || elements;
+  const selectedElements = siblings.filter(el => selectedIds.includes(el.id));
+
   if (selectedElements.length < 2) return elements;
 
   // Calculate group bounds
@@ -12,7 +86,7 @@ export const createGroup = (elements: DesignElement[], selectedIds: string[]): D
   const maxY = Math.max(...selectedElements.map(el => el.y + el.height));
 
   const groupId = `group-${Date.now()}`;
-  
+
   // Create group element
   const group: DesignElement = {
     id: groupId,
@@ -36,44 +110,144 @@ export const createGroup = (elements: DesignElement[], selectedIds: string[]): D
       x: el.x - minX,
       y: el.y - minY,
       parentId: groupId
-    }))
+    })),
+    ...(parent ? { parentId: parent.id } : {})
+  };
+
+  const topIndex = Math.max(...selectedElements.map(el => siblings.indexOf(el)));
+  const grouped = siblings.flatMap((el, index) => {
+    if (index === topIndex) return [group];
+    return selectedIds.includes(el.id) ? [] : [el];
+  });
+  return replaceSiblings(elements, parent, grouped);
+};
+
+/**
+ * A child moved out of its group, with the group's transform, opacity and visibility applied to it.
+ * Rotation inside a non-uniformly scaled group cannot be expressed exactly and is approximated.
+ */
+const bakeGroupTransform = (group: DesignElement, child: DesignElement, parentId?: string): DesignElement => {
+  const common = {
+    opacity: child.opacity * group.opacity,
+    visible: child.visible && group.visible,
+    parentId
   };
 
-  // Remove selected elements and add group
-  const remainingElements = elements.filter(el => !selectedIds.includes(el.id));
-  return [...remainingElements, group];
+  // Lines are drawn from their points, so the points themselves are transformed
+  if (child.type === 'line' && child.points) {
+    const toParent = <P extends Point>(point: P): P => ({
+      ...point,
+      ...toParentPoint(group, { x: child.x + point.x, y: child.y + point.y })
+    });
+    // Handles are offsets, so they turn and scale with the group but do not move with it
+    const toParentHandle = (point: Point, handle?: Point) => {
+      if (!handle) return handle;
+      const anchor = toParent(point);
+      const control = toParent({ x: point.x + handle.x, y: point.y + handle.y });
+      return { x: control.x - anchor.x, y: control.y - anchor.y };
+    };
+    const points = child.points.map(point => ({
+      ...toParent(point),
+      ...(point.handleIn ? { handleIn: toParentHandle(point, point.handleIn) } : {}),
+      ...(point.handleOut ? { handleOut: toParentHandle(point, point.handleOut) } : {})
+    }));
+    const subpaths = child.subpaths?.map(contour => contour.map(toParent));
+    const all = [...points, ...(subpaths || []).flat()];
+    const minX = Math.min(...all.map(p => p.x));
+    const minY = Math.min(...all.map(p => p.y));
+    const toOrigin = <P extends Point>(point: P): P => ({ ...point, x: point.x - minX, y: point.y - minY });
+    return {
+      ...child,
+      ...common,
+      x: minX,
+      y: minY,
+      width: Math.max(1, Math.max(...all.map(p => p.x)) - minX),
+      height: Math.max(1, Math.max(...all.map(p => p.y)) - minY),
+      points: points.map(toOrigin),
+      ...(subpaths ? { subpaths: subpaths.map(contour => contour.map(toOrigin)) } : {})
+    };
+  }
+
+  const center = toParentPoint(group, { x: child.x + child.width / 2, y: child.y + child.height / 2 });
+  const scaleX = (child.scaleX ?? 1) * (group.scaleX ?? 1);
+  const scaleY = (child.scaleY ?? 1) * (group.scaleY ?? 1);
+  return {
+    ...child,
+    ...common,
+    x: center.x - child.width / 2,
+    y: center.y - child.height / 2,
+    rotation: child.rotation + group.rotation,
+    ...(scaleX !== 1 || child.scaleX !== undefined ? { scaleX } : {}),
+    ...(scaleY !== 1 || child.scaleY !== undefined ? { scaleY } : {})
+  };
 };
 
 export const ungroupElements = (elements: DesignElement[], groupId: string): DesignElement[] => {
-  const group = elements.find(el => el.id === groupId && el.type === 'group');
-  
+  const group = getAllElementsFlat(elements).find(el => el.id === groupId && el.type === 'group');
+
   if (!group || !group.children) return elements;
 
-  // Convert children back to absolute positions
-  const ungroupedChildren = group.children.map(child => ({
-    ...child,
-    x: child.x + group.x,
-    y: child.y + group.y,
-    parentId: undefined
-  }));
-
-  // Remove group and add children
-  const remainingElements = elements.filter(el => el.id !== groupId);
-  return [...remainingElements, ...ungroupedChildren];
+  // Children take the group's place in the stacking order, positioned where they appeared
+  const parent = findParentGroup(elements, groupId);
+  const ungroupedChildren = group.children.map(child => bakeGroupTransform(group, child, parent?.id));
+
+  const siblings = (parent?.children || elements).flatMap(el => (el.id === groupId ? ungroupedChildren : [el]));
+  return replaceSiblings(elements, parent, siblings);
+};
+
+// Resizes closer to uniform than this also scale stroke widths
+const UNIFORM_SCALE_EPSILON = 1e-3;
+
+/**
+ * Scale an element and its subtree into a resized group.
+ * Text scales by the smaller factor so it still fits its box; strokes only scale when the resize is uniform.
+ */
+const scaleElement = (element: DesignElement, scaleX: number, scaleY: number): DesignElement => ({
+  ...element,
+  x: element.x * scaleX,
+  y: element.y * scaleY,
+  width: element.width * scaleX,
+  height: element.height * scaleY,
+  ...(element.fontSize !== undefined ? { fontSize: element.fontSize * Math.min(scaleX, scaleY) } : {}),
+  ...(Math.abs(scaleX - scaleY) < UNIFORM_SCALE_EPSILON ? { strokeWidth: element.strokeWidth * scaleX } : {}),
+  ...(element.points ? { points: element.points.map(p => ({
+    ...p,
+    x: p.x * scaleX,
+    y: p.y * scaleY,
+    ...(p.handleIn ? { handleIn: { x: p.handleIn.x * scaleX, y: p.handleIn.y * scaleY } } : {}),
+    ...(p.handleOut ? { handleOut: { x: p.handleOut.x * scaleX, y: p.handleOut.y * scaleY } } : {})
+  })) } : {}),
+  ...(element.subpaths
+    ? { subpaths: element.subpaths.map(contour => contour.map(p => ({ x: p.x * scaleX, y: p.y * scaleY }))) }
+    : {}),
+  ...(element.children ? { children: element.children.map(child => scaleElement(child, scaleX, scaleY)) } : {})
+});
+
+/**
+ * Updates that resize a group and scale its whole subtree to the new size
+ */
+export const resizeGroup = (
+  group: DesignElement,
+  bounds: { x: number; y: number; width: number; height: number }
+): Partial<DesignElement> => {
+  const scaleX = group.width > 0 ? bounds.width / group.width : 1;
+  const scaleY = group.height > 0 ? bounds.height / group.height : 1;
+  return {
+    ...bounds,
+    children: (group.children || []).map(child => scaleElement(child, scaleX, scaleY))
+  };
 };
 
 export const getAllElementsFlat = (elements: DesignElement[]): DesignElement[] => {
   const result: DesignElement[] = [];
-  
+
   elements.forEach(element => {
-    if (element.type === 'group' && element.children) {
-      result.push(element);
+    result.push(element);
+    if (element.children) {
       result.push(...getAllElementsFlat(element.children));
-    } else {
-      result.push(element);
     }
   });
-  
+
   return result;
 };
 
@@ -87,35 +261,33 @@ export const updateElementInGroup = (
       return { ...element, ...updates };
     }
 
-    if (element.type === 'group' && element.children) {
-      return {
-        ...element,
-        children: updateElementInGroup(element.children, elementId, updates)
-      };
+    if (element.children) {
+      const children = updateElementInGroup(element.children, elementId, updates);
+      return children.some((child, i) => child !== element.children![i]) ? { ...element, children } : element;
     }
 
     return element;
   });
 };
 
+/**
+ * Remove elements wherever they are in the tree; removing a group removes its subtree
+ */
+export const removeElements = (elements: DesignElement[], elementIds: string[]): DesignElement[] =>
+  elements
+    .filter(element => !elementIds.includes(element.id))
+    .map(element => {
+      if (!element.children) return element;
+      const children = removeElements(element.children, elementIds);
+      return children.length !== element.children.length || children.some((child, i) => child !== element.children![i])
+        ? { ...element, children }
+        : element;
+    });
+
 export const findParentGroup = (
   elements: DesignElement[],
   childId: string
 ): DesignElement | null => {
-  for (const element of elements) {
-    if (element.type === 'group' && element.children) {
-      // Check if this child is directly in this group
-      const hasChild = element.children.some(child => child.id === childId);
-      if (hasChild) {
-        return element;
-      }
-
-      // Check nested groups
-      const parentInChildren = findParentGroup(element.children, childId);
-      if (parentInChildren) {
-        return parentInChildren;
-      }
-    }
-  }
-  return null;
-};
\ No newline at end of file
+  const ancestors = getAncestors(elements, childId);
+  return ancestors.length > 0 ? ancestors[ancestors.length - 1] : null;
+};
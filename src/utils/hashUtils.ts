@@ -33,22 +33,29 @@ export function sanitizeFilename(filename: string): string {
   return filename.replace(/[^a-z0-9._-]/gi, '_').toLowerCase();
 }
 
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'font/woff': 'woff',
+  'font/woff2': 'woff2',
+};
+
 export function getFileExtension(mimeType: string): string {
-  const extensions: Record<string, string> = {
-    'image/png': 'png',
-    'image/jpeg': 'jpg',
-    'image/jpg': 'jpg',
-    'image/gif': 'gif',
-    'image/webp': 'webp',
-    'image/svg+xml': 'svg',
-    'video/mp4': 'mp4',
-    'video/webm': 'webm',
-    'font/ttf': 'ttf',
-    'font/otf': 'otf',
-    'font/woff': 'woff',
-    'font/woff2': 'woff2',
-  };
-  return extensions[mimeType] || 'bin';
+  return MIME_EXTENSIONS[mimeType] || 'bin';
+}
+
+export function getMimeTypeFromFilename(filename: string): string {
+  const extension = filename.slice(filename.lastIndexOf('.') + 1).toLowerCase();
+  const match = Object.entries(MIME_EXTENSIONS).find(([, ext]) => ext === extension);
+  return match ? match[0] : 'application/octet-stream';
 }
 
 export function getMimeTypeFromBase64(base64: string): string | null {
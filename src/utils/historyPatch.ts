@@ -0,0 +1,290 @@
+import { DesignElement } from '../types/design';
+
+type ElementKey = keyof DesignElement;
+
+export interface PropertyChange {
+  before: unknown;
+  after: unknown;
+}
+
+// One reversible step; parentId is null for the root element list
+export type HistoryOp =
+  | { type: 'add'; parentId: string | null; element: DesignElement }
+  | { type: 'remove'; parentId: string | null; element: DesignElement }
+  | { type: 'update'; id: string; changes: Partial<Record<ElementKey, PropertyChange>> }
+  | { type: 'order'; parentId: string | null; before: string[]; after: string[] };
+
+export interface HistoryPatch {
+  ops: HistoryOp[];
+  selection: { before: string[]; after: string[] };
+}
+
+export type PatchDirection = 'forward' | 'backward';
+
+const isEqualValue = (a: unknown, b: unknown) => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const diffProperties = (before: DesignElement, after: DesignElement) => {
+  const changes: Partial<Record<ElementKey, PropertyChange>> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as ElementKey[]);
+
+  keys.forEach(key => {
+    if (key === 'children') return;
+    if (!isEqualValue(before[key], after[key])) {
+      changes[key] = { before: before[key], after: after[key] };
+    }
+  });
+
+  return changes;
+};
+
+const diffChildren = (
+  parentId: string | null,
+  before: DesignElement[],
+  after: DesignElement[],
+  ops: HistoryOp[]
+) => {
+  if (before === after) return;
+
+  const beforeById = new Map(before.map(el => [el.id, el]));
+  const afterById = new Map(after.map(el => [el.id, el]));
+
+  before.forEach(el => {
+    if (!afterById.has(el.id)) ops.push({ type: 'remove', parentId, element: el });
+  });
+  after.forEach(el => {
+    if (!beforeById.has(el.id)) ops.push({ type: 'add', parentId, element: el });
+  });
+
+  const beforeIds = before.map(el => el.id);
+  const afterIds = after.map(el => el.id);
+  if (beforeIds.join('\n') !== afterIds.join('\n')) {
+    ops.push({ type: 'order', parentId, before: beforeIds, after: afterIds });
+  }
+
+  after.forEach(next => {
+    const previous = beforeById.get(next.id);
+    if (!previous || previous === next) return;
+
+    const changes = diffProperties(previous, next);
+    if (Object.keys(changes).length > 0) {
+      ops.push({ type: 'update', id: next.id, changes });
+    }
+    diffChildren(next.id, previous.children || [], next.children || [], ops);
+  });
+};
+
+/**
+ * Operations that turn one element tree into another
+ * Unchanged subtrees are skipped by reference, so only edited properties are stored
+ */
+export const diffElements = (before: DesignElement[], after: DesignElement[]): HistoryOp[] => {
+  const ops: HistoryOp[] = [];
+  diffChildren(null, before, after, ops);
+  return ops;
+};
+
+const invertOp = (op: HistoryOp): HistoryOp => {
+  switch (op.type) {
+    case 'add':
+      return { ...op, type: 'remove' };
+    case 'remove':
+      return { ...op, type: 'add' };
+    case 'order':
+      return { ...op, before: op.after, after: op.before };
+    case 'update': {
+      const changes: Partial<Record<ElementKey, PropertyChange>> = {};
+      (Object.keys(op.changes) as ElementKey[]).forEach(key => {
+        const change = op.changes[key]!;
+        changes[key] = { before: change.after, after: change.before };
+      });
+      return { ...op, changes };
+    }
+  }
+};
+
+// Rebuild only the containers and elements on the path to the edited ones
+const mapContainer = (
+  elements: DesignElement[],
+  parentId: string | null,
+  update: (children: DesignElement[]) => DesignElement[]
+): DesignElement[] => {
+  if (parentId === null) return update(elements);
+
+  let found = false;
+  const next = elements.map(el => {
+    if (found) return el;
+    if (el.id === parentId) {
+      found = true;
+      return { ...el, children: update(el.children || []) };
+    }
+    if (!el.children) return el;
+    const children = mapContainer(el.children, parentId, update);
+    if (children === el.children) return el;
+    found = true;
+    return { ...el, children };
+  });
+
+  return found ? next : elements;
+};
+
+const mapElement = (
+  elements: DesignElement[],
+  id: string,
+  update: (element: DesignElement) => DesignElement
+): DesignElement[] => {
+  let found = false;
+  const next = elements.map(el => {
+    if (found) return el;
+    if (el.id === id) {
+      found = true;
+      return update(el);
+    }
+    if (!el.children) return el;
+    const children = mapElement(el.children, id, update);
+    if (children === el.children) return el;
+    found = true;
+    return { ...el, children };
+  });
+
+  return found ? next : elements;
+};
+
+const applyOp = (elements: DesignElement[], op: HistoryOp): DesignElement[] => {
+  switch (op.type) {
+    case 'remove':
+      return mapContainer(elements, op.parentId, children => children.filter(el => el.id !== op.element.id));
+    case 'add':
+      return mapContainer(elements, op.parentId, children => [...children, op.element]);
+    case 'order':
+      return mapContainer(elements, op.parentId, children => {
+        const rank = new Map(op.after.map((id, index) => [id, index]));
+        return [...children].sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity));
+      });
+    case 'update':
+      return mapElement(elements, op.id, element => {
+        const next = { ...element } as Record<string, unknown>;
+        Object.entries(op.changes).forEach(([key, change]) => {
+          if (change!.after === undefined) {
+            delete next[key];
+          } else {
+            next[key] = change!.after;
+          }
+        });
+        return next as unknown as DesignElement;
+      });
+  }
+};
+
+// Removes before adds so moved elements never appear twice, then ordering, then properties
+const OP_PRIORITY: Record<HistoryOp['type'], number> = { remove: 0, add: 1, order: 2, update: 3 };
+
+/**
+ * Apply a patch to an element tree, or revert it with direction 'backward'
+ */
+export const applyPatch = (
+  elements: DesignElement[],
+  ops: HistoryOp[],
+  direction: PatchDirection = 'forward'
+): DesignElement[] => {
+  const steps = direction === 'forward' ? ops : ops.map(invertOp);
+  const sorted = steps
+    .map((op, index) => ({ op, index }))
+    .sort((a, b) => OP_PRIORITY[a.op.type] - OP_PRIORITY[b.op.type] || a.index - b.index);
+
+  return sorted.reduce((result, { op }) => applyOp(result, op), elements);
+};
+
+const findElement = (elements: DesignElement[], id: string): DesignElement | undefined => {
+  for (const el of elements) {
+    if (el.id === id) return el;
+    const child = el.children && findElement(el.children, id);
+    if (child) return child;
+  }
+  return undefined;
+};
+
+const describeTargets = (names: string[]) =>
+  names.length === 1 ? names[0] : `${names.length} elements`;
+
+const MOVE_KEYS = new Set<string>(['x', 'y']);
+const RESIZE_KEYS = new Set<string>(['x', 'y', 'width', 'height']);
+
+/**
+ * Human-readable name for a patch, e.g. "Move Rectangle" or "Delete 3 elements"
+ * Element names are looked up in the tree the patch produced
+ */
+export const describePatch = (ops: HistoryOp[], elements: DesignElement[]): string => {
+  const adds = ops.filter((op): op is Extract<HistoryOp, { type: 'add' }> => op.type === 'add');
+  const removes = ops.filter((op): op is Extract<HistoryOp, { type: 'remove' }> => op.type === 'remove');
+  const updates = ops.filter((op): op is Extract<HistoryOp, { type: 'update' }> => op.type === 'update');
+
+  if (adds.length > 0 && removes.length === 0 && updates.length === 0) {
+    return `Add ${describeTargets(adds.map(op => op.element.name))}`;
+  }
+  if (removes.length > 0 && adds.length === 0 && updates.length === 0) {
+    return `Delete ${describeTargets(removes.map(op => op.element.name))}`;
+  }
+  if (updates.length > 0 && adds.length === 0 && removes.length === 0) {
+    const keys = new Set(updates.flatMap(op => Object.keys(op.changes)));
+    const names = updates.map(op => findElement(elements, op.id)?.name || 'Element');
+    const target = describeTargets(names);
+    const every = (allowed: Set<string>) => [...keys].every(key => allowed.has(key));
+
+    if (every(MOVE_KEYS)) return `Move ${target}`;
+    if (every(RESIZE_KEYS)) return `Resize ${target}`;
+    if (keys.size === 1 && keys.has('rotation')) return `Rotate ${target}`;
+    if (keys.size === 1 && keys.has('name')) return `Rename ${target}`;
+    return `Edit ${target}`;
+  }
+  if (ops.length > 0 && ops.every(op => op.type === 'order')) {
+    return 'Reorder Layers';
+  }
+  return 'Edit Canvas';
+};
+
+const getUpdateSignature = (ops: HistoryOp[]) => {
+  if (ops.length === 0 || ops.some(op => op.type !== 'update')) return null;
+  const keys = new Set(ops.flatMap(op => (op.type === 'update' ? Object.keys(op.changes) : [])));
+  return [...keys].sort().join(',');
+};
+
+/**
+ * Whether a newer patch continues the same gesture as an older one:
+ * both only change the same set of properties, like the x/y of a drag
+ */
+export const canMergePatches = (older: HistoryOp[], newer: HistoryOp[]) => {
+  const signature = getUpdateSignature(older);
+  return signature !== null && signature === getUpdateSignature(newer);
+};
+
+/**
+ * Collapse two consecutive update-only patches into one,
+ * keeping the oldest before value and the newest after value per property
+ */
+export const mergePatches = (older: HistoryOp[], newer: HistoryOp[]): HistoryOp[] => {
+  const merged = new Map<string, Partial<Record<ElementKey, PropertyChange>>>();
+
+  [...older, ...newer].forEach(op => {
+    if (op.type !== 'update') return;
+    const changes = { ...(merged.get(op.id) || {}) };
+    (Object.keys(op.changes) as ElementKey[]).forEach(key => {
+      const change = op.changes[key]!;
+      changes[key] = { before: changes[key] ? changes[key]!.before : change.before, after: change.after };
+    });
+    merged.set(op.id, changes);
+  });
+
+  const ops: HistoryOp[] = [];
+  merged.forEach((changes, id) => {
+    const effective: Partial<Record<ElementKey, PropertyChange>> = {};
+    (Object.keys(changes) as ElementKey[]).forEach(key => {
+      if (!isEqualValue(changes[key]!.before, changes[key]!.after)) effective[key] = changes[key];
+    });
+    if (Object.keys(effective).length > 0) ops.push({ type: 'update', id, changes: effective });
+  });
+  return ops;
+};
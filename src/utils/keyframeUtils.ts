@@ -0,0 +1,154 @@
+import { Animation, AnimationKeyframe, AnimationType, ProjectAnimations } from '../types/project';
+import { sortKeyframes } from './animationEngine';
+
+// Keyframes closer than this (in seconds) are treated as the same keyframe
+const KEYFRAME_TIME_EPSILON = 1e-4;
+
+export interface AnimationTarget {
+  elementId: string;
+  type: AnimationType;
+  property?: Animation['property'];
+}
+
+export const createEmptyAnimations = (): ProjectAnimations => ({
+  byId: {},
+  order: []
+});
+
+const matchesTarget = (animation: Animation, target: AnimationTarget) =>
+  animation.elementId === target.elementId &&
+  animation.type === target.type &&
+  (target.type !== 'color' || (animation.property || 'fill') === (target.property || 'fill'));
+
+/**
+ * Find the animation that drives a given element property
+ */
+export const findAnimation = (
+  animations: ProjectAnimations,
+  target: AnimationTarget
+): Animation | undefined => {
+  return animations.order
+    .map(id => animations.byId[id])
+    .find(animation => animation && matchesTarget(animation, target));
+};
+
+export const getElementAnimations = (animations: ProjectAnimations, elementId: string): Animation[] => {
+  return animations.order
+    .map(id => animations.byId[id])
+    .filter(animation => animation && animation.elementId === elementId);
+};
+
+const getLastKeyframeTime = (keyframes: AnimationKeyframe[]) =>
+  keyframes.reduce((max, kf) => Math.max(max, kf.time), 0);
+
+/**
+ * A duration derived from the keyframes follows the last keyframe as it moves or is removed.
+ * An explicit one, e.g. from a loaded file, is kept and only grows to reach a later keyframe.
+ */
+const withSyncedDuration = (previous: Animation | undefined, animation: Animation): Animation => {
+  const lastKeyframeTime = getLastKeyframeTime(animation.keyframes);
+  const derived = !previous || previous.duration <= 0 ||
+    Math.abs(previous.duration - getLastKeyframeTime(previous.keyframes)) < KEYFRAME_TIME_EPSILON;
+  return {
+    ...animation,
+    duration: derived ? lastKeyframeTime : Math.max(animation.duration, lastKeyframeTime)
+  };
+};
+
+const putAnimation = (animations: ProjectAnimations, animation: Animation): ProjectAnimations => ({
+  byId: { ...animations.byId, [animation.id]: withSyncedDuration(animations.byId[animation.id], animation) },
+  order: animations.order.includes(animation.id) ? animations.order : [...animations.order, animation.id]
+});
+
+/**
+ * Add a keyframe at a timeline time, replacing any keyframe already at that time
+ * Creates the animation for the target property when it does not exist yet
+ */
+export const setKeyframe = (
+  animations: ProjectAnimations,
+  target: AnimationTarget,
+  time: number,
+  value: unknown,
+  easing?: string
+): ProjectAnimations => {
+  const existing = findAnimation(animations, target);
+  const animation: Animation = existing || {
+    id: `anim-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type: target.type,
+    elementId: target.elementId,
+    ...(target.type === 'color' ? { property: target.property || 'fill' } : {}),
+    keyframes: [],
+    duration: 0
+  };
+
+  const localTime = Math.max(0, time - (animation.delay || 0));
+  const previous = animation.keyframes.find(kf => Math.abs(kf.time - localTime) < KEYFRAME_TIME_EPSILON);
+  const keyframe: AnimationKeyframe = {
+    time: localTime,
+    value,
+    easing: easing ?? previous?.easing
+  };
+
+  const keyframes = sortKeyframes([
+    ...animation.keyframes.filter(kf => kf !== previous),
+    keyframe
+  ]);
+
+  return putAnimation(animations, { ...animation, keyframes });
+};
+
+/**
+ * Update a keyframe in place; call sortAnimationKeyframes once a drag finishes
+ */
+export const updateKeyframe = (
+  animations: ProjectAnimations,
+  animationId: string,
+  index: number,
+  updates: Partial<AnimationKeyframe>
+): ProjectAnimations => {
+  const animation = animations.byId[animationId];
+  if (!animation || !animation.keyframes[index]) return animations;
+
+  const keyframes = animation.keyframes.map((kf, i) =>
+    i === index ? { ...kf, ...updates, time: Math.max(0, updates.time ?? kf.time) } : kf
+  );
+
+  return putAnimation(animations, { ...animation, keyframes });
+};
+
+export const sortAnimationKeyframes = (
+  animations: ProjectAnimations,
+  animationId: string
+): ProjectAnimations => {
+  const animation = animations.byId[animationId];
+  if (!animation) return animations;
+  return putAnimation(animations, { ...animation, keyframes: sortKeyframes(animation.keyframes) });
+};
+
+/**
+ * Remove a keyframe; the animation itself is dropped with its last keyframe
+ */
+export const removeKeyframe = (
+  animations: ProjectAnimations,
+  animationId: string,
+  index: number
+): ProjectAnimations => {
+  const animation = animations.byId[animationId];
+  if (!animation) return animations;
+
+  const keyframes = animation.keyframes.filter((_, i) => i !== index);
+  if (keyframes.length === 0) {
+    return removeAnimations(animations, [animationId]);
+  }
+
+  return putAnimation(animations, { ...animation, keyframes });
+};
+
+export const removeAnimations = (animations: ProjectAnimations, animationIds: string[]): ProjectAnimations => {
+  const byId = { ...animations.byId };
+  animationIds.forEach(id => delete byId[id]);
+  return {
+    byId,
+    order: animations.order.filter(id => !animationIds.includes(id))
+  };
+};
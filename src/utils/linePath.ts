@@ -0,0 +1,359 @@
+import { DesignElement } from '../types/design';
+
+export type LinePoint = NonNullable<DesignElement['points']>[number];
+
+export const getLinePoints = (element: DesignElement): LinePoint[] =>
+  element.points || [{ x: 0, y: 0 }, { x: element.width, y: 0 }];
+
+/**
+ * Every vertex of a line, including the extra contours of a compound path
+ */
+export const getAllLinePoints = (element: DesignElement): Array<{ x: number; y: number }> =>
+  [...getLinePoints(element), ...(element.subpaths || []).flat()];
+
+/**
+ * Bounds of a line's points relative to the element origin
+ */
+export const getLineBounds = (points: LinePoint[]) => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys)
+  };
+};
+
+type Point = { x: number; y: number };
+
+export type NodeType = 'corner' | 'smooth' | 'broken';
+
+/**
+ * A cubic piece of a path between two anchors; without handles the controls sit on the anchors
+ */
+export interface BezierSegment {
+  from: number; // index of the starting anchor; a closed path's last segment starts at the last anchor
+  start: Point;
+  control1: Point;
+  control2: Point;
+  end: Point;
+  curved: boolean;
+}
+
+/**
+ * Whether any anchor has Bezier handles; such paths are drawn as cubic curves and ignore smoothing and corner radii
+ */
+export const hasBezierHandles = (points: LinePoint[]) => points.some(p => p.handleIn || p.handleOut);
+
+/**
+ * Segments between consecutive anchors, including the one back to the start of a closed path
+ */
+export const getBezierSegments = (points: LinePoint[], closed: boolean): BezierSegment[] => {
+  const count = closed && points.length >= 2 ? points.length : points.length - 1;
+
+  return Array.from({ length: Math.max(0, count) }, (_, from) => {
+    const a = points[from];
+    const b = points[(from + 1) % points.length];
+    return {
+      from,
+      start: { x: a.x, y: a.y },
+      control1: a.handleOut ? { x: a.x + a.handleOut.x, y: a.y + a.handleOut.y } : { x: a.x, y: a.y },
+      control2: b.handleIn ? { x: b.x + b.handleIn.x, y: b.y + b.handleIn.y } : { x: b.x, y: b.y },
+      end: { x: b.x, y: b.y },
+      curved: !!(a.handleOut || b.handleIn)
+    };
+  });
+};
+
+export const pointOnSegment = (segment: BezierSegment, t: number): Point => {
+  const mt = 1 - t;
+  const [a, b, c, d] = [mt * mt * mt, 3 * mt * mt * t, 3 * mt * t * t, t * t * t];
+  return {
+    x: a * segment.start.x + b * segment.control1.x + c * segment.control2.x + d * segment.end.x,
+    y: a * segment.start.y + b * segment.control1.y + c * segment.control2.y + d * segment.end.y
+  };
+};
+
+/**
+ * The path's vertices with curves sampled into straight pieces, for hit testing and boolean operations
+ */
+export const flattenLinePoints = (points: LinePoint[], closed: boolean, steps = 16): Point[] => {
+  if (!hasBezierHandles(points)) return points.map(({ x, y }) => ({ x, y }));
+
+  const flat = getBezierSegments(points, closed).flatMap(segment =>
+    segment.curved
+      ? Array.from({ length: steps }, (_, i) => pointOnSegment(segment, i / steps))
+      : [segment.start]
+  );
+  const last = points[points.length - 1];
+  return closed ? flat : [...flat, { x: last.x, y: last.y }];
+};
+
+/**
+ * Segment and curve parameter of the point on the path closest to the target
+ */
+export const findNearestSegment = (
+  points: LinePoint[],
+  closed: boolean,
+  target: Point,
+  samples = 24
+): { from: number; t: number; distance: number } | null => {
+  let nearest: { from: number; t: number; distance: number } | null = null;
+
+  getBezierSegments(points, closed).forEach(segment => {
+    for (let i = 0; i <= samples; i++) {
+      const t = i / samples;
+      const p = pointOnSegment(segment, t);
+      const distance = Math.hypot(p.x - target.x, p.y - target.y);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { from: segment.from, t, distance };
+      }
+    }
+  });
+
+  return nearest;
+};
+
+// Offset of a control point from its anchor, or nothing when it sits on the anchor
+const toHandle = (control: Point, anchor: Point): Point | undefined =>
+  control.x === anchor.x && control.y === anchor.y ? undefined : { x: control.x - anchor.x, y: control.y - anchor.y };
+
+/**
+ * Insert an anchor on a segment; curves are split (de Casteljau) so the path keeps its shape
+ */
+export const splitSegment = (points: LinePoint[], closed: boolean, from: number, t: number): LinePoint[] => {
+  const segment = getBezierSegments(points, closed)[from];
+  if (!segment) return points;
+
+  const lerp = (p: Point, q: Point) => ({ x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t });
+  const p01 = lerp(segment.start, segment.control1);
+  const p12 = lerp(segment.control1, segment.control2);
+  const p23 = lerp(segment.control2, segment.end);
+  const p012 = lerp(p01, p12);
+  const p123 = lerp(p12, p23);
+  const anchor = lerp(p012, p123);
+
+  const next = [...points];
+  const to = (from + 1) % points.length;
+  if (segment.curved) {
+    next[from] = { ...points[from], handleOut: toHandle(p01, points[from]) };
+    next[to] = { ...points[to], handleIn: toHandle(p23, points[to]) };
+    next.splice(from + 1, 0, { ...anchor, handleIn: toHandle(p012, anchor), handleOut: toHandle(p123, anchor) });
+  } else {
+    next.splice(from + 1, 0, anchor);
+  }
+  return next;
+};
+
+export const getNodeType = (point: LinePoint): NodeType =>
+  !point.handleIn && !point.handleOut ? 'corner' : point.broken ? 'broken' : 'smooth';
+
+/**
+ * Convert an anchor: corner drops its handles, smooth keeps them opposite each other, broken lets them move apart.
+ * An anchor without handles gets them along the line between its neighbours, a third of the way to each.
+ */
+export const setNodeType = (points: LinePoint[], closed: boolean, index: number, type: NodeType): LinePoint[] => {
+  const point = points[index];
+  let updated: LinePoint = { ...point };
+
+  if (type === 'corner') {
+    delete updated.handleIn;
+    delete updated.handleOut;
+    delete updated.broken;
+  } else if (!point.handleIn && !point.handleOut) {
+    const prev = points[index - 1] ?? (closed ? points[points.length - 1] : undefined);
+    const next = points[index + 1] ?? (closed ? points[0] : undefined);
+    const from = prev ?? point;
+    const to = next ?? point;
+    const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+    const direction = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+    const inLength = prev ? Math.hypot(point.x - prev.x, point.y - prev.y) / 3 : 0;
+    const outLength = next ? Math.hypot(next.x - point.x, next.y - point.y) / 3 : 0;
+
+    updated = {
+      ...updated,
+      handleIn: inLength > 0 ? { x: -direction.x * inLength, y: -direction.y * inLength } : undefined,
+      handleOut: outLength > 0 ? { x: direction.x * outLength, y: direction.y * outLength } : undefined
+    };
+  } else if (type === 'smooth' && point.handleIn && point.handleOut) {
+    updated = moveHandle({ ...updated, broken: false }, 'out', point.handleOut);
+  }
+
+  if (type === 'broken') updated.broken = true;
+  if (type === 'smooth') delete updated.broken;
+
+  return points.map((p, i) => (i === index ? updated : p));
+};
+
+/**
+ * Move one handle of an anchor; unless the handles are broken the other one turns to stay opposite, keeping its length
+ */
+export const moveHandle = (point: LinePoint, side: 'in' | 'out', offset: Point): LinePoint => {
+  const otherSide = side === 'in' ? 'handleOut' : 'handleIn';
+  const updated: LinePoint = { ...point, [side === 'in' ? 'handleIn' : 'handleOut']: offset };
+  const other = point[otherSide];
+  const length = Math.hypot(offset.x, offset.y);
+
+  if (!point.broken && other && length > 0) {
+    const otherLength = Math.hypot(other.x, other.y);
+    updated[otherSide] = { x: (-offset.x / length) * otherLength, y: (-offset.y / length) * otherLength };
+  }
+  return updated;
+};
+
+/**
+ * Direction of travel, in radians, where an open path leaves its first anchor and arrives at its last
+ */
+export const getEndAngles = (points: LinePoint[]): { start: number; end: number } => {
+  const segments = getBezierSegments(points, false);
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  if (!first || !last) return { start: 0, end: 0 };
+
+  // Controls on top of the anchor give no direction, so look further along the segment
+  const distinct = (anchor: Point, candidates: Point[]) =>
+    candidates.find(p => p.x !== anchor.x || p.y !== anchor.y) ?? anchor;
+  const toward = distinct(first.start, [first.control1, first.control2, first.end]);
+  const from = distinct(last.end, [last.control2, last.control1, last.start]);
+
+  return {
+    start: Math.atan2(toward.y - first.start.y, toward.x - first.start.x),
+    end: Math.atan2(last.end.y - from.y, last.end.x - from.x)
+  };
+};
+
+const clampUnit = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Visible stretch of a trimmed stroke as fractions of its length, or null when nothing is trimmed
+ */
+export const getTrimRange = (element: DesignElement): { start: number; end: number } | null => {
+  const start = clampUnit(element.trimStart ?? 0);
+  const end = clampUnit(element.trimEnd ?? 1);
+  if (start <= 0 && end >= 1) return null;
+  return { start, end: Math.max(start, end) };
+};
+
+/**
+ * Which arrowheads to draw; a trimmed stroke keeps only the heads on ends it still reaches
+ */
+export const getVisibleArrowheads = (element: DesignElement): { start: boolean; end: boolean } => {
+  const trim = getTrimRange(element);
+  const drawn = !trim || trim.end > trim.start;
+  return {
+    start: !!element.arrowStart && drawn && (!trim || trim.start <= 0),
+    end: !!element.arrowEnd && drawn && (!trim || trim.end >= 1)
+  };
+};
+
+/**
+ * Approximate length of the stroke; curves are sampled, smoothing and corner radii are ignored
+ */
+export const getLinePathLength = (element: DesignElement): number => {
+  const length = (contour: Point[], closed: boolean) =>
+    [...contour, ...(closed && contour.length > 0 ? [contour[0]] : [])]
+      .reduce((sum, p, i, all) => (i === 0 ? 0 : sum + Math.hypot(p.x - all[i - 1].x, p.y - all[i - 1].y)), 0);
+
+  return length(flattenLinePoints(getLinePoints(element), !!element.closePath, 32), !!element.closePath) +
+    (element.subpaths || []).reduce((sum, contour) => sum + length(contour, true), 0);
+};
+
+/**
+ * Build the SVG path data for a line, arrow or pen element
+ * Points are shifted by the offset. Anchors with handles give cubic curves; otherwise smoothing
+ * and corner radii round interior points with quadratic curves the same way the canvas draws them
+ */
+export const buildLinePath = (
+  element: DesignElement,
+  points: LinePoint[],
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+): string => {
+  if (points.length < 2) return '';
+
+  const adjustedPoints = points.map(p => ({
+    x: p.x + offset.x,
+    y: p.y + offset.y
+  }));
+
+  // Check if we have corner rounding enabled
+  const hasCornerRounding = element.cornerRadius && element.cornerRadius > 0;
+  const pointCornerRadii = element.pointCornerRadii || [];
+
+  let path = `M ${adjustedPoints[0].x} ${adjustedPoints[0].y}`;
+
+  if (hasBezierHandles(points)) {
+    // The closing straight segment is left to Z
+    getBezierSegments(points, !!element.closePath).forEach(({ control1, control2, end, curved, from }) => {
+      const [c1, c2, p] = [control1, control2, end].map(q => `${q.x + offset.x} ${q.y + offset.y}`);
+      if (curved) {
+        path += ` C ${c1} ${c2} ${p}`;
+      } else if (from < points.length - 1) {
+        path += ` L ${p}`;
+      }
+    });
+  } else if ((element.lineType === 'pen' && element.smoothing && element.smoothing > 0) || hasCornerRounding) {
+    for (let i = 1; i < adjustedPoints.length; i++) {
+      const current = adjustedPoints[i];
+      const originalPoint = points[i];
+
+      // Check for corner rounding at this point
+      const pointCornerRadius = pointCornerRadii[i] || element.cornerRadius || 0;
+      const shouldRound = originalPoint.smooth !== false || pointCornerRadius > 0;
+
+      if (shouldRound && i > 0 && i < adjustedPoints.length - 1) {
+        // Calculate corner rounding for this connection point
+        const radius = pointCornerRadius > 0 ? pointCornerRadius * 10 : (element.smoothing || 0) * 30;
+
+        const prev = adjustedPoints[i - 1];
+        const next = adjustedPoints[i + 1] || current;
+
+        // Calculate vectors for rounded corner
+        const vec1 = { x: prev.x - current.x, y: prev.y - current.y };
+        const vec2 = { x: next.x - current.x, y: next.y - current.y };
+
+        const len1 = Math.sqrt(vec1.x * vec1.x + vec1.y * vec1.y);
+        const len2 = Math.sqrt(vec2.x * vec2.x + vec2.y * vec2.y);
+
+        if (len1 > 0 && len2 > 0) {
+          // Normalize vectors
+          vec1.x /= len1; vec1.y /= len1;
+          vec2.x /= len2; vec2.y /= len2;
+
+          // Calculate control points for smooth corner
+          const controlRadius = Math.min(radius, len1 / 3, len2 / 3);
+          const cp1x = current.x + vec1.x * controlRadius;
+          const cp1y = current.y + vec1.y * controlRadius;
+          const cp2x = current.x + vec2.x * controlRadius;
+          const cp2y = current.y + vec2.y * controlRadius;
+
+          // Create smooth corner transition
+          path += ` L ${cp1x} ${cp1y}`;
+          path += ` Q ${current.x} ${current.y} ${cp2x} ${cp2y}`;
+        } else {
+          path += ` L ${current.x} ${current.y}`;
+        }
+      } else {
+        path += ` L ${current.x} ${current.y}`;
+      }
+    }
+  } else {
+    // Standard linear path
+    for (let i = 1; i < adjustedPoints.length; i++) {
+      path += ` L ${adjustedPoints[i].x} ${adjustedPoints[i].y}`;
+    }
+  }
+
+  // Close path if enabled
+  if (element.closePath) {
+    path += ' Z';
+  }
+
+  // Extra contours are always closed and drawn straight
+  (element.subpaths || []).forEach(contour => {
+    if (contour.length < 2) return;
+    path += ` M ${contour.map(p => `${p.x + offset.x} ${p.y + offset.y}`).join(' L ')} Z`;
+  });
+
+  return path;
+};
@@ -0,0 +1,109 @@
+import { DesignElement } from '../types/design';
+import { getAllElementsFlat, getAncestors, toLocalPoint, toParentPoint, updateElementInGroup } from './groupUtils';
+import { flattenLinePoints, getAllLinePoints, getLineBounds, getLinePoints } from './linePath';
+
+type Point = { x: number; y: number };
+
+// Curves are sampled finer than for hit testing so motion along them stays smooth
+const MOTION_PATH_STEPS = 48;
+
+/**
+ * Whether an element can be followed as a motion path
+ */
+export const isMotionPath = (element: DesignElement): boolean =>
+  element.type === 'line' && getLinePoints(element).length >= 2;
+
+// Lines rotate and scale around the center of their point bounds
+const getLineCenter = (line: DesignElement): Point => {
+  const bounds = getLineBounds(getAllLinePoints(line));
+  return { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+};
+
+// The point an element is placed by: the center it rotates around
+const getPivot = (element: DesignElement): Point =>
+  element.type === 'line' ? getLineCenter(element) : { x: element.width / 2, y: element.height / 2 };
+
+/**
+ * The path as a polyline on the canvas, with the line's own transform and its groups' applied
+ */
+const getCanvasPolyline = (elements: DesignElement[], path: DesignElement): Point[] => {
+  const closed = !!path.closePath;
+  const points = flattenLinePoints(getLinePoints(path), closed, MOTION_PATH_STEPS);
+  const center = getLineCenter(path);
+  const angle = (path.rotation * Math.PI) / 180;
+  const ancestors = getAncestors(elements, path.id);
+
+  return [...points, ...(closed ? [points[0]] : [])].map(point => {
+    const dx = (point.x - center.x) * (path.scaleX ?? 1);
+    const dy = (point.y - center.y) * (path.scaleY ?? 1);
+    const onParent = {
+      x: path.x + center.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+      y: path.y + center.y + dx * Math.sin(angle) + dy * Math.cos(angle)
+    };
+    return ancestors.reduceRight((p, group) => toParentPoint(group, p), onParent);
+  });
+};
+
+/**
+ * Position and direction of travel, in degrees, at a fraction of a polyline's length
+ */
+export const getPointAtProgress = (polyline: Point[], progress: number): (Point & { angle: number }) | null => {
+  if (polyline.length < 2) return null;
+
+  const lengths = polyline.slice(1).map((p, i) => Math.hypot(p.x - polyline[i].x, p.y - polyline[i].y));
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  let remaining = Math.max(0, Math.min(1, progress)) * total;
+
+  // Zero-length pieces give no direction, so they are skipped
+  let index = -1;
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] <= 0) continue;
+    index = i;
+    if (remaining <= lengths[i]) break;
+    remaining -= lengths[i];
+  }
+  if (index === -1) return { ...polyline[0], angle: 0 };
+
+  const from = polyline[index];
+  const to = polyline[index + 1];
+  const t = Math.min(1, remaining / lengths[index]);
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    angle: (Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI
+  };
+};
+
+/**
+ * Place every element that follows a motion path at its progress along it
+ * Paths are read as given, so an element following a path that itself follows another uses its unplaced position.
+ * Returns the same array when nothing follows a path.
+ */
+export const applyMotionPaths = (elements: DesignElement[]): DesignElement[] => {
+  const flat = getAllElementsFlat(elements);
+  const followers = flat.filter(el => el.motionPathId && el.motionPathId !== el.id);
+  if (followers.length === 0) return elements;
+
+  return followers.reduce((result, follower) => {
+    const path = flat.find(el => el.id === follower.motionPathId);
+    if (!path || !isMotionPath(path)) return result;
+
+    // A group cannot follow a path inside itself
+    const pathAncestors = getAncestors(elements, path.id);
+    if (pathAncestors.some(group => group.id === follower.id)) return result;
+
+    // Measure along the path in the space the follower's x and y are in
+    const ancestors = getAncestors(elements, follower.id);
+    const polyline = getCanvasPolyline(elements, path)
+      .map(point => ancestors.reduce((p, group) => toLocalPoint(group, p), point));
+    const placed = getPointAtProgress(polyline, follower.motionProgress ?? 0);
+    if (!placed) return result;
+
+    const pivot = getPivot(follower);
+    return updateElementInGroup(result, follower.id, {
+      x: placed.x - pivot.x,
+      y: placed.y - pivot.y,
+      ...(follower.motionAutoOrient ? { rotation: follower.rotation + placed.angle } : {})
+    });
+  }, elements);
+};
@@ -0,0 +1,184 @@
+import polygonClipping, { MultiPolygon, Polygon, Ring } from 'polygon-clipping';
+import { DesignElement } from '../types/design';
+import { findParentGroup, updateElementInGroup } from './groupUtils';
+import { flattenLinePoints, getAllLinePoints, getLineBounds, getLinePoints } from './linePath';
+import { clampBorderRadius } from './sceneLayout';
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude';
+
+export const BOOLEAN_OPERATION_LABELS: Record<BooleanOperation, string> = {
+  union: 'Union',
+  subtract: 'Subtract',
+  intersect: 'Intersect',
+  exclude: 'Exclude'
+};
+
+type Point = { x: number; y: number };
+
+// Segments used to flatten a full ellipse; rounded corners get a quarter each
+const CURVE_SEGMENTS = 64;
+
+/**
+ * Whether an element has a closed outline boolean operations can work on
+ */
+export const isBooleanOperand = (element: DesignElement): boolean =>
+  element.type === 'rectangle' ||
+  element.type === 'circle' ||
+  (element.type === 'line' && element.lineType === 'pen' && !!element.closePath && (element.points?.length ?? 0) >= 3);
+
+const ellipseContour = (width: number, height: number): Point[] =>
+  Array.from({ length: CURVE_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / CURVE_SEGMENTS;
+    return { x: (width / 2) * (1 + Math.cos(angle)), y: (height / 2) * (1 + Math.sin(angle)) };
+  });
+
+const rectangleContour = (width: number, height: number, borderRadius: number): Point[] => {
+  const r = clampBorderRadius(borderRadius, width, height);
+  if (r <= 0) {
+    return [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  }
+
+  const steps = CURVE_SEGMENTS / 4;
+  const corners = [
+    { cx: width - r, cy: r, start: -90 },
+    { cx: width - r, cy: height - r, start: 0 },
+    { cx: r, cy: height - r, start: 90 },
+    { cx: r, cy: r, start: 180 }
+  ];
+  return corners.flatMap(({ cx, cy, start }) =>
+    Array.from({ length: steps + 1 }, (_, i) => {
+      const angle = ((start + (90 * i) / steps) * Math.PI) / 180;
+      return { x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) };
+    })
+  );
+};
+
+/**
+ * The element's outline in the space its x and y are measured in, with rotation and scale applied.
+ * Contours of a compound path overlap even-odd like its fill, which is the xor of its rings.
+ */
+const toGeometry = (element: DesignElement): Polygon | MultiPolygon => {
+  let contours: Point[][];
+  let center: Point;
+
+  if (element.type === 'line') {
+    contours = [flattenLinePoints(getLinePoints(element), true), ...(element.subpaths || [])]
+      .filter(contour => contour.length >= 3);
+    // Lines rotate around the center of their anchor bounds
+    const bounds = getLineBounds(getAllLinePoints(element));
+    center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+  } else {
+    contours = [element.type === 'circle'
+      ? ellipseContour(element.width, element.height)
+      : rectangleContour(element.width, element.height, element.borderRadius)];
+    center = { x: element.width / 2, y: element.height / 2 };
+  }
+
+  const angle = (element.rotation * Math.PI) / 180;
+  const scaleX = element.scaleX ?? 1;
+  const scaleY = element.scaleY ?? 1;
+  const rings: Ring[] = contours.map(contour => contour.map(point => {
+    const dx = (point.x - center.x) * scaleX;
+    const dy = (point.y - center.y) * scaleY;
+    return [
+      element.x + center.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+      element.y + center.y + dx * Math.sin(angle) + dy * Math.cos(angle)
+    ];
+  }));
+
+  const [first, ...rest] = rings;
+  return rest.length === 0 ? [first] : polygonClipping.xor([first], ...rest.map(ring => [ring]));
+};
+
+const runOperation = (operation: BooleanOperation, [first, ...rest]: Array<Polygon | MultiPolygon>): MultiPolygon => {
+  switch (operation) {
+    case 'union':
+      return polygonClipping.union(first, ...rest);
+    case 'subtract':
+      // Everything above the bottom operand is cut out of it
+      return polygonClipping.difference(first, ...rest);
+    case 'intersect':
+      return polygonClipping.intersection(first, ...rest);
+    case 'exclude':
+      return polygonClipping.xor(first, ...rest);
+  }
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Replace the selected shapes with one pen path of the operation's result, styled like the top operand.
+ * Only siblings are combined; the path takes the top operand's place in the stacking order.
+ * Returns null when fewer than two suitable shapes are selected, and a null resultId when nothing is left.
+ */
+export const applyBooleanOperation = (
+  elements: DesignElement[],
+  selectedIds: string[],
+  operation: BooleanOperation
+): { elements: DesignElement[]; resultId: string | null } | null => {
+  const parent = findParentGroup(elements, selectedIds[0]);
+  const siblings = parent?.children || elements;
+  // Stacking order, bottom first
+  const operands = siblings.filter(el => selectedIds.includes(el.id) && isBooleanOperand(el));
+
+  if (operands.length < 2) return null;
+
+  const rings = runOperation(operation, operands.map(toGeometry))
+    .flat()
+    // Rings repeat their first point at the end
+    .map(ring => ring.slice(0, -1).map(([x, y]) => ({ x, y })))
+    .filter(ring => ring.length >= 3);
+
+  const top = operands[operands.length - 1];
+  const operandIds = operands.map(el => el.id);
+  let result: DesignElement | null = null;
+
+  if (rings.length > 0) {
+    const bounds = getLineBounds(rings.flat());
+    const toLocal = (ring: Point[]) => ring.map(p => ({ x: round(p.x - bounds.minX), y: round(p.y - bounds.minY) }));
+    const [outline, ...subpaths] = rings.map(toLocal);
+
+    result = {
+      id: `path-${Date.now()}`,
+      type: 'line',
+      name: BOOLEAN_OPERATION_LABELS[operation],
+      x: round(bounds.minX),
+      y: round(bounds.minY),
+      width: Math.max(1, round(bounds.maxX - bounds.minX)),
+      height: Math.max(1, round(bounds.maxY - bounds.minY)),
+      rotation: 0,
+      opacity: top.opacity,
+      locked: false,
+      visible: true,
+      fill: top.fill,
+      gradientEnabled: top.gradientEnabled,
+      gradientType: top.gradientType,
+      gradientColors: top.gradientColors,
+      gradientAngle: top.gradientAngle,
+      stroke: top.stroke,
+      strokeWidth: top.strokeWidth,
+      borderRadius: 0,
+      shadow: top.shadow,
+      blendMode: top.blendMode,
+      lineType: 'pen',
+      points: outline,
+      ...(subpaths.length > 0 ? { subpaths } : {}),
+      closePath: true,
+      lineCap: 'butt',
+      lineJoin: top.type === 'line' ? top.lineJoin : 'miter',
+      dashArray: top.type === 'line' ? top.dashArray : [],
+      smoothing: 0,
+      ...(parent ? { parentId: parent.id } : {})
+    };
+  }
+
+  const combined = siblings.flatMap(el => {
+    if (el.id === top.id) return result ? [result] : [];
+    return operandIds.includes(el.id) ? [] : [el];
+  });
+
+  return {
+    elements: parent ? updateElementInGroup(elements, parent.id, { children: combined }) : combined,
+    resultId: result?.id ?? null
+  };
+};
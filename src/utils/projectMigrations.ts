@@ -0,0 +1,131 @@
+// Versioned upgrades for saved projects, shared by .ffxproj archives and .flashfx.json files
+// Each step upgrades from version - 1 to version; files are upgraded one step at a time
+
+export type JsonObject = Record<string, unknown>;
+
+// The separately stored parts of an .ffxproj archive
+export type ProjectArchivePart = 'manifest' | 'canvas' | 'properties' | 'shape' | 'hierarchy' | 'keyframes';
+
+type MigrateFn = (data: JsonObject) => JsonObject;
+
+export interface ProjectMigration {
+  version: number;
+  description: string;
+  archive?: Partial<Record<ProjectArchivePart, MigrateFn>>;
+  projectJson?: MigrateFn; // the single-document .flashfx.json format
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  steps: Array<{ version: number; description: string }>;
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// v1 'color' animations implied the fill; the engine still defaults to it but files now say so
+const nameColorAnimationProperty = (animation: unknown) =>
+  isObject(animation) && animation.type === 'color' && !animation.property
+    ? { ...animation, property: 'fill' }
+    : animation;
+
+export const PROJECT_MIGRATIONS: ProjectMigration[] = [
+  {
+    version: 2,
+    description: 'Color animations name the property they drive',
+    archive: {
+      keyframes: keyframes => ({
+        ...keyframes,
+        animations: Array.isArray(keyframes.animations)
+          ? keyframes.animations.map(nameColorAnimationProperty)
+          : []
+      })
+    },
+    projectJson: project => {
+      const animations = project.animations;
+      if (!isObject(animations) || !isObject(animations.byId)) return project;
+      const byId = Object.fromEntries(
+        Object.entries(animations.byId).map(([id, animation]) => [id, nameColorAnimationProperty(animation)])
+      );
+      return { ...project, animations: { ...animations, byId } };
+    }
+  },
+  {
+    // Older archives nest children inside their group's file; the loader reads both layouts
+    version: 3,
+    description: 'Archives store stacking order and nested groups in hierarchy/hierarchy.json'
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = PROJECT_MIGRATIONS.reduce(
+  (version, migration) => Math.max(version, migration.version),
+  1
+);
+
+export const getNewerVersionMessage = (version: number) =>
+  `Project was created with a newer version (schema v${version}). Please update FlashFX.`;
+
+/**
+ * Migrations needed to bring a file at the given version up to date, in order
+ * Files without a version predate versioning and are treated as v1
+ */
+export const getMigrationPath = (fromVersion: number | undefined): ProjectMigration[] => {
+  const version = fromVersion || 1;
+  return PROJECT_MIGRATIONS
+    .filter(migration => migration.version > version)
+    .sort((a, b) => a.version - b.version);
+};
+
+export const createMigrationReport = (
+  fromVersion: number | undefined,
+  migrations: ProjectMigration[]
+): MigrationReport => ({
+  fromVersion: fromVersion || 1,
+  toVersion: CURRENT_SCHEMA_VERSION,
+  steps: migrations.map(({ version, description }) => ({ version, description }))
+});
+
+/**
+ * Human-readable lines for a load result's warnings; empty when nothing was migrated
+ */
+export const formatMigrationReport = (report: MigrationReport): string[] =>
+  report.steps.length === 0
+    ? []
+    : [
+        `Upgraded project from schema v${report.fromVersion} to v${report.toVersion}`,
+        ...report.steps.map(step => `v${step.version}: ${step.description}`)
+      ];
+
+/**
+ * Upgrade one archive file through every step that touches its part
+ */
+export const migrateArchivePart = <T>(
+  migrations: ProjectMigration[],
+  part: ProjectArchivePart,
+  data: T
+): T =>
+  migrations.reduce<unknown>((result, migration) => {
+    const migrate = migration.archive?.[part];
+    return migrate && isObject(result) ? migrate(result) : result;
+  }, data) as T;
+
+/**
+ * Upgrade a parsed .flashfx.json document to the current schema version
+ */
+export const migrateProjectJson = (project: JsonObject): { project: JsonObject; report: MigrationReport } => {
+  const fromVersion = typeof project.schemaVersion === 'number' ? project.schemaVersion : undefined;
+  if (fromVersion && fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(getNewerVersionMessage(fromVersion));
+  }
+  const migrations = getMigrationPath(fromVersion);
+  const migrated = migrations.reduce(
+    (result, migration) => (migration.projectJson ? migration.projectJson(result) : result),
+    project
+  );
+
+  return {
+    project: { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION },
+    report: createMigrationReport(fromVersion, migrations)
+  };
+};
@@ -106,7 +106,7 @@ export const projectJsonSchema: JSONSchemaType<ProjectFile> = {
               properties: {
                 id: { type: 'string' },
                 name: { type: 'string', nullable: true },
-                type: { type: 'string', enum: ['opacity', 'transform', 'scale', 'rotate', 'color'] },
+                type: { type: 'string', enum: ['opacity', 'transform', 'scale', 'rotate', 'color', 'trim', 'motionPath'] },
                 elementId: { type: 'string' },
                 duration: { type: 'number', minimum: 0 }
               },
@@ -277,7 +277,7 @@ export const createProjectValidator = () => {
 };
 
 // Constants
-export const CURRENT_SCHEMA_VERSION = 1;
+export { CURRENT_SCHEMA_VERSION } from './projectMigrations';
 export const MAX_PROJECT_SIZE_MB = 10;
 export const MAX_ELEMENTS_COUNT = 20000;
 export const PROJECT_FILE_EXTENSION = '.flashfx.json';
@@ -0,0 +1,148 @@
+import { DesignElement } from '../types/design';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+interface TextBox {
+  padding: { x: number; y: number };
+  align: TextAlign;
+}
+
+// Text padding and default alignment per element type, matching the canvas styles
+const TEXT_BOXES: Partial<Record<DesignElement['type'], TextBox>> = {
+  text: { padding: { x: 4, y: 4 }, align: 'left' },
+  button: { padding: { x: 0, y: 0 }, align: 'center' },
+  'chat-bubble': { padding: { x: 16, y: 12 }, align: 'left' }
+};
+
+export interface TextStyle {
+  fontSize: number;
+  fontFamily: string;
+  fontWeight: string;
+  fontStyle: string;
+  lineHeight: number; // pixels
+  letterSpacing: number;
+  font: string; // CSS font shorthand
+}
+
+export interface TextLayout {
+  lines: string[];
+  align: TextAlign;
+  x: number; // anchor for the alignment
+  firstLineY: number; // vertical center of the first line
+  style: TextStyle;
+}
+
+export const getTextStyle = (element: DesignElement): TextStyle => {
+  const fontSize = element.fontSize || 16;
+  const fontFamily = element.fontFamily || 'Inter';
+  const fontWeight = element.fontWeight || 'normal';
+  const fontStyle = element.fontStyle || 'normal';
+  return {
+    fontSize,
+    fontFamily,
+    fontWeight,
+    fontStyle,
+    lineHeight: (element.lineHeight || 1.2) * fontSize,
+    letterSpacing: element.letterSpacing || 0,
+    font: `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`
+  };
+};
+
+export const applyTextTransform = (text: string, transform: DesignElement['textTransform']) => {
+  switch (transform) {
+    case 'uppercase':
+      return text.toUpperCase();
+    case 'lowercase':
+      return text.toLowerCase();
+    case 'capitalize':
+      return text.replace(/\b\p{L}/gu, char => char.toUpperCase());
+    default:
+      return text;
+  }
+};
+
+/**
+ * Lay out an element's text the way the canvas flexbox does: pre-wrap
+ * wrapping within the padded box, aligned horizontally and vertically
+ * Returns null for element types that do not show text
+ */
+export const layoutText = (
+  element: DesignElement,
+  measureText: (text: string, style: TextStyle) => number
+): TextLayout | null => {
+  const box = TEXT_BOXES[element.type];
+  if (!box || !element.text) return null;
+
+  const { padding } = box;
+  const style = getTextStyle(element);
+  const maxWidth = Math.max(1, element.width - padding.x * 2);
+  const measure = (text: string) => measureText(text, style) + style.letterSpacing * text.length;
+
+  const lines: string[] = [];
+  applyTextTransform(element.text, element.textTransform).split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/(\s+)/).forEach(token => {
+      const candidate = line + token;
+      if (line && token.trim() && measure(candidate) > maxWidth) {
+        lines.push(line.trimEnd());
+        line = token;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+
+  const align = element.textAlign || box.align;
+  const x = align === 'center' ? element.width / 2 : align === 'right' ? element.width - padding.x : padding.x;
+
+  const blockHeight = lines.length * style.lineHeight;
+  const contentHeight = element.height - padding.y * 2;
+  const top = element.verticalAlign === 'top'
+    ? padding.y
+    : element.verticalAlign === 'bottom'
+      ? element.height - padding.y - blockHeight
+      : padding.y + (contentHeight - blockHeight) / 2;
+
+  return { lines, align, x, firstLineY: top + style.lineHeight / 2, style };
+};
+
+/**
+ * Start and end points of a CSS linear-gradient in a w×h box at the origin
+ * 0deg points up and the gradient line reaches the box corners
+ */
+export const getCssGradientLine = (angle: number, width: number, height: number) => {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  return {
+    x1: width / 2 - dx * halfLength,
+    y1: height / 2 - dy * halfLength,
+    x2: width / 2 + dx * halfLength,
+    y2: height / 2 + dy * halfLength
+  };
+};
+
+/**
+ * Radius of a CSS radial-gradient circle with the default farthest-corner size
+ */
+export const getFarthestCornerRadius = (cx: number, cy: number, width: number, height: number) =>
+  Math.max(
+    Math.hypot(cx, cy),
+    Math.hypot(width - cx, cy),
+    Math.hypot(cx, height - cy),
+    Math.hypot(width - cx, height - cy)
+  );
+
+/**
+ * Corner radius as the canvas clamps it, so rounded corners never overlap
+ */
+export const clampBorderRadius = (radius: number | undefined, width: number, height: number) =>
+  Math.max(0, Math.min(radius || 0, width / 2, height / 2));
+
+/**
+ * Size of a line arrowhead in stroke widths, matching the canvas markers
+ */
+export const getArrowheadSize = (element: DesignElement) =>
+  element.autoScaleArrows ? element.strokeWidth * 3 : (element.arrowheadSize || 12);